@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { buildCheckRun } from "./annotations.js";
+import type { CommitReport } from "./lint.js";
+
+const report = (overrides: Partial<CommitReport> = {}): CommitReport => ({
+  sha: "abcdef1234567890",
+  header: "fix: something",
+  files: ["src/cache.ts", "README.md"],
+  missing: null,
+  problems: [],
+  level: 0,
+  ...overrides,
+});
+
+describe("buildCheckRun", () => {
+  it("annotates each problem on the commit's first changed file", () => {
+    const run = buildCheckRun(
+      "head",
+      [
+        report({
+          problems: [
+            { name: "context-by-type", level: 2, message: "fix commits should include: Why" },
+            { name: "context-recommended", level: 1, message: "fix commits: consider adding: Cause" },
+          ],
+          level: 2,
+        }),
+        report({ files: [] , problems: [{ name: "context-section-order", level: 1, message: "m" }], level: 1 }),
+      ],
+      "summary",
+    );
+    expect(run).toMatchObject({
+      name: "muselet",
+      head_sha: "head",
+      conclusion: "failure",
+      title: "1 commit with errors, 1 with warnings",
+      summary: "summary",
+    });
+    expect(run.annotations).toEqual([
+      {
+        path: "src/cache.ts",
+        start_line: 1,
+        end_line: 1,
+        annotation_level: "failure",
+        title: "abcdef1 fix: something",
+        message: "context-by-type: fix commits should include: Why",
+      },
+      {
+        path: "src/cache.ts",
+        start_line: 1,
+        end_line: 1,
+        annotation_level: "warning",
+        title: "abcdef1 fix: something",
+        message: "context-recommended: fix commits: consider adding: Cause",
+      },
+      {
+        path: ".github",
+        start_line: 1,
+        end_line: 1,
+        annotation_level: "warning",
+        title: "abcdef1 fix: something",
+        message: "context-section-order: m",
+      },
+    ]);
+  });
+
+  it("succeeds when every commit is clean", () => {
+    const run = buildCheckRun("head", [report()], "s");
+    expect(run.conclusion).toBe("success");
+    expect(run.title).toBe("All commits have context");
+    expect(run.annotations).toEqual([]);
+  });
+
+  it("is neutral with only warnings", () => {
+    const run = buildCheckRun("head", [report({ level: 1 })], "s");
+    expect(run.conclusion).toBe("neutral");
+  });
+});
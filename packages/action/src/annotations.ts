@@ -0,0 +1,35 @@
+import type { CheckRun, CheckRunAnnotation } from "./github.js";
+import type { CommitReport } from "./lint.js";
+
+/**
+ * One annotation per rule problem. Commit messages have no file of their
+ * own, so each annotation is attached to the first file the commit changed.
+ */
+export function buildAnnotations(reports: CommitReport[]): CheckRunAnnotation[] {
+  return reports.flatMap((report) =>
+    report.problems.map((problem) => ({
+      path: report.files[0] ?? ".github",
+      start_line: 1,
+      end_line: 1,
+      annotation_level: problem.level === 2 ? "failure" : "warning",
+      title: `${report.sha.slice(0, 7)} ${report.header}`,
+      message: `${problem.name}: ${problem.message}`,
+    })),
+  );
+}
+
+export function buildCheckRun(headSha: string, reports: CommitReport[], summary: string): CheckRun {
+  const errors = reports.filter((r) => r.level === 2).length;
+  const warnings = reports.filter((r) => r.level === 1).length;
+  return {
+    name: "muselet",
+    head_sha: headSha,
+    conclusion: errors > 0 ? "failure" : warnings > 0 ? "neutral" : "success",
+    title:
+      errors + warnings === 0
+        ? "All commits have context"
+        : `${errors} commit${errors === 1 ? "" : "s"} with errors, ${warnings} with warnings`,
+    summary,
+    annotations: buildAnnotations(reports),
+  };
+}
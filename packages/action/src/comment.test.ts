@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from "vitest";
+import { COMMENT_MARKER, renderComment, upsertComment } from "./comment.js";
+import type { GitHubClient } from "./github.js";
+import type { CommitReport } from "./lint.js";
+
+const report = (overrides: Partial<CommitReport> = {}): CommitReport => ({
+  sha: "abcdef1234567890",
+  header: "fix: something",
+  files: [],
+  missing: null,
+  problems: [],
+  level: 0,
+  ...overrides,
+});
+
+const failing = report({
+  missing: { label: "fix", required: ["Why"], recommended: ["Cause"] },
+  problems: [
+    { name: "context-by-type", level: 2, message: "fix commits should include: Why" },
+    { name: "context-section-order", level: 1, message: "sections out of order" },
+  ],
+  level: 2,
+});
+
+function mockClient(comments: { id: number; body: string }[] = []): GitHubClient {
+  return {
+    listComments: vi.fn(async () => comments),
+    createComment: vi.fn(async () => {}),
+    updateComment: vi.fn(async () => {}),
+    createCheckRun: vi.fn(async () => {}),
+  };
+}
+
+describe("renderComment", () => {
+  it("lists each non-compliant commit with its missing sections", () => {
+    expect(renderComment([failing, report({ sha: "1111111" })])).toBe(
+      [
+        COMMENT_MARKER,
+        "## muselet",
+        "",
+        "1 of 2 commits need more context:",
+        "",
+        "- ❌ `abcdef1` fix: something",
+        "  - Missing required: Why",
+        "  - Missing recommended: Cause",
+        "  - context-section-order: sections out of order",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("reports a clean run", () => {
+    expect(renderComment([report()])).toContain("✅ All 1 commits explain themselves.");
+  });
+});
+
+describe("upsertComment", () => {
+  it("creates a comment when none exists", async () => {
+    const client = mockClient([{ id: 1, body: "LGTM" }]);
+    await upsertComment(client, 7, [failing]);
+    expect(client.createComment).toHaveBeenCalledWith(7, renderComment([failing]));
+    expect(client.updateComment).not.toHaveBeenCalled();
+  });
+
+  it("updates its own comment in place", async () => {
+    const client = mockClient([{ id: 3, body: `${COMMENT_MARKER}\nold` }]);
+    await upsertComment(client, 7, [report()]);
+    expect(client.updateComment).toHaveBeenCalledWith(3, renderComment([report()]));
+    expect(client.createComment).not.toHaveBeenCalled();
+  });
+
+  it("does not open a comment for a clean run", async () => {
+    const client = mockClient();
+    await upsertComment(client, 7, [report()]);
+    expect(client.createComment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import type { GitHubClient } from "./github.js";
+import type { CommitReport } from "./lint.js";
+
+/** Hidden marker that identifies the action's own comment on a PR. */
+export const COMMENT_MARKER = "<!-- muselet-report -->";
+
+function describe(report: CommitReport): string[] {
+  const lines: string[] = [];
+  const mark = report.level === 2 ? "❌" : "⚠️";
+  lines.push(`- ${mark} \`${report.sha.slice(0, 7)}\` ${report.header}`);
+  if (report.missing?.required.length) {
+    lines.push(`  - Missing required: ${report.missing.required.join(", ")}`);
+  }
+  if (report.missing?.recommended.length) {
+    lines.push(`  - Missing recommended: ${report.missing.recommended.join(", ")}`);
+  }
+  for (const problem of report.problems) {
+    if (problem.name === "context-by-type" || problem.name === "context-recommended") continue;
+    lines.push(`  - ${problem.name}: ${problem.message}`);
+  }
+  return lines;
+}
+
+export function renderComment(reports: CommitReport[]): string {
+  const failing = reports.filter((r) => r.level > 0);
+  const lines = [COMMENT_MARKER, "## muselet", ""];
+  if (failing.length === 0) {
+    lines.push(`✅ All ${reports.length} commits explain themselves.`);
+  } else {
+    lines.push(
+      `${failing.length} of ${reports.length} commits need more context:`,
+      "",
+      ...failing.flatMap(describe),
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Create or update the action's single PR comment. A clean run updates an
+ * existing comment but never opens a new one.
+ */
+export async function upsertComment(
+  client: GitHubClient,
+  issue: number,
+  reports: CommitReport[],
+): Promise<void> {
+  const body = renderComment(reports);
+  const existing = (await client.listComments(issue)).find((c) =>
+    c.body.startsWith(COMMENT_MARKER),
+  );
+  if (existing) {
+    await client.updateComment(existing.id, body);
+  } else if (reports.some((r) => r.level > 0)) {
+    await client.createComment(issue, body);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import { commitRange, readEvent } from "./event.js";
+
+const fixture = (name: string) =>
+  readEvent(path.join(import.meta.dirname, "__fixtures__", name));
+
+describe("commitRange", () => {
+  it("uses base and head of a pull request", () => {
+    expect(commitRange(fixture("pull_request.json"))).toEqual({
+      base: "BASE_SHA",
+      head: "HEAD_SHA",
+    });
+  });
+
+  it("uses before and after of a push", () => {
+    expect(commitRange(fixture("push.json"))).toEqual({
+      base: "BASE_SHA",
+      head: "HEAD_SHA",
+    });
+  });
+
+  it("checks only the head of a newly pushed branch", () => {
+    expect(
+      commitRange({ before: "0000000000000000000000000000000000000000", after: "abc" }),
+    ).toEqual({ base: null, head: "abc" });
+  });
+
+  it("returns null for events without commits", () => {
+    expect(commitRange({ action: "opened" })).toBeNull();
+    expect(
+      commitRange({ before: "abc", after: "0000000000000000000000000000000000000000" }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { readFileSync } from "node:fs";
+
+export interface GitHubEvent {
+  pull_request?: {
+    number?: number;
+    base: { sha: string };
+    head: { sha: string };
+  };
+  before?: string;
+  after?: string;
+  [key: string]: unknown;
+}
+
+export interface CommitRange {
+  /** Exclusive lower bound, or null to check `head` alone. */
+  base: string | null;
+  head: string;
+}
+
+const ZERO_SHA = /^0+$/;
+
+export function readEvent(eventPath: string): GitHubEvent {
+  return JSON.parse(readFileSync(eventPath, "utf-8")) as GitHubEvent;
+}
+
+/**
+ * The commits an event introduces: base..head for pull requests,
+ * before..after for pushes. Returns null for events without commits.
+ */
+export function commitRange(event: GitHubEvent): CommitRange | null {
+  if (event.pull_request) {
+    return { base: event.pull_request.base.sha, head: event.pull_request.head.sha };
+  }
+  if (event.after && !ZERO_SHA.test(event.after)) {
+    const base = event.before && !ZERO_SHA.test(event.before) ? event.before : null;
+    return { base, head: event.after };
+  }
+  return null;
+}
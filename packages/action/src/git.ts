@@ -0,0 +1,18 @@
+import { execFileSync } from "node:child_process";
+import type { CommitRange } from "./event.js";
+
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8" });
+}
+
+/** Non-merge commits in the range, oldest first. */
+export function listCommits(range: CommitRange, cwd: string): string[] {
+  const args = range.base
+    ? ["rev-list", "--reverse", "--no-merges", `${range.base}..${range.head}`]
+    : ["rev-list", "--no-merges", "-n", "1", range.head];
+  return git(args, cwd).split("\n").filter(Boolean);
+}
+
+export function commitMessage(sha: string, cwd: string): string {
+  return git(["log", "-1", "--format=%B", sha], cwd).trimEnd();
+}
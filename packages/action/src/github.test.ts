@@ -0,0 +1,89 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { createGitHubClient } from "./github.js";
+import { startGitHubServer, type Route } from "./__fixtures__/github-server.js";
+
+let server: Awaited<ReturnType<typeof startGitHubServer>>;
+
+async function clientFor(route?: Route) {
+  server = await startGitHubServer(route);
+  return createGitHubClient({ token: "t0ken", repository: "acme/app", apiUrl: server.url });
+}
+
+describe("createGitHubClient", () => {
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("authenticates every request", async () => {
+    const client = await clientFor(() => ({ body: [] }));
+    await client.listComments(7);
+    expect(server.requests[0].headers.authorization).toBe("Bearer t0ken");
+    expect(server.requests[0].headers.accept).toBe("application/vnd.github+json");
+  });
+
+  it("pages through comments", async () => {
+    const page = (n: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ id: n * 1000 + i, body: "x", user: {} }));
+    const client = await clientFor((req) => ({
+      body: req.url.endsWith("page=1") ? page(1, 100) : page(2, 3),
+    }));
+    const comments = await client.listComments(7);
+    expect(comments).toHaveLength(103);
+    expect(comments[0]).toEqual({ id: 1000, body: "x" });
+    expect(server.requests.map((r) => r.url)).toEqual([
+      "/repos/acme/app/issues/7/comments?per_page=100&page=1",
+      "/repos/acme/app/issues/7/comments?per_page=100&page=2",
+    ]);
+  });
+
+  it("creates and updates comments", async () => {
+    const client = await clientFor();
+    await client.createComment(7, "hello");
+    await client.updateComment(99, "updated");
+    expect(server.requests.map(({ method, url, body }) => ({ method, url, body }))).toEqual([
+      { method: "POST", url: "/repos/acme/app/issues/7/comments", body: { body: "hello" } },
+      { method: "PATCH", url: "/repos/acme/app/issues/comments/99", body: { body: "updated" } },
+    ]);
+  });
+
+  it("sends annotations in batches of 50", async () => {
+    const client = await clientFor((req) => (req.method === "POST" ? { status: 201, body: { id: 5 } } : undefined));
+    const annotation = {
+      path: "a.ts",
+      start_line: 1,
+      end_line: 1,
+      annotation_level: "failure" as const,
+      message: "m",
+    };
+    await client.createCheckRun({
+      name: "muselet",
+      head_sha: "abc",
+      conclusion: "failure",
+      title: "t",
+      summary: "s",
+      annotations: Array(120).fill(annotation),
+    });
+    expect(server.requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      "POST /repos/acme/app/check-runs",
+      "PATCH /repos/acme/app/check-runs/5",
+      "PATCH /repos/acme/app/check-runs/5",
+    ]);
+    const sizes = server.requests.map(
+      (r) => (r.body as { output: { annotations: unknown[] } }).output.annotations.length,
+    );
+    expect(sizes).toEqual([50, 50, 20]);
+    expect(server.requests[0].body).toMatchObject({
+      name: "muselet",
+      head_sha: "abc",
+      status: "completed",
+      conclusion: "failure",
+    });
+  });
+
+  it("throws on API errors", async () => {
+    const client = await clientFor(() => ({ status: 403, body: { message: "Resource not accessible" } }));
+    await expect(client.createComment(7, "x")).rejects.toThrow(
+      'GitHub API POST /issues/7/comments failed: 403 {"message":"Resource not accessible"}',
+    );
+  });
+});
@@ -0,0 +1,108 @@
+export interface IssueComment {
+  id: number;
+  body: string;
+}
+
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "notice" | "warning" | "failure";
+  title?: string;
+  message: string;
+}
+
+export interface CheckRun {
+  name: string;
+  head_sha: string;
+  conclusion: "success" | "neutral" | "failure";
+  title: string;
+  summary: string;
+  annotations: CheckRunAnnotation[];
+}
+
+/** The slice of the GitHub REST API the action uses. */
+export interface GitHubClient {
+  listComments(issue: number): Promise<IssueComment[]>;
+  createComment(issue: number, body: string): Promise<void>;
+  updateComment(id: number, body: string): Promise<void>;
+  createCheckRun(run: CheckRun): Promise<void>;
+}
+
+export interface GitHubClientOptions {
+  token: string;
+  /** `owner/repo`. */
+  repository: string;
+  apiUrl?: string;
+  fetch?: typeof globalThis.fetch;
+}
+
+/** GitHub accepts at most 50 annotations per check-run request. */
+const ANNOTATION_BATCH = 50;
+
+export function createGitHubClient({
+  token,
+  repository,
+  apiUrl = "https://api.github.com",
+  fetch = globalThis.fetch,
+}: GitHubClientOptions): GitHubClient {
+  const base = `${apiUrl.replace(/\/$/, "")}/repos/${repository}`;
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${base}${path}`, {
+      method,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        "User-Agent": "muselet-action",
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!res.ok) {
+      throw new Error(`GitHub API ${method} ${path} failed: ${res.status} ${await res.text()}`);
+    }
+    return (res.status === 204 ? undefined : await res.json()) as T;
+  }
+
+  return {
+    async listComments(issue) {
+      const comments: IssueComment[] = [];
+      for (let page = 1; ; page++) {
+        const batch = await request<IssueComment[]>(
+          "GET",
+          `/issues/${issue}/comments?per_page=100&page=${page}`,
+        );
+        comments.push(...batch.map(({ id, body }) => ({ id, body })));
+        if (batch.length < 100) return comments;
+      }
+    },
+
+    async createComment(issue, body) {
+      await request("POST", `/issues/${issue}/comments`, { body });
+    },
+
+    async updateComment(id, body) {
+      await request("PATCH", `/issues/comments/${id}`, { body });
+    },
+
+    async createCheckRun({ annotations, title, summary, ...run }) {
+      const first = annotations.slice(0, ANNOTATION_BATCH);
+      const created = await request<{ id: number }>("POST", "/check-runs", {
+        ...run,
+        status: "completed",
+        output: { title, summary, annotations: first },
+      });
+      for (let i = ANNOTATION_BATCH; i < annotations.length; i += ANNOTATION_BATCH) {
+        await request("PATCH", `/check-runs/${created.id}`, {
+          output: {
+            title,
+            summary,
+            annotations: annotations.slice(i, i + ANNOTATION_BATCH),
+          },
+        });
+      }
+    },
+  };
+}
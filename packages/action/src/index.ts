@@ -1,2 +1,11 @@
-// @muselet/action — GitHub Action entry point (stub)
-console.log("muselet action: coming soon");
+// @muselet/action — GitHub Action entry point
+import { run } from "./run.js";
+
+run({ env: process.env })
+  .then(({ exitCode }) => {
+    process.exitCode = exitCode;
+  })
+  .catch((err) => {
+    console.log(`::error::${err instanceof Error ? err.message : String(err)}`);
+    process.exitCode = 1;
+  });
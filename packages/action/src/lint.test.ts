@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import Module from "node:module";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { loadLintConfig } from "./lint.js";
+
+let dir: string;
+
+/** Re-read NODE_PATH, which node only looks at on startup. */
+const initPaths = () => (Module as unknown as { _initPaths(): void })._initPaths();
+
+/** A stand-in package at `at`, its default export being `source`. */
+function fakePackage(at: string, source: string): void {
+  mkdirSync(at, { recursive: true });
+  writeFileSync(path.join(at, "package.json"), JSON.stringify({ type: "module", main: "index.js" }));
+  writeFileSync(path.join(at, "index.js"), `export default ${source};\n`);
+}
+
+describe("loadLintConfig", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "muselet-action-"));
+    // pnpm's bin shims point NODE_PATH at its store, where the real packages would be found first.
+    vi.stubEnv("NODE_PATH", "");
+    initPaths();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    initPaths();
+  });
+
+  it("finds load and parse under @commitlint/cli when they aren't hoisted", async () => {
+    // pnpm's layout: only the CLI is linked at the root.
+    const cli = path.join(dir, "node_modules/@commitlint/cli");
+    const lint = path.join(cli, "node_modules/@commitlint/lint");
+    fakePackage(cli, "{}");
+    fakePackage(path.join(cli, "node_modules/@commitlint/load"), `async () => ({ rules: { "context-by-type": [1, "always", { fix: ["Why"] }] } })`);
+    fakePackage(lint, "{}");
+    fakePackage(path.join(lint, "node_modules/@commitlint/parse"), `async () => ({ type: "parsed-by-the-fake" })`);
+
+    const config = await loadLintConfig(dir);
+    expect(config.rules[0]).toEqual({ name: "context-by-type", level: 1, when: "always", value: { fix: ["Why"] } });
+    expect(await config.parse("fix: x")).toEqual({ type: "parsed-by-the-fake" });
+  });
+});
@@ -0,0 +1,182 @@
+import { createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  DEFAULT_VALUE,
+  missingSections,
+  rules as museletRules,
+  type Commit,
+  type MissingSections,
+  type RuleValue,
+} from "@muselet/commitlint-plugin";
+
+export type Severity = 0 | 1 | 2;
+
+export interface RuleSetting {
+  name: string;
+  level: Severity;
+  when: "always" | "never";
+  value?: unknown;
+}
+
+type Load = typeof import("@commitlint/load").default;
+type Parse = typeof import("@commitlint/parse").default;
+
+export interface LintConfig {
+  rules: RuleSetting[];
+  parserOpts?: unknown;
+  parse: Parse;
+}
+
+export interface RuleProblem {
+  name: string;
+  level: 1 | 2;
+  message: string;
+}
+
+export interface CommitReport {
+  sha: string;
+  header: string;
+  files: string[];
+  /** Missing sections from the enabled context-by-type / context-recommended rules. */
+  missing: MissingSections | null;
+  problems: RuleProblem[];
+  /** Highest severity among the problems: 0 = clean, 1 = warnings, 2 = errors. */
+  level: Severity;
+}
+
+type MuseletRule = (
+  parsed: Commit,
+  when?: "always" | "never",
+  value?: never,
+) => [boolean, string];
+
+/**
+ * Where to resolve commitlint's packages from in the repository being
+ * checked: its root, then `@commitlint/cli` (the one package init
+ * installs), then `@commitlint/lint` under that. Isolated layouts like
+ * pnpm's only link a package's own dependencies next to it, so
+ * `@commitlint/load` sits under the CLI and `@commitlint/parse` under lint.
+ */
+function commitlintRequires(cwd: string): NodeJS.Require[] {
+  const requires = [createRequire(path.join(cwd, "package.json"))];
+  for (const name of ["@commitlint/cli", "@commitlint/lint"]) {
+    try {
+      requires.push(createRequire(requires[requires.length - 1].resolve(name)));
+    } catch {
+      break;
+    }
+  }
+  return requires;
+}
+
+/**
+ * Import a commitlint package from the repository being checked, so its
+ * config resolves extends and plugins the same way the local hook does.
+ * Falls back to a plain import, which only finds the action's own
+ * dependencies when they're installed (in its tests, say).
+ */
+async function importCommitlint<T>(cwd: string, name: string): Promise<T> {
+  let specifier = name;
+  for (const require of commitlintRequires(cwd)) {
+    try {
+      specifier = pathToFileURL(require.resolve(name)).href;
+      break;
+    } catch {
+      // not reachable from here
+    }
+  }
+  const mod = (await import(specifier)) as { default: T };
+  return mod.default;
+}
+
+/**
+ * Read the muselet rules from the repository's commitlint config. Required
+ * and recommended sections are always checked: when the config doesn't
+ * mention them they default to error and warning, and context-recommended
+ * reuses context-by-type's sections.
+ */
+export async function loadLintConfig(cwd: string, file?: string): Promise<LintConfig> {
+  const load = await importCommitlint<Load>(cwd, "@commitlint/load");
+  const parse = await importCommitlint<Parse>(cwd, "@commitlint/parse");
+  const config = await load({}, { cwd, file });
+
+  const rules: RuleSetting[] = [];
+  for (const [name, setting] of Object.entries(config.rules)) {
+    if (!(name in museletRules) || !Array.isArray(setting)) continue;
+    const [level, when = "always", value] = setting as [
+      Severity,
+      ("always" | "never")?,
+      unknown?,
+    ];
+    rules.push({ name, level, when, value });
+  }
+
+  const byType = rules.find((r) => r.name === "context-by-type");
+  if (!byType) {
+    rules.unshift({ name: "context-by-type", level: 2, when: "always", value: DEFAULT_VALUE });
+  }
+  if (!rules.some((r) => r.name === "context-recommended")) {
+    rules.push({
+      name: "context-recommended",
+      level: 1,
+      when: "always",
+      value: byType?.value ?? DEFAULT_VALUE,
+    });
+  }
+
+  return { rules, parserOpts: config.parserPreset?.parserOpts, parse };
+}
+
+function setting(config: LintConfig, name: string): RuleSetting | undefined {
+  return config.rules.find((r) => r.name === name && r.level > 0 && r.when === "always");
+}
+
+export async function lintCommit(
+  sha: string,
+  message: string,
+  files: string[],
+  lines: number,
+  config: LintConfig,
+): Promise<CommitReport> {
+  const parsed = (await config.parse(
+    message,
+    undefined,
+    config.parserOpts as Parameters<Parse>[2],
+  )) as unknown as Commit;
+  const commit: Commit = { ...parsed, files, lines };
+
+  const problems: RuleProblem[] = [];
+  for (const rule of config.rules) {
+    if (rule.level === 0) continue;
+    const fn = museletRules[rule.name as keyof typeof museletRules] as MuseletRule;
+    const [valid, text] = fn(commit, rule.when, rule.value as never);
+    if (!valid) problems.push({ name: rule.name, level: rule.level, message: text });
+  }
+
+  const required = setting(config, "context-by-type");
+  const recommended = setting(config, "context-recommended");
+  const requiredMissing = required
+    ? missingSections(commit, (required.value as RuleValue | undefined) ?? DEFAULT_VALUE)
+    : null;
+  const recommendedMissing = recommended
+    ? missingSections(commit, (recommended.value as RuleValue | undefined) ?? DEFAULT_VALUE)
+    : null;
+  const missing =
+    requiredMissing || recommendedMissing
+      ? {
+          label: (requiredMissing ?? recommendedMissing)!.label,
+          required: requiredMissing?.required ?? [],
+          recommended: recommendedMissing?.recommended ?? [],
+        }
+      : null;
+
+  return {
+    sha,
+    header: message.split("\n")[0],
+    files,
+    missing,
+    problems,
+    level: problems.reduce<Severity>((max, p) => (p.level > max ? p.level : max), 0),
+  };
+}
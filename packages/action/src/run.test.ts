@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { parseReportInput, run } from "./run.js";
+import { startGitHubServer } from "./__fixtures__/github-server.js";
+
+let dir: string;
+
+const git = (...args: string[]) =>
+  execFileSync("git", args, { cwd: dir, encoding: "utf-8" }).trim();
+
+function commit(message: string, file = `${Math.random()}.txt`): string {
+  writeFileSync(path.join(dir, file), message);
+  git("add", "-A");
+  git("commit", "-q", "-m", message);
+  return git("rev-parse", "HEAD");
+}
+
+function writeConfig(rules: Record<string, unknown>): void {
+  writeFileSync(
+    path.join(dir, "commitlint.config.mjs"),
+    `export default ${JSON.stringify({ rules })};\n`,
+  );
+}
+
+function eventFor(fixture: string, base: string, head: string): string {
+  const raw = readFileSync(path.join(import.meta.dirname, "__fixtures__", fixture), "utf-8");
+  const eventPath = path.join(dir, ".event.json");
+  writeFileSync(eventPath, raw.replace("BASE_SHA", base).replace("HEAD_SHA", head));
+  return eventPath;
+}
+
+describe("run", () => {
+  let base: string;
+  const lines: string[] = [];
+  const log = (line: string) => lines.push(line);
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "muselet-action-"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "test");
+    writeConfig({});
+    base = commit("chore: init");
+    lines.length = 0;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("fails when a commit lacks required sections", async () => {
+    const bad = commit("fix: handle stale cache");
+    const good = commit("feat: add cache\n\n### Why\nlookups were slow");
+    const summaryPath = path.join(dir, ".summary.md");
+
+    const result = await run({
+      cwd: dir,
+      log,
+      env: {
+        GITHUB_EVENT_PATH: eventFor("pull_request.json", base, good),
+        GITHUB_STEP_SUMMARY: summaryPath,
+      },
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.reports.map((r) => r.sha)).toEqual([bad, good]);
+    expect(result.reports[0].missing).toEqual({
+      label: "fix",
+      required: ["Why"],
+      recommended: ["Cause", "Approach"],
+    });
+    expect(result.reports[1].level).toBe(1);
+    expect(readFileSync(summaryPath, "utf-8")).toBe(result.summary);
+    expect(result.summary).toContain(
+      `| \`${bad.slice(0, 7)}\` fix: handle stale cache | ❌ | ❌ | ⚠️ | ⚠️ |  |`,
+    );
+    expect(lines).toContain(`✖ ${bad.slice(0, 7)} fix: handle stale cache`);
+  });
+
+  it("sizes each commit by its own diff for context-min-tier", async () => {
+    writeConfig({ "context-min-tier": [2, "always", { types: { fix: 1 }, size: [{ lines: 2, tier: 2 }] }] });
+    // Four lines in the new file, two in the config.
+    const head = commit("fix: handle stale cache\n\n### Why\nentries outlived deletes");
+    const result = await run({
+      cwd: dir,
+      log,
+      env: { GITHUB_EVENT_PATH: eventFor("push.json", base, head) },
+    });
+    expect(result.exitCode).toBe(1);
+    expect(result.reports[0].problems.find((p) => p.name === "context-min-tier")?.message).toMatch(
+      /^fix commits changing more than 2 lines \(this one: 6\)/,
+    );
+  });
+
+  it("passes when only recommended sections are missing", async () => {
+    const head = commit("fix: handle stale cache\n\n### Why\nentries outlived deletes");
+    const result = await run({
+      cwd: dir,
+      log,
+      env: { GITHUB_EVENT_PATH: eventFor("push.json", base, head) },
+    });
+    expect(result.exitCode).toBe(0);
+    expect(result.reports[0].level).toBe(1);
+  });
+
+  it("follows the severities in the repository config", async () => {
+    writeConfig({
+      "context-by-type": [1, "always", { fix: ["Why"] }],
+      "context-section-content": [2, "always", { fix: ["Why"] }],
+    });
+    const head = commit("fix: handle stale cache\n\n### Why\nTODO");
+    const result = await run({
+      cwd: dir,
+      log,
+      env: { GITHUB_EVENT_PATH: eventFor("pull_request.json", base, head) },
+    });
+    expect(result.exitCode).toBe(1);
+    expect(result.reports[0].problems).toEqual([
+      {
+        name: "context-section-content",
+        level: 2,
+        message: "fix commits have incomplete sections: Why (placeholder)",
+      },
+    ]);
+    expect(result.summary).toContain("### Other problems");
+  });
+
+  it("passes changed files to path rules", async () => {
+    writeConfig({
+      "context-by-type": [0],
+      "context-recommended": [0],
+      "context-by-path": [2, "always", { "migrations/**": ["Migration"] }],
+    });
+    execFileSync("mkdir", ["migrations"], { cwd: dir });
+    const head = commit("feat: add users table\n\n### Why\nr", "migrations/001.sql");
+    const result = await run({
+      cwd: dir,
+      log,
+      env: { GITHUB_EVENT_PATH: eventFor("pull_request.json", base, head) },
+    });
+    expect(result.exitCode).toBe(1);
+    expect(result.reports[0].problems[0].message).toBe(
+      "feat commits should include: Migration",
+    );
+  });
+
+  it("reads the config from the config input", async () => {
+    writeFileSync(
+      path.join(dir, "custom.config.mjs"),
+      `export default ${JSON.stringify({ rules: { "context-by-type": [0] , "context-recommended": [0] } })};\n`,
+    );
+    const head = commit("fix: no body");
+    const result = await run({
+      cwd: dir,
+      log,
+      env: {
+        GITHUB_EVENT_PATH: eventFor("pull_request.json", base, head),
+        INPUT_CONFIG: "custom.config.mjs",
+      },
+    });
+    expect(result.exitCode).toBe(0);
+  });
+
+  it("does nothing for events without commits", async () => {
+    const eventPath = path.join(dir, ".event.json");
+    writeFileSync(eventPath, JSON.stringify({ action: "labeled" }));
+    const result = await run({ cwd: dir, log, env: { GITHUB_EVENT_PATH: eventPath } });
+    expect(result).toEqual({ reports: [], summary: "", exitCode: 0 });
+  });
+
+  it("comments on the pull request and annotates the head commit", async () => {
+    mkdirSync(path.join(dir, "src"));
+    const bad = commit("fix: handle stale cache", "src/cache.ts");
+    const server = await startGitHubServer((req) =>
+      req.method === "GET" ? { body: [] } : { status: 201, body: { id: 1 } },
+    );
+    try {
+      const summaryPath = path.join(dir, ".summary.md");
+      await run({
+        cwd: dir,
+        log,
+        env: {
+          GITHUB_EVENT_PATH: eventFor("pull_request.json", base, bad),
+          GITHUB_STEP_SUMMARY: summaryPath,
+          GITHUB_REPOSITORY: "acme/app",
+          GITHUB_API_URL: server.url,
+          INPUT_TOKEN: "t0ken",
+          INPUT_REPORT: "comment, annotations",
+        },
+      });
+      expect(server.requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+        "GET /repos/acme/app/issues/42/comments?per_page=100&page=1",
+        "POST /repos/acme/app/issues/42/comments",
+        "POST /repos/acme/app/check-runs",
+      ]);
+      expect(server.requests[2].body).toMatchObject({
+        head_sha: bad,
+        conclusion: "failure",
+      });
+      const { annotations } = (server.requests[2].body as { output: { annotations: unknown[] } }).output;
+      expect(annotations).toContainEqual(
+        expect.objectContaining({ path: "src/cache.ts", annotation_level: "failure" }),
+      );
+      expect(() => readFileSync(summaryPath)).toThrow();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("warns instead of failing when the API rejects the token", async () => {
+    const head = commit("fix: handle stale cache\n\n### Why\nentries outlived deletes");
+    const server = await startGitHubServer(() => ({ status: 403, body: { message: "nope" } }));
+    try {
+      const result = await run({
+        cwd: dir,
+        log,
+        env: {
+          GITHUB_EVENT_PATH: eventFor("pull_request.json", base, head),
+          GITHUB_REPOSITORY: "acme/app",
+          GITHUB_API_URL: server.url,
+          INPUT_TOKEN: "t0ken",
+        },
+      });
+      expect(result.exitCode).toBe(0);
+      expect(lines.some((l) => l.startsWith("::warning::muselet: GitHub API GET"))).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("parseReportInput", () => {
+  it("defaults to every target", () => {
+    expect([...parseReportInput("")]).toEqual(["summary", "comment", "annotations"]);
+    expect([...parseReportInput("all")]).toEqual(["summary", "comment", "annotations"]);
+  });
+
+  it("accepts a comma-separated list", () => {
+    expect([...parseReportInput("summary, comment")]).toEqual(["summary", "comment"]);
+  });
+
+  it("rejects unknown targets", () => {
+    expect(() => parseReportInput("slack")).toThrow(/slack/);
+  });
+});
@@ -0,0 +1,112 @@
+import { appendFileSync } from "node:fs";
+import { changedFiles, changedLines } from "@muselet/commitlint-plugin";
+import { buildCheckRun } from "./annotations.js";
+import { upsertComment } from "./comment.js";
+import { commitRange, readEvent } from "./event.js";
+import { commitMessage, listCommits } from "./git.js";
+import { createGitHubClient, type GitHubClient } from "./github.js";
+import { lintCommit, loadLintConfig, type CommitReport } from "./lint.js";
+import { renderSummary } from "./summary.js";
+
+export type ReportTarget = "summary" | "comment" | "annotations";
+
+export interface RunOptions {
+  env: Record<string, string | undefined>;
+  cwd?: string;
+  log?: (line: string) => void;
+  /** Overrides the REST client built from the `token` input. */
+  client?: GitHubClient;
+}
+
+export interface RunResult {
+  reports: CommitReport[];
+  summary: string;
+  exitCode: 0 | 1;
+}
+
+const TARGETS: readonly ReportTarget[] = ["summary", "comment", "annotations"];
+
+/** Read an action input the way the runner exposes it (`INPUT_<NAME>`). */
+export function getInput(env: RunOptions["env"], name: string): string {
+  return (env[`INPUT_${name.replace(/ /g, "_").toUpperCase()}`] ?? "").trim();
+}
+
+/** Parse the `report` input: `all` or a comma-separated list of targets. */
+export function parseReportInput(input: string): Set<ReportTarget> {
+  const values = (input || "all").split(",").map((v) => v.trim().toLowerCase());
+  if (values.includes("all")) return new Set(TARGETS);
+  for (const value of values) {
+    if (!TARGETS.includes(value as ReportTarget)) {
+      throw new Error(`Invalid report input "${value}" (expected ${[...TARGETS, "all"].join(", ")})`);
+    }
+  }
+  return new Set(values as ReportTarget[]);
+}
+
+export async function run({ env, cwd, log = console.log, client }: RunOptions): Promise<RunResult> {
+  const workspace = cwd ?? env.GITHUB_WORKSPACE ?? process.cwd();
+  if (!env.GITHUB_EVENT_PATH) throw new Error("GITHUB_EVENT_PATH is not set");
+
+  const targets = parseReportInput(getInput(env, "report"));
+  const event = readEvent(env.GITHUB_EVENT_PATH);
+  const range = commitRange(event);
+  if (!range) {
+    log("muselet: event has no commits to check");
+    return { reports: [], summary: "", exitCode: 0 };
+  }
+
+  const config = await loadLintConfig(workspace, getInput(env, "config") || undefined);
+
+  const reports: CommitReport[] = [];
+  for (const sha of listCommits(range, workspace)) {
+    const report = await lintCommit(
+      sha,
+      commitMessage(sha, workspace),
+      changedFiles({ commit: sha }, workspace),
+      changedLines({ commit: sha }, workspace),
+      config,
+    );
+    reports.push(report);
+    const mark = report.level === 2 ? "✖" : report.level === 1 ? "⚠" : "✔";
+    log(`${mark} ${sha.slice(0, 7)} ${report.header}`);
+    for (const problem of report.problems) log(`    ${problem.name}: ${problem.message}`);
+  }
+
+  const summary = renderSummary(reports);
+  if (targets.has("summary") && env.GITHUB_STEP_SUMMARY) {
+    appendFileSync(env.GITHUB_STEP_SUMMARY, summary);
+  }
+
+  const token = getInput(env, "token");
+  const github =
+    client ??
+    (token && env.GITHUB_REPOSITORY
+      ? createGitHubClient({ token, repository: env.GITHUB_REPOSITORY, apiUrl: env.GITHUB_API_URL })
+      : null);
+
+  if (targets.has("comment") || targets.has("annotations")) {
+    if (!github) {
+      log("::warning::muselet: no token input; skipping PR comment and annotations");
+    } else {
+      // Reporting failures (e.g. a read-only token on fork PRs) shouldn't
+      // hide the lint result itself.
+      const issue = event.pull_request?.number;
+      try {
+        if (targets.has("comment") && issue !== undefined) {
+          await upsertComment(github, issue, reports);
+        }
+        if (targets.has("annotations")) {
+          await github.createCheckRun(buildCheckRun(range.head, reports, summary));
+        }
+      } catch (err) {
+        log(`::warning::muselet: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  return {
+    reports,
+    summary,
+    exitCode: reports.some((r) => r.level === 2) ? 1 : 0,
+  };
+}
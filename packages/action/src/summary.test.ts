@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { renderSummary } from "./summary.js";
+import type { CommitReport } from "./lint.js";
+
+const report = (overrides: Partial<CommitReport> = {}): CommitReport => ({
+  sha: "abcdef1234567890",
+  header: "fix: something",
+  files: [],
+  missing: null,
+  problems: [],
+  level: 0,
+  ...overrides,
+});
+
+describe("renderSummary", () => {
+  it("renders a commits × sections table", () => {
+    const summary = renderSummary([
+      report({
+        missing: { label: "fix", required: ["Why"], recommended: ["Cause"] },
+        level: 2,
+      }),
+      report({
+        sha: "1234567abcdef",
+        header: "feat: a | b",
+        missing: { label: "feat", required: [], recommended: [] },
+      }),
+    ]);
+    expect(summary).toBe(
+      [
+        "## muselet",
+        "",
+        "2 commits checked · 1 with errors · 0 with warnings",
+        "",
+        "| Commit | Status | Why | Cause |",
+        "| --- | :-: | :-: | :-: |",
+        "| `abcdef1` fix: something | ❌ | ❌ | ⚠️ |",
+        "| `1234567` feat: a \\| b | ✅ |  |  |",
+        "",
+        "❌ required section missing · ⚠️ recommended section missing",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("lists problems from other rules", () => {
+    const summary = renderSummary([
+      report({
+        problems: [
+          { name: "context-by-type", level: 2, message: "fix commits should include: Why" },
+          { name: "context-section-order", level: 1, message: "sections out of order" },
+        ],
+        level: 2,
+      }),
+    ]);
+    expect(summary).toContain(
+      "### Other problems\n\n- ⚠️ `abcdef1` **context-section-order**: sections out of order",
+    );
+    expect(summary).not.toContain("**context-by-type**");
+  });
+
+  it("handles an empty range", () => {
+    expect(renderSummary([])).toBe("## muselet\n\n0 commits checked · 0 with errors · 0 with warnings\n");
+  });
+});
@@ -0,0 +1,60 @@
+import type { CommitReport } from "./lint.js";
+
+/** Rules whose failures are already shown as table cells. */
+const TABLE_RULES = new Set(["context-by-type", "context-recommended"]);
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+function status(report: CommitReport): string {
+  return report.level === 2 ? "❌" : report.level === 1 ? "⚠️" : "✅";
+}
+
+/** Markdown job summary: one row per commit, one column per missing section. */
+export function renderSummary(reports: CommitReport[]): string {
+  const errors = reports.filter((r) => r.level === 2).length;
+  const warnings = reports.filter((r) => r.level === 1).length;
+  const lines = [
+    "## muselet",
+    "",
+    `${reports.length} commit${reports.length === 1 ? "" : "s"} checked · ${errors} with errors · ${warnings} with warnings`,
+    "",
+  ];
+  if (reports.length === 0) return lines.join("\n");
+
+  const sections = [
+    ...new Set(
+      reports.flatMap((r) => [...(r.missing?.required ?? []), ...(r.missing?.recommended ?? [])]),
+    ),
+  ];
+
+  lines.push(
+    `| Commit | Status |${sections.map((s) => ` ${s} |`).join("")}`,
+    `| --- | :-: |${sections.map(() => " :-: |").join("")}`,
+  );
+  for (const report of reports) {
+    const cells = sections.map((s) => {
+      if (report.missing?.required.includes(s)) return " ❌ |";
+      if (report.missing?.recommended.includes(s)) return " ⚠️ |";
+      return "  |";
+    });
+    lines.push(
+      `| \`${report.sha.slice(0, 7)}\` ${escapeCell(report.header)} | ${status(report)} |${cells.join("")}`,
+    );
+  }
+  if (sections.length > 0) {
+    lines.push("", "❌ required section missing · ⚠️ recommended section missing");
+  }
+
+  const other = reports.flatMap((r) =>
+    r.problems
+      .filter((p) => !TABLE_RULES.has(p.name))
+      .map((p) => `- ${p.level === 2 ? "❌" : "⚠️"} \`${r.sha.slice(0, 7)}\` **${p.name}**: ${p.message}`),
+  );
+  if (other.length > 0) {
+    lines.push("", "### Other problems", "", ...other);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -3,5 +3,11 @@ import { defineConfig } from "tsup";
 export default defineConfig({
   entry: ["src/index.ts"],
   format: ["esm"],
+  // Actions run dist/index.js without installing dependencies. commitlint
+  // itself is imported from the checked-out repository at runtime.
+  noExternal: [/^(?!@commitlint\/)/],
+  external: ["@commitlint/load", "@commitlint/parse"],
+  platform: "node",
+  target: "node20",
   clean: true,
 });
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  commitlintRules,
+  loadMuseletConfig,
+  MuseletConfigError,
+  parseMuseletConfig,
+  RULE_NAMES,
+  validateMuseletConfig,
+  validateRuleValue,
+} from "./config.js";
+import { rules } from "./index.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "muselet-config-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("validateMuseletConfig", () => {
+  it("accepts types with only recommended sections, or none", () => {
+    expect(
+      validateMuseletConfig({
+        types: { docs: { recommended: ["Why"] }, chore: [], "chore(deps)": { required: [], inherit: false } },
+        aliases: { Refs: ["Tickets"] },
+        rules: { "context-by-type": "error", "context-recommended": ["warn", "always"], "context-by-path": [2, "always", { "db/**": ["Migration"] }] },
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports each problem at its path", () => {
+    expect(
+      validateMuseletConfig({
+        types: {
+          fix: { required: "Why", recommended: ["Cause", 3] },
+          feat: { scopes: { api: { required: ["Invariants"], scopes: {} } }, minLength: { Why: { words: -1 } } },
+          "perf(db)": { validators: { Metrics: ["numbers"] }, refsPattern: "(" },
+        },
+        styles: ["heading", "underline"],
+        rules: {
+          "context-by-type": "fatal",
+          "context-recommended": [1, "sometimes"],
+          "context-section-style": ["warn", "always", { level: 9 }],
+          "context-min-tier": ["error", "always", { types: { fix: 4 }, size: [{ lines: "300", tier: 2 }] }],
+          "context-typo": "warn",
+        },
+        extra: true,
+      }).map(({ path, message }) => `${path}: ${message}`),
+    ).toEqual([
+      'extra: unknown key (expected one of $schema, types, aliases, styles, rules)',
+      'types.fix.required: expected a list of strings, got string "Why"',
+      "types.fix.recommended[1]: expected a non-empty string, got number 3",
+      "types.feat.minLength.Why.words: expected a whole number, got number -1",
+      "types.feat.scopes.api.scopes: scope overrides can't have scopes of their own",
+      expect.stringMatching(/^types\."perf\(db\)"\.refsPattern: invalid regex/),
+      'types."perf(db)".validators.Metrics[0]: expected a function or one of metrics, refs, alternatives, got string "numbers"',
+      'styles[1]: expected one of heading, label, bold, got string "underline"',
+      'rules.context-by-type: expected off, warn, error, 0, 1 or 2, got string "fatal"',
+      'rules.context-recommended[1]: expected "always" or "never", got string "sometimes"',
+      "rules.context-section-style[2].level: expected a heading level from 1 to 6, got number 9",
+      "rules.context-min-tier[2].types.fix: expected a tier from 0 to 3, got number 4",
+      'rules.context-min-tier[2].size[0].lines: expected a number of lines, got string "300"',
+      expect.stringMatching(/^rules\.context-typo: unknown rule/),
+    ]);
+  });
+
+  it("requires types", () => {
+    expect(validateMuseletConfig({})).toEqual([{ path: "types", message: "missing: list the sections for each commit type" }]);
+    expect(validateMuseletConfig([])).toEqual([{ path: "(root)", message: "expected an object, got an array" }]);
+  });
+
+  it("checks a bare types value under a path", () => {
+    expect(validateRuleValue({ fix: "Why" }, "types")).toEqual([
+      { path: "types.fix", message: 'expected a list of sections or a section config, got string "Why"' },
+    ]);
+  });
+});
+
+describe("loadMuseletConfig", () => {
+  it("finds JSON, YAML and .museletrc files", async () => {
+    writeFileSync(path.join(dir, ".museletrc"), "types:\n  fix: [Why]\n");
+    expect(await loadMuseletConfig(dir)).toEqual({ file: path.join(dir, ".museletrc"), config: { types: { fix: ["Why"] } } });
+
+    writeFileSync(path.join(dir, "muselet.config.json"), '{ "types": { "feat": ["Why"] } }');
+    expect((await loadMuseletConfig(dir))?.config.types).toEqual({ feat: ["Why"] });
+  });
+
+  it("imports muselet.config.mjs, validator functions included", async () => {
+    writeFileSync(
+      path.join(dir, "muselet.config.mjs"),
+      'export default { types: { feat: { required: ["Why"], validators: { Why: [(text) => text.length > 3] } } } };\n',
+    );
+    const loaded = await loadMuseletConfig(dir);
+    expect(loaded?.file).toBe(path.join(dir, "muselet.config.mjs"));
+  });
+
+  it("resolves to null without a config and throws with the issues for a bad one", async () => {
+    expect(await loadMuseletConfig(dir)).toBeNull();
+    writeFileSync(path.join(dir, "muselet.config.yaml"), "types:\n  fix: Why\n");
+    const error = await loadMuseletConfig(dir).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(MuseletConfigError);
+    expect((error as MuseletConfigError).issues.map((i) => i.path)).toEqual(["types.fix"]);
+  });
+
+  it("reports a parse error", () => {
+    expect(() => parseMuseletConfig("muselet.config.json", "{ types")).toThrow(/Invalid muselet config in muselet.config.json/);
+  });
+});
+
+describe("commitlintRules", () => {
+  it("defaults to required sections as errors and recommended as warnings", () => {
+    const types = { fix: { required: ["Why"], recommended: ["Cause"] } };
+    expect(commitlintRules({ types })).toEqual({
+      "context-by-type": [2, "always", types],
+      "context-recommended": [1, "always", types],
+    });
+  });
+
+  it("feeds the shared aliases to every type and alias-aware rule", () => {
+    expect(
+      commitlintRules({
+        types: { fix: ["Why"], feat: { required: ["Why"], aliases: { Why: ["Motivation"] } } },
+        aliases: { Why: ["Reason"] },
+        rules: {
+          "context-by-type": "warn",
+          "context-known-sections": ["error", "always", { extra: ["Compliance"] }],
+          "context-breaking": 2,
+          "context-by-path": [2, "always", { "db/**": ["Migration"] }],
+        },
+      }),
+    ).toEqual({
+      "context-by-type": [1, "always", {
+        fix: { required: ["Why"], aliases: { Why: ["Reason"] } },
+        feat: { required: ["Why"], aliases: { Why: ["Reason", "Motivation"] } },
+      }],
+      "context-known-sections": [2, "always", { extra: ["Compliance"], aliases: { Why: ["Reason"] } }],
+      "context-breaking": [2, "always", { aliases: { Why: ["Reason"] } }],
+      "context-by-path": [2, "always", { paths: { "db/**": ["Migration"] }, aliases: { Why: ["Reason"] } }],
+    });
+  });
+
+  it("makes the shared styles every type's default", () => {
+    expect(
+      commitlintRules({
+        types: { fix: ["Why"], feat: { required: ["Why"], styles: ["bold"] } },
+        styles: ["heading", "label"],
+        rules: { "context-by-type": 2, "context-section-order": 1, "context-section-style": [1, "always", { style: "label" }] },
+      }),
+    ).toEqual({
+      "context-by-type": [2, "always", {
+        fix: { required: ["Why"], styles: ["heading", "label"] },
+        feat: { required: ["Why"], styles: ["bold"] },
+      }],
+      "context-section-order": [1, "always", { styles: ["heading", "label"] }],
+      "context-section-style": [1, "always", { style: "label" }],
+    });
+  });
+});
+
+describe("muselet.schema.json", () => {
+  const schema = JSON.parse(readFileSync(new URL("../muselet.schema.json", import.meta.url), "utf-8")) as {
+    properties: { rules: { properties: Record<string, unknown> } };
+  };
+
+  it("covers every rule the plugin provides", () => {
+    expect(Object.keys(rules).sort()).toEqual([...RULE_NAMES].sort());
+    expect(Object.keys(schema.properties.rules.properties).sort()).toEqual([...RULE_NAMES].sort());
+  });
+});
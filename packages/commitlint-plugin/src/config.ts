@@ -0,0 +1,453 @@
+import path from "node:path";
+import { existsSync, readFileSync } from "node:fs";
+import { pathToFileURL } from "node:url";
+import yaml from "js-yaml";
+import { SECTION_STYLES, type SectionStyle } from "./parser.js";
+import { BUILTIN_VALIDATORS } from "./validators.js";
+import type { RuleValue, SectionConfig } from "./rules/context-by-type.js";
+
+/** Every rule the plugin provides. */
+export const RULE_NAMES = [
+  "context-by-type",
+  "context-recommended",
+  "context-section-content",
+  "context-by-path",
+  "context-breaking",
+  "context-section-format",
+  "context-known-sections",
+  "context-section-order",
+  "context-section-style",
+  "context-min-tier",
+] as const;
+
+export type RuleName = (typeof RULE_NAMES)[number];
+
+/** Rules that take the per-type sections as their value. */
+const TYPE_RULES: readonly RuleName[] = [
+  "context-by-type",
+  "context-recommended",
+  "context-section-content",
+  "context-section-format",
+];
+
+/** Rules that take section aliases in their value. */
+const ALIAS_RULES: readonly RuleName[] = [
+  "context-by-path",
+  "context-breaking",
+  "context-known-sections",
+  "context-section-order",
+  "context-min-tier",
+];
+
+/** Rules that take the allowed section styles in their value. */
+const STYLE_RULES: readonly RuleName[] = [
+  "context-by-path",
+  "context-known-sections",
+  "context-section-order",
+  "context-breaking",
+  "context-min-tier",
+];
+
+export type Severity = "off" | "warn" | "error" | 0 | 1 | 2;
+
+/**
+ * A rule's setting: a severity, or commitlint's `[severity, when]` with an
+ * optional value for the rules that don't take the per-type sections.
+ */
+export type RuleSetting = Severity | [Severity, ("always" | "never")?, unknown?];
+
+/** The contents of a muselet.config.{json,yaml,mjs} or .museletrc file. */
+export interface MuseletConfig {
+  $schema?: string;
+  /** Sections per commit type, as for `context-by-type`. */
+  types: RuleValue;
+  /** Extra spellings per section, for every type. */
+  aliases?: Record<string, string[]>;
+  /** Section styles that count, for every type and rule; all of them by default. */
+  styles?: SectionStyle[];
+  /** Rule severities. Defaults to required sections as errors, recommended as warnings. */
+  rules?: Partial<Record<RuleName, RuleSetting>>;
+}
+
+/** Config files muselet looks for, in lookup order. */
+export const MUSELET_CONFIG_FILES: readonly string[] = [
+  "muselet.config.json",
+  "muselet.config.yaml",
+  "muselet.config.yml",
+  "muselet.config.mjs",
+  "muselet.config.js",
+  ".museletrc",
+  ".museletrc.json",
+  ".museletrc.yaml",
+  ".museletrc.yml",
+];
+
+export const DEFAULT_RULE_SEVERITIES: Partial<Record<RuleName, RuleSetting>> = {
+  "context-by-type": "error",
+  "context-recommended": "warn",
+};
+
+/** One problem with a config, at a path such as `types.fix.recommended[1]`. */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export class MuseletConfigError extends Error {
+  constructor(
+    readonly file: string,
+    readonly issues: ConfigIssue[],
+  ) {
+    super(`Invalid muselet config in ${file}:\n${issues.map((i) => `  ${i.path}: ${i.message}`).join("\n")}`);
+    this.name = "MuseletConfigError";
+  }
+}
+
+type Data = Record<string, unknown>;
+
+function isObject(value: unknown): value is Data {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "object" ? "an object" : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function key(base: string, name: string): string {
+  const part = /^[A-Za-z_$][\w$-]*$/.test(name) ? name : JSON.stringify(name);
+  return base ? `${base}.${part}` : part;
+}
+
+/** Collects issues while walking a config. */
+class Checker {
+  readonly issues: ConfigIssue[] = [];
+
+  fail(at: string, message: string): false {
+    this.issues.push({ path: at || "(root)", message });
+    return false;
+  }
+
+  object(value: unknown, at: string): value is Data {
+    return isObject(value) || this.fail(at, `expected an object, got ${describeValue(value)}`);
+  }
+
+  strings(value: unknown, at: string): value is string[] {
+    if (!Array.isArray(value)) return this.fail(at, `expected a list of strings, got ${describeValue(value)}`);
+    let ok = true;
+    value.forEach((item, i) => {
+      if (typeof item !== "string" || item.trim() === "") {
+        ok = this.fail(`${at}[${i}]`, `expected a non-empty string, got ${describeValue(item)}`);
+      }
+    });
+    return ok;
+  }
+
+  regex(value: unknown, at: string): void {
+    if (typeof value !== "string") {
+      this.fail(at, `expected a regex source string, got ${describeValue(value)}`);
+      return;
+    }
+    try {
+      new RegExp(value);
+    } catch (err) {
+      this.fail(at, `invalid regex: ${(err as Error).message}`);
+    }
+  }
+
+  known(value: Data, at: string, allowed: readonly string[]): void {
+    for (const name of Object.keys(value)) {
+      if (!allowed.includes(name)) this.fail(key(at, name), `unknown key (expected one of ${allowed.join(", ")})`);
+    }
+  }
+
+  styles(value: unknown, at: string): void {
+    if (!Array.isArray(value)) {
+      this.fail(at, `expected a list of styles, got ${describeValue(value)}`);
+      return;
+    }
+    value.forEach((style, i) => {
+      if (!SECTION_STYLES.includes(style)) {
+        this.fail(`${at}[${i}]`, `expected one of ${SECTION_STYLES.join(", ")}, got ${describeValue(style)}`);
+      }
+    });
+  }
+
+  listMap(value: unknown, at: string): void {
+    if (!this.object(value, at)) return;
+    for (const [name, list] of Object.entries(value)) this.strings(list, key(at, name));
+  }
+}
+
+const SECTION_KEYS = [
+  "required",
+  "recommended",
+  "placeholders",
+  "minLength",
+  "validators",
+  "refsPattern",
+  "aliases",
+  "scopes",
+  "inherit",
+  "styles",
+];
+
+function checkSection(c: Checker, value: unknown, at: string, scoped: boolean): void {
+  if (Array.isArray(value)) {
+    c.strings(value, at);
+    return;
+  }
+  if (!isObject(value)) {
+    c.fail(at, `expected a list of sections or a section config, got ${describeValue(value)}`);
+    return;
+  }
+  c.known(value, at, SECTION_KEYS);
+  if (value.required !== undefined) c.strings(value.required, key(at, "required"));
+  if (value.recommended !== undefined) c.strings(value.recommended, key(at, "recommended"));
+  if (value.aliases !== undefined) c.listMap(value.aliases, key(at, "aliases"));
+  if (value.refsPattern !== undefined) c.regex(value.refsPattern, key(at, "refsPattern"));
+  if (value.styles !== undefined) c.styles(value.styles, key(at, "styles"));
+  if (value.inherit !== undefined && typeof value.inherit !== "boolean") {
+    c.fail(key(at, "inherit"), `expected true or false, got ${describeValue(value.inherit)}`);
+  }
+  if (value.placeholders !== undefined && c.strings(value.placeholders, key(at, "placeholders"))) {
+    value.placeholders.forEach((p, i) => c.regex(p, `${key(at, "placeholders")}[${i}]`));
+  }
+  if (value.minLength !== undefined && c.object(value.minLength, key(at, "minLength"))) {
+    for (const [section, length] of Object.entries(value.minLength)) {
+      const lengthAt = key(key(at, "minLength"), section);
+      if (!c.object(length, lengthAt)) continue;
+      c.known(length, lengthAt, ["words", "chars"]);
+      for (const unit of ["words", "chars"]) {
+        const n = length[unit];
+        if (n !== undefined && !(Number.isInteger(n) && (n as number) >= 0)) {
+          c.fail(key(lengthAt, unit), `expected a whole number, got ${describeValue(n)}`);
+        }
+      }
+    }
+  }
+  if (value.validators !== undefined && c.object(value.validators, key(at, "validators"))) {
+    for (const [section, list] of Object.entries(value.validators)) {
+      const listAt = key(key(at, "validators"), section);
+      if (!Array.isArray(list)) {
+        c.fail(listAt, `expected a list of validators, got ${describeValue(list)}`);
+        continue;
+      }
+      list.forEach((v, i) => {
+        if (typeof v === "function" || (typeof v === "string" && Object.hasOwn(BUILTIN_VALIDATORS, v))) return;
+        c.fail(`${listAt}[${i}]`, `expected a function or one of ${Object.keys(BUILTIN_VALIDATORS).join(", ")}, got ${describeValue(v)}`);
+      });
+    }
+  }
+  if (value.scopes !== undefined) {
+    if (scoped) {
+      c.fail(key(at, "scopes"), "scope overrides can't have scopes of their own");
+    } else if (c.object(value.scopes, key(at, "scopes"))) {
+      for (const [scope, config] of Object.entries(value.scopes)) checkSection(c, config, key(key(at, "scopes"), scope), true);
+    }
+  }
+}
+
+/**
+ * Check a per-type sections value (what `context-by-type` takes). Types may
+ * list required sections, recommended ones, or neither.
+ */
+export function validateRuleValue(value: unknown, at = ""): ConfigIssue[] {
+  const c = new Checker();
+  if (c.object(value, at)) {
+    for (const [type, config] of Object.entries(value)) {
+      checkSection(c, config, key(at, type), /^[^()]+\(.+\)$/.test(type));
+    }
+  }
+  return c.issues;
+}
+
+const SEVERITIES: readonly unknown[] = ["off", "warn", "error", 0, 1, 2];
+
+function checkRule(c: Checker, name: string, setting: unknown, at: string): void {
+  if (!(RULE_NAMES as readonly string[]).includes(name)) {
+    c.fail(at, `unknown rule (expected one of ${RULE_NAMES.join(", ")})`);
+    return;
+  }
+  const [severity, when, value] = Array.isArray(setting) ? setting : [setting];
+  const severityAt = Array.isArray(setting) ? `${at}[0]` : at;
+  if (!SEVERITIES.includes(severity)) {
+    c.fail(severityAt, `expected off, warn, error, 0, 1 or 2, got ${describeValue(severity)}`);
+  }
+  if (Array.isArray(setting) && setting.length > 3) c.fail(at, "expected at most [severity, when, value]");
+  if (when !== undefined && when !== "always" && when !== "never") {
+    c.fail(`${at}[1]`, `expected "always" or "never", got ${describeValue(when)}`);
+  }
+  if (value === undefined) return;
+  if (TYPE_RULES.includes(name as RuleName)) {
+    c.fail(`${at}[2]`, "this rule takes its value from `types`");
+  } else if (name === "context-by-path") {
+    c.listMap(value, `${at}[2]`);
+  } else if (name === "context-section-style") {
+    if (!c.object(value, `${at}[2]`)) return;
+    c.known(value, `${at}[2]`, ["style", "level"]);
+    if (value.style !== undefined && !SECTION_STYLES.includes(value.style as SectionStyle)) {
+      c.fail(`${at}[2].style`, `expected one of ${SECTION_STYLES.join(", ")}, got ${describeValue(value.style)}`);
+    }
+    if (value.level !== undefined && !(Number.isInteger(value.level) && (value.level as number) >= 1 && (value.level as number) <= 6)) {
+      c.fail(`${at}[2].level`, `expected a heading level from 1 to 6, got ${describeValue(value.level)}`);
+    }
+  } else if (name === "context-min-tier") {
+    checkMinTier(c, value, `${at}[2]`);
+  } else {
+    c.object(value, `${at}[2]`);
+  }
+}
+
+function checkTier(c: Checker, value: unknown, at: string): void {
+  if (!(Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 3)) {
+    c.fail(at, `expected a tier from 0 to 3, got ${describeValue(value)}`);
+  }
+}
+
+function checkMinTier(c: Checker, value: unknown, at: string): void {
+  if (!c.object(value, at)) return;
+  c.known(value, at, ["types", "size", "aliases", "styles", "placeholders"]);
+  if (value.types !== undefined && c.object(value.types, key(at, "types"))) {
+    for (const [type, tier] of Object.entries(value.types)) checkTier(c, tier, key(key(at, "types"), type));
+  }
+  if (value.size !== undefined) {
+    if (!Array.isArray(value.size)) {
+      c.fail(key(at, "size"), `expected a list of { lines, tier }, got ${describeValue(value.size)}`);
+    } else {
+      value.size.forEach((entry: unknown, i) => {
+        const entryAt = `${key(at, "size")}[${i}]`;
+        if (!c.object(entry, entryAt)) return;
+        c.known(entry, entryAt, ["lines", "tier"]);
+        if (!(Number.isInteger(entry.lines) && (entry.lines as number) >= 0)) {
+          c.fail(key(entryAt, "lines"), `expected a number of lines, got ${describeValue(entry.lines)}`);
+        }
+        checkTier(c, entry.tier, key(entryAt, "tier"));
+      });
+    }
+  }
+  if (value.aliases !== undefined) c.listMap(value.aliases, key(at, "aliases"));
+  if (value.styles !== undefined) c.styles(value.styles, key(at, "styles"));
+  if (value.placeholders !== undefined && c.strings(value.placeholders, key(at, "placeholders"))) {
+    value.placeholders.forEach((p, i) => c.regex(p, `${key(at, "placeholders")}[${i}]`));
+  }
+}
+
+/** Check a whole muselet config; every problem is reported with its path. */
+export function validateMuseletConfig(data: unknown): ConfigIssue[] {
+  const c = new Checker();
+  if (!c.object(data, "")) return c.issues;
+  c.known(data, "", ["$schema", "types", "aliases", "styles", "rules"]);
+  if (data.types === undefined) c.fail("types", "missing: list the sections for each commit type");
+  else c.issues.push(...validateRuleValue(data.types, "types"));
+  if (data.aliases !== undefined) c.listMap(data.aliases, "aliases");
+  if (data.styles !== undefined) c.styles(data.styles, "styles");
+  if (data.rules !== undefined && c.object(data.rules, "rules")) {
+    for (const [name, setting] of Object.entries(data.rules)) checkRule(c, name, setting, key("rules", name));
+  }
+  return c.issues;
+}
+
+/** Parse and validate a config file's contents; throws `MuseletConfigError`. */
+export function parseMuseletConfig(file: string, source: string): MuseletConfig {
+  let data: unknown;
+  try {
+    // YAML also covers an extensionless .museletrc holding JSON.
+    data = file.endsWith(".json") ? JSON.parse(source) : yaml.load(source);
+  } catch (err) {
+    throw new MuseletConfigError(file, [{ path: "(root)", message: (err as Error).message.split("\n")[0] }]);
+  }
+  return checked(file, data);
+}
+
+function checked(file: string, data: unknown): MuseletConfig {
+  const issues = validateMuseletConfig(data);
+  if (issues.length > 0) throw new MuseletConfigError(file, issues);
+  return data as MuseletConfig;
+}
+
+/** The first muselet config file in `cwd`, if any. */
+export function findMuseletConfig(cwd: string = process.cwd()): string | null {
+  for (const file of MUSELET_CONFIG_FILES) {
+    if (existsSync(path.join(cwd, file))) return path.join(cwd, file);
+  }
+  return null;
+}
+
+export interface LoadedMuseletConfig {
+  /** Absolute path of the file it came from. */
+  file: string;
+  config: MuseletConfig;
+}
+
+/**
+ * Load and validate the muselet config in `cwd`, or the given `file`.
+ * Resolves to null when there is none; throws `MuseletConfigError` when it
+ * doesn't parse or validate.
+ */
+export async function loadMuseletConfig(
+  cwd: string = process.cwd(),
+  file?: string,
+): Promise<LoadedMuseletConfig | null> {
+  const abs = file ? path.resolve(cwd, file) : findMuseletConfig(cwd);
+  if (!abs) return null;
+  if (/\.[cm]?js$/.test(abs)) {
+    const mod = (await import(pathToFileURL(abs).href)) as { default?: unknown };
+    return { file: abs, config: checked(abs, mod.default) };
+  }
+  return { file: abs, config: parseMuseletConfig(abs, readFileSync(abs, "utf-8")) };
+}
+
+const LEVELS: Record<string, 0 | 1 | 2> = { off: 0, warn: 1, error: 2 };
+
+/** A type's config with the shared aliases added and the shared styles as its default. */
+function withShared(config: SectionConfig | string[], { aliases, styles }: Pick<MuseletConfig, "aliases" | "styles">): SectionConfig {
+  const section: SectionConfig = Array.isArray(config) ? { required: config } : { ...config };
+  if (aliases) {
+    const merged = { ...aliases };
+    for (const [name, list] of Object.entries(section.aliases ?? {})) merged[name] = [...(merged[name] ?? []), ...list];
+    section.aliases = merged;
+  }
+  if (styles && !section.styles) section.styles = styles;
+  return section;
+}
+
+/**
+ * The commitlint `rules` for a muselet config: each configured rule with
+ * its severity, fed `types` or the shared aliases and styles as its value.
+ *
+ * ```js
+ * // commitlint.config.mjs
+ * const muselet = await loadMuseletConfig();
+ * if (!muselet) throw new Error("muselet config not found");
+ * export default { plugins: ["@muselet/commitlint-plugin"], rules: commitlintRules(muselet.config) };
+ * ```
+ */
+export function commitlintRules(config: MuseletConfig): Record<string, [0 | 1 | 2, "always" | "never", unknown?]> {
+  const { aliases, styles } = config;
+  const types: RuleValue = aliases || styles
+    ? Object.fromEntries(Object.entries(config.types).map(([type, value]) => [type, withShared(value, config)]))
+    : config.types;
+
+  return Object.fromEntries(
+    Object.entries(config.rules ?? DEFAULT_RULE_SEVERITIES).map(([name, setting]) => {
+      const [severity, when = "always", value] = Array.isArray(setting) ? setting : [setting];
+      const level = typeof severity === "number" ? severity : LEVELS[severity as string];
+      if (TYPE_RULES.includes(name as RuleName)) return [name, [level, when, types]];
+      const shared: { aliases?: Record<string, string[]>; styles?: SectionStyle[] } = {};
+      if (aliases && ALIAS_RULES.includes(name as RuleName)) shared.aliases = aliases;
+      if (styles && STYLE_RULES.includes(name as RuleName)) shared.styles = styles;
+      if ((shared.aliases || shared.styles) && name === "context-by-path") {
+        return [name, [level, when, { paths: value ?? {}, ...shared }]];
+      }
+      if (shared.aliases || shared.styles) {
+        const own = (value ?? {}) as typeof shared;
+        const merged = { ...shared, ...own };
+        if (shared.aliases && own.aliases) merged.aliases = { ...shared.aliases, ...own.aliases };
+        return [name, [level, when, merged]];
+      }
+      return [name, value === undefined ? [level, when] : [level, when, value]];
+    }),
+  );
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { fixMessage, fixOptions, HEADER } from "./fix.js";
+import { contextByType, contextRecommended } from "./rules/context-by-type.js";
+import { contextSectionContent } from "./rules/context-section-content.js";
+import { contextSectionFormat } from "./rules/context-section-format.js";
+
+const GIT_COMMENTS = [
+  "# Please enter the commit message for your changes. Lines starting",
+  "# with '#' will be ignored, and an empty message aborts the commit.",
+  "#",
+  "# On branch main",
+  "",
+].join("\n");
+
+/** The outcome of the section rules for a message, with the default config. */
+function lint(message: string): boolean[] {
+  const [header, ...body] = message.split("\n");
+  const parsed = { type: HEADER.exec(header)?.[1] ?? null, header, body: body.join("\n") };
+  return [contextByType, contextRecommended, contextSectionContent, contextSectionFormat].map((rule) => rule(parsed)[0]);
+}
+
+describe("fixMessage", () => {
+  it("rewrites labels, bold and other heading levels as ### headings", () => {
+    expect(fixMessage("fix: stale cache\n\nWhy:\nusers saw old data\n\n**Cause**\nno eviction\n\n## Approach\nevict on write\n"))
+      .toBe("fix: stale cache\n\n### Why\nusers saw old data\n\n### Cause\nno eviction\n\n### Approach\nevict on write\n");
+  });
+
+  it("uses canonical names for aliases and other spellings", () => {
+    expect(fixMessage("feat: x\n\n### motivation\nm\n\n### Trade-offs\nt\n", { aliases: { Why: ["Motivation"] } }))
+      .toBe("feat: x\n\n### Why\nm\n\n### Tradeoffs\nt\n");
+  });
+
+  it("reads the type's own aliases and styles", () => {
+    const types = { fix: { required: ["Why"], aliases: { Why: ["Reason"] }, styles: ["heading" as const] } };
+    expect(fixMessage("fix: x\n\n### Reason\nr\n\nCause:\nnot a section here\n", { types }))
+      .toBe("fix: x\n\n### Why\nr\n\nCause:\nnot a section here\n");
+  });
+
+  it("puts sections in order, keeping unknown ones after their neighbour", () => {
+    expect(fixMessage("fix: x\n\nIntro.\n\n### Approach\na\n\n### Notes\nn\n\n### Why\nw\n"))
+      .toBe("fix: x\n\nIntro.\n\n### Why\nw\n\n### Approach\na\n\n### Notes\nn\n");
+    expect(fixMessage("fix: x\n\n### Why\nw\n\n### Approach\na\n", { order: ["Approach", "Why"] }))
+      .toBe("fix: x\n\n### Approach\na\n\n### Why\nw\n");
+  });
+
+  it("strips empty sections", () => {
+    expect(fixMessage("fix: x\n\n### Why\nw\n\n### Cause\n\n### Approach\n   \n")).toBe("fix: x\n\n### Why\nw\n");
+  });
+
+  it("keeps headings it doesn't know as written, and sections heading them", () => {
+    expect(fixMessage("fix: x\n\n## Summary\n## Why\nw\n\n#### Details\nd\n"))
+      .toBe("fix: x\n\n## Summary\n\n### Why\nw\n\n#### Details\nd\n");
+    expect(fixMessage("fix: x\n\nWhy:\n#### Details\nd\n")).toBe("fix: x\n\n### Why\n\n#### Details\nd\n");
+  });
+
+  it("keeps a passing message passing", () => {
+    const message = [
+      "fix: stale cache",
+      "",
+      "Why:",
+      "Users reported:",
+      "- crash on save",
+      "",
+      "## Details",
+      "**Cause**",
+      "no eviction on write",
+      "",
+      "## Approach",
+      "evict on write",
+      "",
+      "Refs: #12",
+      "",
+    ].join("\n");
+    expect(lint(message)).toEqual([true, true, true, true]);
+    const fixed = fixMessage(message);
+    expect(fixed).toContain("### Why\nUsers reported:\n- crash on save\n\n## Details\n\n### Cause\nno eviction on write");
+    expect(lint(fixed)).toEqual([true, true, true, true]);
+  });
+
+  it("moves Refs and Breaking sections into the trailer block", () => {
+    const message = [
+      "feat!: drop v1",
+      "",
+      "### Breaking",
+      "The v1 endpoints are gone.",
+      "Clients must call v2.",
+      "",
+      "### Why",
+      "w",
+      "",
+      "References:",
+      "- #12",
+      "- ACME-3, #12",
+      "",
+      "Refs: #9",
+      "Signed-off-by: A <a@example.com>",
+      "",
+    ].join("\n");
+    expect(fixMessage(message)).toBe([
+      "feat!: drop v1",
+      "",
+      "### Why",
+      "w",
+      "",
+      "Breaking: The v1 endpoints are gone.",
+      " Clients must call v2.",
+      "Refs: #9, #12, ACME-3",
+      "Signed-off-by: A <a@example.com>",
+      "",
+    ].join("\n"));
+  });
+
+  it("writes headings in the chosen style", () => {
+    expect(fixMessage("fix: x\n\n### Why\nw\n", { style: { style: "label" } })).toBe("fix: x\n\nWhy:\nw\n");
+    expect(fixMessage("fix: x\n\nWhy:\nw\n", { style: { level: 2 } })).toBe("fix: x\n\n## Why\nw\n");
+  });
+
+  it("leaves git's comments and everything below the scissors alone", () => {
+    expect(fixMessage(`fix: x\n\nWhy:\nw\n\n${GIT_COMMENTS}`)).toBe(`fix: x\n\n### Why\nw\n\n${GIT_COMMENTS}`);
+    const verbose = "# ------------------------ >8 ------------------------\n# Do not modify or remove the line above.\ndiff --git a/x b/x\n";
+    expect(fixMessage(`fix: x\n\nWhy:\nw\n\n${verbose}`)).toBe(`fix: x\n\n### Why\nw\n\n${verbose}`);
+  });
+
+  it("is idempotent", () => {
+    const once = fixMessage("fix: x\n\n**Approach**\na\n\nWhy:\nw\n\nRefs:\n#1\n");
+    expect(fixMessage(once)).toBe(once);
+  });
+
+  it("leaves merges, reverts, autosquash and empty messages unchanged", () => {
+    for (const message of ["Merge branch 'main'\n\nWhy:\nw\n", 'Revert "fix: x"\n', "fixup! fix: x\n", `\n${GIT_COMMENTS}`]) {
+      expect(fixMessage(message)).toBe(message);
+    }
+  });
+});
+
+describe("fixOptions", () => {
+  it("takes the order and style rules' values", () => {
+    expect(fixOptions({
+      types: { fix: ["Why"] },
+      aliases: { Why: ["Motivation"] },
+      styles: ["heading", "label"],
+      rules: {
+        "context-section-order": [1, "always", { order: ["Why", "Approach"], aliases: { Why: ["Reason"] } }],
+        "context-section-style": [1, "always", { style: "label" }],
+      },
+    })).toEqual({
+      types: { fix: ["Why"] },
+      aliases: { Why: ["Motivation", "Reason"] },
+      styles: ["heading", "label"],
+      order: ["Why", "Approach"],
+      style: { style: "label" },
+    });
+  });
+});
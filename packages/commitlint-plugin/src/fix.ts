@@ -0,0 +1,192 @@
+import type { MuseletConfig, RuleName } from "./config.js";
+import { parseContext, type SectionStyle } from "./parser.js";
+import {
+  mergeAliases,
+  resolveSections,
+  sameSection,
+  type RuleValue,
+} from "./rules/context-by-type.js";
+import type { SectionOrderValue } from "./rules/context-section-order.js";
+import { formatHeading, type SectionStyleValue } from "./rules/context-section-style.js";
+import { DEFAULT_SECTION_ORDER, SECTION_VOCABULARY, sectionNames } from "./vocabulary.js";
+
+export interface FixOptions {
+  /** Sections per type, for the type's aliases and section names. */
+  types?: RuleValue;
+  /** Extra spellings per section, for every type. */
+  aliases?: Record<string, string[]>;
+  /** Section styles to read; all of them by default. */
+  styles?: SectionStyle[];
+  /** How headings are written. Defaults to `### Name`. */
+  style?: SectionStyleValue;
+  /** Section order. Sections not listed keep their place after the one before them. */
+  order?: string[];
+  /** git's `core.commentChar`, to leave the comments below the message alone. Defaults to "#". */
+  commentChar?: string;
+}
+
+/** A conventional-commit header, capturing the type and scope. */
+export const HEADER = /^(\w+)(?:\(([^)]*)\))?!?:/;
+/** Messages git writes for merges, reverts and autosquash, left as they are. */
+export const GENERATED = /^(Merge |Revert "|fixup! |squash! |amend! )/;
+const SCISSORS = "------------------------ >8 ------------------------";
+
+interface FixedSection {
+  name: string;
+  content: string;
+  rank: number;
+  /** The heading as written, for sections with a name no config knows; those keep it. */
+  heading?: string;
+}
+
+/**
+ * Split off what git adds below the message: everything from the scissors
+ * line, and the closing run of comment lines (recognised by git's bare
+ * comment-char line, so a `# Why` heading isn't mistaken for one).
+ */
+export function splitComments(lines: string[], char: string): { text: string[]; comments: string[] } {
+  let end = lines.indexOf(`${char} ${SCISSORS}`);
+  if (end === -1) end = lines.length;
+
+  let start = end;
+  const isComment = (line: string) => line === char || line.startsWith(`${char} `) || line.startsWith(`${char}\t`);
+  while (start > 0 && (lines[start - 1].trim() === "" || isComment(lines[start - 1]))) start--;
+  const block = lines.slice(start, end);
+  if (end === lines.length && !block.includes(char)) start = end;
+
+  while (start < end && lines[start].trim() === "") start++;
+  return { text: lines.slice(0, start), comments: lines.slice(start) };
+}
+
+/** References in a Refs section: one per line or comma-separated, bullets dropped. */
+function splitRefs(content: string): string[] {
+  return content
+    .split(/\n|,/)
+    .map((ref) => ref.replace(/^\s*[-*]\s+/, "").trim())
+    .filter(Boolean);
+}
+
+/** A trailer whose text may span lines, folded the way git does. */
+function foldTrailer(key: string, text: string): string {
+  const [first, ...rest] = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  return [`${key}: ${first}`, ...rest.map((line) => ` ${line}`)].join("\n");
+}
+
+/**
+ * Reorder by rank, keeping sections the order doesn't know right after
+ * the section they followed (or first, when they led).
+ */
+function reorder(sections: FixedSection[]): FixedSection[] {
+  const runs: FixedSection[][] = [];
+  for (const section of sections) {
+    if (section.rank >= 0 || runs.length === 0) runs.push([section]);
+    else runs[runs.length - 1].push(section);
+  }
+  return runs.sort((a, b) => a[0].rank - b[0].rank).flat();
+}
+
+/**
+ * Rewrite a commit message into the canonical section format: every
+ * known section under a heading in one style (`### Name` by default) with
+ * its canonical name, in order, empty sections dropped, and Refs and
+ * Breaking sections moved into the trailer block as `Refs:` and
+ * `Breaking:` trailers. Headings with other names stay as written. Merge,
+ * revert and autosquash messages come back unchanged, as does git's
+ * comment block below the message.
+ */
+export function fixMessage(message: string, options: FixOptions = {}): string {
+  const { commentChar = "#", order = [...DEFAULT_SECTION_ORDER] } = options;
+  const { style = "heading", level = 3 } = options.style ?? {};
+  const { text, comments } = splitComments(message.split(/\r?\n/), commentChar);
+
+  while (text.length > 0 && text[0].trim() === "") text.shift();
+  const [header = "", ...body] = text;
+  if (!header.trim() || GENERATED.test(header)) return message;
+
+  const m = HEADER.exec(header);
+  const resolved = m && options.types ? resolveSections(options.types, m[1], m[2]) : null;
+  const aliases = mergeAliases(options.aliases);
+  for (const [key, list] of Object.entries(resolved?.config.aliases ?? {})) {
+    aliases[key] = [...(aliases[key] ?? []), ...list];
+  }
+  const known = [
+    ...order,
+    ...(resolved?.config.required ?? []),
+    ...(resolved?.config.recommended ?? []),
+    ...SECTION_VOCABULARY,
+    ...Object.keys(aliases),
+  ];
+
+  const context = parseContext(body.join("\n"), {
+    styles: resolved?.config.styles ?? options.styles,
+    names: sectionNames(aliases, known),
+  });
+  const sections: FixedSection[] = [];
+  const refs: string[] = [];
+  const breaking: string[] = [];
+  context.sections.forEach((section, i) => {
+    const name = known.find((k) => sameSection(k, section.name, aliases));
+    if (!name) {
+      sections.push({ name: section.name, content: section.content, rank: -1, heading: section.heading.trim() });
+      return;
+    }
+    // An empty section goes, unless it heads the unknown sections below it.
+    const next = context.sections[i + 1];
+    const parent = next !== undefined && !known.some((k) => sameSection(k, next.name, aliases));
+    if (!section.content && !parent) return;
+    if (sameSection("Refs", name, aliases)) refs.push(...splitRefs(section.content));
+    else if (sameSection("Breaking", name, aliases)) breaking.push(section.content);
+    else sections.push({ name, content: section.content, rank: order.findIndex((o) => sameSection(o, name, aliases)) });
+  });
+
+  // Trailers are kept as written, but one Refs: and one Breaking: trailer
+  // collect every reference and breaking note.
+  const others: string[] = [];
+  context.trailers.forEach((trailer, i) => {
+    if (/^refs$/i.test(trailer.key)) return;
+    if (/^breaking$/i.test(trailer.key)) {
+      breaking.unshift(trailer.value);
+      return;
+    }
+    const next = context.trailers[i + 1]?.line ?? body.length + 1;
+    others.push(body.slice(trailer.line - 1, next - 1).join("\n").trimEnd());
+  });
+  const trailers = [
+    ...(breaking.length > 0 ? [foldTrailer("Breaking", breaking.join("\n"))] : []),
+    ...(refs.length > 0 || context.refs.length > 0 ? [`Refs: ${[...new Set([...context.refs, ...refs])].join(", ")}`] : []),
+    ...others,
+  ];
+
+  const blocks = [header.trimEnd()];
+  if (context.preamble) blocks.push(context.preamble);
+  for (const section of reorder(sections)) {
+    const heading = section.heading ?? formatHeading(section.name, style, level);
+    blocks.push(section.content ? `${heading}\n${section.content}` : heading);
+  }
+  if (trailers.length > 0) blocks.push(trailers.join("\n"));
+
+  const fixed = `${blocks.join("\n\n")}\n`;
+  return comments.length > 0 ? `${fixed}\n${comments.join("\n")}` : fixed;
+}
+
+function ruleValue<T>(config: MuseletConfig, name: RuleName): T | undefined {
+  const setting = config.rules?.[name];
+  return Array.isArray(setting) ? (setting[2] as T | undefined) : undefined;
+}
+
+/** The fix options a muselet config implies: its types, aliases and styles, and its order and style rules. */
+export function fixOptions(config: MuseletConfig): FixOptions {
+  const order = ruleValue<SectionOrderValue>(config, "context-section-order");
+  const aliases = { ...config.aliases };
+  for (const [key, list] of Object.entries(order?.aliases ?? {})) {
+    aliases[key] = [...(aliases[key] ?? []), ...list];
+  }
+  const style = ruleValue<SectionStyleValue>(config, "context-section-style");
+  return {
+    types: config.types,
+    aliases,
+    ...(config.styles ? { styles: config.styles } : {}),
+    ...(order?.order ? { order: order.order } : {}),
+    ...(style ? { style } : {}),
+  };
+}
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { changedFiles, changedLines } from "./git.js";
+
+let dir: string;
+
+const git = (...args: string[]) =>
+  execFileSync("git", args, { cwd: dir, encoding: "utf-8" }).trim();
+
+const write = (file: string, content = "x\n") => {
+  mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  writeFileSync(path.join(dir, file), content);
+};
+
+describe("changedFiles", () => {
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "muselet-git-"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "test");
+    write("README.md");
+    git("add", "-A");
+    git("commit", "-qm", "chore: init");
+    write("migrations/001.sql");
+    git("add", "-A");
+    git("commit", "-qm", "feat: add migration");
+    write("src/core/a.ts");
+    git("add", "-A");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lists staged files", () => {
+    expect(changedFiles({ staged: true }, dir)).toEqual(["src/core/a.ts"]);
+  });
+
+  it("lists files of a single commit", () => {
+    expect(changedFiles({ commit: "HEAD" }, dir)).toEqual(["migrations/001.sql"]);
+  });
+
+  it("lists files of the root commit", () => {
+    expect(changedFiles({ commit: "HEAD~1" }, dir)).toEqual(["README.md"]);
+  });
+
+  it("lists files across a range", () => {
+    expect(changedFiles({ from: "HEAD~1", to: "HEAD" }, dir)).toEqual([
+      "migrations/001.sql",
+    ]);
+  });
+
+  it("returns an empty list outside a repository", () => {
+    expect(changedFiles({ staged: true }, tmpdir())).toEqual([]);
+  });
+
+  it("counts changed lines", () => {
+    expect(changedLines({ staged: true }, dir)).toBe(1);
+    expect(changedLines({ from: "HEAD~1" }, dir)).toBe(1);
+    expect(changedLines({ staged: true }, tmpdir())).toBe(0);
+  });
+});
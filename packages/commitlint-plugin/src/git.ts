@@ -0,0 +1,54 @@
+import { execFileSync } from "node:child_process";
+
+export type ChangedFilesSource =
+  | { staged: true }
+  | { commit: string }
+  | { from: string; to?: string };
+
+function gitLines(args: string[], cwd: string): string[] {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    })
+      .split("\n")
+      .map((l) => l.trim())
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/** `git diff` (or `diff-tree`) arguments for a source, with `output` picking what's printed. */
+function diffArgs(source: ChangedFilesSource, output: string): string[] {
+  if ("staged" in source) return ["diff", "--cached", output];
+  if ("commit" in source) return ["diff-tree", "--no-commit-id", output, "-r", "--root", source.commit];
+  return ["diff", output, `${source.from}...${source.to ?? "HEAD"}`];
+}
+
+/**
+ * List the files changed by the staged index, a single commit, or a commit
+ * range (`from...to`, defaulting `to` to HEAD). Returns an empty list
+ * outside a git repository.
+ */
+export function changedFiles(
+  source: ChangedFilesSource = { staged: true },
+  cwd: string = process.cwd(),
+): string[] {
+  return gitLines(diffArgs(source, "--name-only"), cwd);
+}
+
+/**
+ * Count the lines added plus removed by the same sources as
+ * `changedFiles`. Binary files don't count; 0 outside a git repository.
+ */
+export function changedLines(
+  source: ChangedFilesSource = { staged: true },
+  cwd: string = process.cwd(),
+): number {
+  return gitLines(diffArgs(source, "--numstat"), cwd).reduce((sum, line) => {
+    const [added, removed] = line.split("\t");
+    return sum + (Number(added) || 0) + (Number(removed) || 0);
+  }, 0);
+}
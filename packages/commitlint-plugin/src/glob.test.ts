@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { matchesGlob } from "./glob.js";
+
+describe("matchesGlob", () => {
+  it.each([
+    ["api", "api", true],
+    ["api", "ap", false],
+    ["db-migrations", "db*", true],
+    ["api/users", "api/*", true],
+    ["api/users/admin", "api/*", false],
+    ["api/users/admin", "api/**", true],
+    ["migrations/001.sql", "migrations/**", true],
+    ["src/migrations/001.sql", "**/migrations/**", true],
+    ["migrations/001.sql", "**/migrations/**", true],
+    ["src/core/index.ts", "src/core/**/*.ts", true],
+    ["src/core/a/b.ts", "src/core/**/*.ts", true],
+    ["src/core/a/b.js", "src/core/**/*.ts", false],
+    ["ui", "{ui,web}", true],
+    ["web", "{ui,web}", true],
+    ["cli", "{ui,web}", false],
+    ["v1", "v?", true],
+    ["a.b", "a.b", true],
+    ["axb", "a.b", false],
+    ["perf (x)", "perf (x)", true],
+  ])("%s against %s → %s", (value, glob, expected) => {
+    expect(matchesGlob(value, glob)).toBe(expected);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Compile a glob into an anchored RegExp. Supports `**` (any characters,
+ * including `/`), `*` (anything but `/`), `?` and `{a,b}` alternation.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` also matches zero directories
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i++;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "{") {
+      braces++;
+      source += "(?:";
+    } else if (c === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (c === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += c.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(value: string, glob: string): boolean {
+  return globToRegExp(glob).test(value);
+}
@@ -2,12 +2,106 @@ import {
   contextByType,
   contextRecommended,
   DEFAULT_VALUE,
+  missingSections,
 } from "./rules/context-by-type.js";
+import { contextByPath } from "./rules/context-by-path.js";
+import { contextBreaking } from "./rules/context-breaking.js";
+import { contextSectionFormat } from "./rules/context-section-format.js";
+import { contextKnownSections } from "./rules/context-known-sections.js";
+import { contextSectionOrder } from "./rules/context-section-order.js";
+import { contextSectionStyle } from "./rules/context-section-style.js";
+import { contextMinTier } from "./rules/context-min-tier.js";
+import { contextSectionContent } from "./rules/context-section-content.js";
+import { DEFAULT_PLACEHOLDERS } from "./validators.js";
+import { DEFAULT_ALIASES } from "./vocabulary.js";
 
 export const rules = {
   "context-by-type": contextByType,
   "context-recommended": contextRecommended,
+  "context-section-content": contextSectionContent,
+  "context-by-path": contextByPath,
+  "context-breaking": contextBreaking,
+  "context-section-format": contextSectionFormat,
+  "context-known-sections": contextKnownSections,
+  "context-section-order": contextSectionOrder,
+  "context-section-style": contextSectionStyle,
+  "context-min-tier": contextMinTier,
 };
 
-export { DEFAULT_VALUE };
-export type { RuleValue, SectionConfig } from "./rules/context-by-type.js";
+export { DEFAULT_VALUE, DEFAULT_ALIASES, DEFAULT_PLACEHOLDERS };
+export { missingSections };
+export {
+  commitlintRules,
+  DEFAULT_RULE_SEVERITIES,
+  findMuseletConfig,
+  loadMuseletConfig,
+  MUSELET_CONFIG_FILES,
+  MuseletConfigError,
+  parseMuseletConfig,
+  RULE_NAMES,
+  validateMuseletConfig,
+  validateRuleValue,
+} from "./config.js";
+export { fixMessage, fixOptions } from "./fix.js";
+export { parseContext, SECTION_STYLES } from "./parser.js";
+export { scaffoldMessage } from "./scaffold.js";
+export { editorStyle, formatHeading } from "./rules/context-section-style.js";
+export { checkPaths, requiredForPaths } from "./rules/context-by-path.js";
+export { changedFiles, changedLines } from "./git.js";
+export {
+  inferTier,
+  missingForTier,
+  TIER_SECTIONS,
+  TIERS,
+} from "./rules/context-by-type.js";
+export { minimumTier } from "./rules/context-min-tier.js";
+export { isBreaking } from "./rules/context-breaking.js";
+export {
+  BUILTIN_VALIDATORS,
+  DEFAULT_REFS_PATTERN,
+  DEFAULT_VALIDATORS,
+} from "./validators.js";
+export {
+  DEFAULT_SECTION_ORDER,
+  SECTION_VOCABULARY,
+  sectionNames,
+  suggestSection,
+} from "./vocabulary.js";
+export type { FixOptions } from "./fix.js";
+export type { ScaffoldOptions } from "./scaffold.js";
+export type { PathRuleValue, PathSections } from "./rules/context-by-path.js";
+export type { BreakingRuleValue } from "./rules/context-breaking.js";
+export type { KnownSectionsValue } from "./rules/context-known-sections.js";
+export type { SectionOrderValue } from "./rules/context-section-order.js";
+export type { SectionStyleValue } from "./rules/context-section-style.js";
+export type { MinTierValue, TierMinimum } from "./rules/context-min-tier.js";
+export type {
+  BuiltinValidator,
+  SectionValidator,
+  ValidatorContext,
+} from "./validators.js";
+export type { ChangedFilesSource } from "./git.js";
+export type {
+  ConfigIssue,
+  LoadedMuseletConfig,
+  MuseletConfig,
+  RuleName,
+  RuleSetting,
+  Severity,
+} from "./config.js";
+export type {
+  ContextSection,
+  ParseOptions,
+  ParsedContext,
+  SectionStyle,
+  Trailer,
+} from "./parser.js";
+export type {
+  Commit,
+  MissingSections,
+  RuleValue,
+  SectionConfig,
+  SectionLength,
+  Tier,
+  TierOptions,
+} from "./rules/context-by-type.js";
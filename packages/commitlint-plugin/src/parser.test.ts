@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import { parseContext } from "./parser.js";
+
+describe("parseContext", () => {
+  it("returns an empty result for a missing body", () => {
+    expect(parseContext(null)).toEqual({
+      preamble: "",
+      sections: [],
+      trailers: [],
+      refs: [],
+      breaking: null,
+    });
+  });
+
+  it("splits sections in order with content and line ranges", () => {
+    const { sections } = parseContext(
+      "### Why\nreasons\nmore reasons\n\n### Approach\ndetails\n",
+    );
+    expect(sections).toEqual([
+      {
+        name: "Why",
+        heading: "### Why",
+        style: "heading",
+        level: 3,
+        content: "reasons\nmore reasons",
+        startLine: 1,
+        endLine: 3,
+      },
+      {
+        name: "Approach",
+        heading: "### Approach",
+        style: "heading",
+        level: 3,
+        content: "details",
+        startLine: 5,
+        endLine: 6,
+      },
+    ]);
+  });
+
+  it("keeps free-form text before the first section as preamble", () => {
+    const parsed = parseContext("Some intro\nspanning lines\n\n### Why\nr");
+    expect(parsed.preamble).toBe("Some intro\nspanning lines");
+    expect(parsed.sections[0].startLine).toBe(4);
+  });
+
+  it("treats a body without headings as preamble", () => {
+    const parsed = parseContext("just a body");
+    expect(parsed.preamble).toBe("just a body");
+    expect(parsed.sections).toEqual([]);
+  });
+
+  it("reports empty sections with an empty content string", () => {
+    const { sections } = parseContext("### Why\n\n### Approach\na");
+    expect(sections[0].content).toBe("");
+    expect(sections[0].endLine).toBe(1);
+  });
+
+  it("preserves the raw heading and trims the name", () => {
+    const { sections } = parseContext("###   Why   \nr");
+    expect(sections[0].name).toBe("Why");
+    expect(sections[0].heading).toBe("###   Why   ");
+  });
+
+  it("ignores headings that are not at the start of a line", () => {
+    expect(parseContext("Here's ### Why\nr").sections).toEqual([]);
+  });
+
+  it("reads headings at any level", () => {
+    const { sections } = parseContext("## Why\nr\n#### How\nh");
+    expect(sections.map((s) => [s.name, s.level])).toEqual([["Why", 2], ["How", 4]]);
+  });
+
+  it("reads label lines and bold labels", () => {
+    const { sections } = parseContext(
+      "Why:\nreasons\n\n**Approach**\ndetails\n\n**Trade-offs:**\nsome\n\nRefs: #12",
+    );
+    expect(sections.map(({ name, style, content }) => ({ name, style, content }))).toEqual([
+      { name: "Why", style: "label", content: "reasons" },
+      { name: "Approach", style: "bold", content: "details" },
+      { name: "Trade-offs", style: "bold", content: "some" },
+    ]);
+  });
+
+  it("doesn't take prose or trailers for labels", () => {
+    const parsed = parseContext("we did the following things here:\n- a\nWhy: inline\n\nRefs: #1");
+    expect(parsed.sections).toEqual([]);
+    expect(parsed.refs).toEqual(["#1"]);
+  });
+
+  it("only takes labels and bold lines with a known name for headings", () => {
+    const { sections } = parseContext("### Why\nUsers reported:\n- crash on save\n\n**Note**\nkept");
+    expect(sections).toHaveLength(1);
+    expect(sections[0]).toMatchObject({ name: "Why", content: "Users reported:\n- crash on save\n\n**Note**\nkept" });
+
+    const custom = parseContext("Rollout:\nbehind a flag\n\nUsers reported:\nslowness", { names: ["Rollout"] });
+    expect(custom.sections.map(({ name, content }) => ({ name, content }))).toEqual([
+      { name: "Rollout", content: "behind a flag\n\nUsers reported:\nslowness" },
+    ]);
+  });
+
+  it("only recognises the allowed styles", () => {
+    const body = "Why:\nr\n\n**Cause**\nc\n\n### Approach\na";
+    expect(parseContext(body, { styles: ["heading"] }).sections.map((s) => s.name)).toEqual(["Approach"]);
+    expect(parseContext(body, { styles: ["label", "bold"] }).sections.map((s) => s.name)).toEqual(["Why", "Cause"]);
+  });
+
+  it("ignores headings inside fenced code blocks", () => {
+    const { sections } = parseContext(
+      "### Approach\n```\n### Not a section\n```\nafter",
+    );
+    expect(sections).toHaveLength(1);
+    expect(sections[0].content).toBe("```\n### Not a section\n```\nafter");
+  });
+
+  describe("trailers", () => {
+    it("separates the closing trailer block from the last section", () => {
+      const parsed = parseContext(
+        "### Why\nreasons\n\nBreaking: None.\nRefs: #89, RFC-0003",
+      );
+      expect(parsed.sections[0].content).toBe("reasons");
+      expect(parsed.trailers).toEqual([
+        { key: "Breaking", value: "None.", line: 4 },
+        { key: "Refs", value: "#89, RFC-0003", line: 5 },
+      ]);
+      expect(parsed.refs).toEqual(["#89", "RFC-0003"]);
+      expect(parsed.breaking).toBe("None.");
+    });
+
+    it("collects refs across multiple Refs trailers", () => {
+      const { refs } = parseContext("### Why\nr\n\nRefs: #1\nRefs: #2, #3");
+      expect(refs).toEqual(["#1", "#2", "#3"]);
+    });
+
+    it("recognises BREAKING CHANGE footers", () => {
+      const { breaking } = parseContext(
+        "### Why\nr\n\nBREAKING CHANGE: drops Node 18",
+      );
+      expect(breaking).toBe("drops Node 18");
+    });
+
+    it("folds continuation lines into the previous trailer", () => {
+      const { trailers } = parseContext(
+        "### Why\nr\n\nBreaking: config keys renamed\n  and defaults changed",
+      );
+      expect(trailers[0].value).toBe("config keys renamed and defaults changed");
+    });
+
+    it("does not treat a paragraph with prose as a trailer block", () => {
+      const parsed = parseContext("### Why\nr\n\nRefs: #1\nplus some prose");
+      expect(parsed.trailers).toEqual([]);
+      expect(parsed.sections[0].content).toBe("r\n\nRefs: #1\nplus some prose");
+    });
+
+    it("does not treat trailer-like lines mid-body as trailers", () => {
+      const parsed = parseContext("Refs: #1\n\n### Why\nr");
+      expect(parsed.trailers).toEqual([]);
+      expect(parsed.preamble).toBe("Refs: #1");
+    });
+  });
+});
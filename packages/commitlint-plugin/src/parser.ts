@@ -0,0 +1,200 @@
+import { sectionNames } from "./vocabulary.js";
+
+/**
+ * How a section is introduced: a markdown heading (`### Why`, any level),
+ * a label line (`Why:`), or a bold label (`**Why**`).
+ */
+export type SectionStyle = "heading" | "label" | "bold";
+
+export const SECTION_STYLES: readonly SectionStyle[] = ["heading", "label", "bold"];
+
+export interface ContextSection {
+  /** Section name as written in the heading, e.g. "Why". */
+  name: string;
+  /** The raw heading line, e.g. "### Why". */
+  heading: string;
+  style: SectionStyle;
+  /** Number of `#`s, for the heading style. */
+  level?: number;
+  /** Section text without the heading, trimmed of surrounding blank lines. */
+  content: string;
+  /** 1-based line number of the heading within the body. */
+  startLine: number;
+  /** 1-based line number of the last non-blank line of the section. */
+  endLine: number;
+}
+
+export interface Trailer {
+  /** Trailer token as written, e.g. "Refs" or "BREAKING CHANGE". */
+  key: string;
+  value: string;
+  /** 1-based line number within the body. */
+  line: number;
+}
+
+export interface ParsedContext {
+  /** Free-form text before the first section. */
+  preamble: string;
+  sections: ContextSection[];
+  /** Every trailer in the closing trailer block, in order. */
+  trailers: Trailer[];
+  /** References collected from `Refs:` trailers, split on commas. */
+  refs: string[];
+  /** Text of the `Breaking:` / `BREAKING CHANGE:` trailer, if any. */
+  breaking: string | null;
+}
+
+export interface ParseOptions {
+  /** Section styles to recognise; lines in other styles are plain text. Defaults to all. */
+  styles?: readonly SectionStyle[];
+  /**
+   * Names a label or bold line needs to start a section (any case), so that
+   * prose ending in a colon stays prose. Markdown headings start one
+   * whatever their name. Defaults to the vocabulary and the default aliases.
+   */
+  names?: readonly string[];
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*$/;
+/** A capitalised name of up to three words, alone on its line: `Why:`, `Trade-offs:`. */
+const LABEL = /^([A-Z][\w-]*(?: [\w-]+){0,2}):\s*$/;
+const BOLD = /^\*\*([^*]+?)\*\*:?\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TRAILER = /^(BREAKING[ -]CHANGE|[A-Za-z][A-Za-z0-9-]*):\s+(.*\S)\s*$/;
+const CONTINUATION = /^\s+\S/;
+
+function canonical(name: string): string {
+  return name.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/** The section a line introduces, if it's a heading in one of `styles`. */
+function matchHeading(
+  line: string,
+  styles: readonly SectionStyle[],
+  names: ReadonlySet<string>,
+): Pick<ContextSection, "name" | "style" | "level"> | null {
+  let m: RegExpExecArray | null;
+  if (styles.includes("heading") && (m = HEADING.exec(line))) {
+    return { name: m[2], style: "heading", level: m[1].length };
+  }
+  if (styles.includes("label") && (m = LABEL.exec(line)) && names.has(canonical(m[1]))) {
+    return { name: m[1], style: "label" };
+  }
+  if (styles.includes("bold") && (m = BOLD.exec(line))) {
+    const name = m[1].replace(/:$/, "").trim();
+    if (names.has(canonical(name))) return { name, style: "bold" };
+  }
+  return null;
+}
+
+function isBreakingKey(key: string): boolean {
+  return /^(breaking|breaking[ -]change)$/i.test(key);
+}
+
+/**
+ * Find where the trailer block starts: the last paragraph of the body,
+ * provided every line in it is a `Key: value` trailer (or a folded
+ * continuation of one). Returns `lines.length` when there is no block.
+ */
+function trailerBlockStart(lines: string[], headingLines: Set<number>): number {
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === "") end--;
+  if (end === 0) return lines.length;
+
+  let start = end;
+  while (start > 0 && lines[start - 1].trim() !== "") start--;
+
+  for (let i = start; i < end; i++) {
+    if (headingLines.has(i)) return lines.length;
+    if (TRAILER.test(lines[i])) continue;
+    if (i > start && CONTINUATION.test(lines[i])) continue;
+    return lines.length;
+  }
+  return start;
+}
+
+function trimBlank(lines: string[]): { text: string; offset: number; count: number } {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === "") start++;
+  while (end > start && lines[end - 1].trim() === "") end--;
+  return {
+    text: lines.slice(start, end).join("\n"),
+    offset: start,
+    count: end - start,
+  };
+}
+
+function parseTrailers(lines: string[], from: number): Trailer[] {
+  const trailers: Trailer[] = [];
+  for (let i = from; i < lines.length; i++) {
+    const match = TRAILER.exec(lines[i]);
+    if (match) {
+      trailers.push({ key: match[1], value: match[2], line: i + 1 });
+    } else if (CONTINUATION.test(lines[i]) && trailers.length > 0) {
+      trailers[trailers.length - 1].value += ` ${lines[i].trim()}`;
+    }
+  }
+  return trailers;
+}
+
+/**
+ * Parse a commit body into its context sections.
+ *
+ * Sections start at a heading (`### Name` at any level, a `Name:` label
+ * line, or a `**Name**` bold label, as `options.styles` allows) and run
+ * until the next heading, the trailer block, or the end of the body.
+ * Labels and bold lines only count with one of `options.names`. Headings
+ * inside fenced code blocks are ignored.
+ */
+export function parseContext(
+  body: string | null | undefined,
+  { styles = SECTION_STYLES, names = sectionNames() }: ParseOptions = {},
+): ParsedContext {
+  const lines = body ? body.split(/\r?\n/) : [];
+  const known = new Set(names.map(canonical));
+
+  const found = new Map<number, Pick<ContextSection, "name" | "style" | "level">>();
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    const heading = inFence ? null : matchHeading(lines[i], styles, known);
+    if (heading) found.set(i, heading);
+  }
+
+  const headingLines = new Set(found.keys());
+  const trailerStart = trailerBlockStart(lines, headingLines);
+  const headings = [...headingLines].sort((a, b) => a - b);
+
+  const sections: ContextSection[] = headings.map((line, idx) => {
+    const next = idx + 1 < headings.length ? headings[idx + 1] : trailerStart;
+    const { text, offset, count } = trimBlank(lines.slice(line + 1, next));
+    return {
+      ...found.get(line)!,
+      heading: lines[line],
+      content: text,
+      startLine: line + 1,
+      endLine: count > 0 ? line + 1 + offset + count : line + 1,
+    };
+  });
+
+  const preambleEnd = headings.length > 0 ? headings[0] : trailerStart;
+  const trailers = parseTrailers(lines, trailerStart);
+
+  const refs = trailers
+    .filter((t) => /^refs$/i.test(t.key))
+    .flatMap((t) => t.value.split(",").map((r) => r.trim()))
+    .filter(Boolean);
+  const breaking = trailers.find((t) => isBreakingKey(t.key))?.value ?? null;
+
+  return {
+    preamble: trimBlank(lines.slice(0, preambleEnd)).text,
+    sections,
+    trailers,
+    refs,
+    breaking,
+  };
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import { contextBreaking, isBreaking } from "./context-breaking.js";
+import type { Commit } from "./context-by-type.js";
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  type: "feat",
+  header: "feat: add thing",
+  body: null,
+  ...overrides,
+});
+
+const breakingNote = [{ title: "BREAKING CHANGE", text: "drop v1" }];
+
+describe("isBreaking", () => {
+  it("detects the ! marker in the header", () => {
+    expect(isBreaking(commit({ header: "feat(api)!: drop v1" }))).toBe(true);
+  });
+
+  it("detects BREAKING CHANGE notes from commitlint's parser", () => {
+    expect(isBreaking(commit({ notes: breakingNote }))).toBe(true);
+  });
+
+  it("detects a BREAKING CHANGE footer", () => {
+    expect(
+      isBreaking(commit({ body: "### Why\nr", footer: "BREAKING CHANGE: gone" })),
+    ).toBe(true);
+  });
+
+  it("is false for ordinary commits", () => {
+    expect(isBreaking(commit({ body: "### Why\nr" }))).toBe(false);
+  });
+});
+
+describe("context-breaking", () => {
+  it("requires Breaking and Migration for breaking commits", () => {
+    const [valid, msg] = contextBreaking(
+      commit({ header: "feat!: drop v1", body: "### Why\nr" }),
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe("breaking feat commits should include: Breaking, Migration");
+  });
+
+  it("applies whatever the type", () => {
+    const [valid, msg] = contextBreaking(
+      commit({ type: "chore", header: "chore!: drop node 18", notes: breakingNote }),
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe("breaking chore commits should include: Breaking, Migration");
+  });
+
+  it("accepts Breaking and Migration sections", () => {
+    const [valid, msg] = contextBreaking(
+      commit({
+        header: "feat!: drop v1",
+        body: "### Why\nr\n### Breaking\nv1 is gone\n### Migration\nuse v2",
+      }),
+    );
+    expect(valid).toBe(true);
+    expect(msg).toBe("");
+  });
+
+  it("accepts a BREAKING CHANGE footer in place of the Breaking section", () => {
+    const [valid] = contextBreaking(
+      commit({
+        body: "### Why\nr\n### Migration\nuse v2",
+        footer: "BREAKING CHANGE: v1 is gone",
+        notes: breakingNote,
+      }),
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("accepts a Breaking: trailer in place of the Breaking section", () => {
+    const [valid] = contextBreaking(
+      commit({
+        header: "feat!: drop v1",
+        body: "### Migration\nuse v2",
+        footer: "Breaking: v1 is gone",
+      }),
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("passes non-breaking commits", () => {
+    const [valid, msg] = contextBreaking(commit({ body: "### Why\nr" }));
+    expect(valid).toBe(true);
+    expect(msg).toBe("");
+  });
+
+  it("uses the configured sections", () => {
+    const [valid, msg] = contextBreaking(
+      commit({ header: "feat!: drop v1", body: "### Breaking\nx" }),
+      "always",
+      { required: ["Breaking", "Migration", "Refs"] },
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe("breaking feat commits should include: Migration, Refs");
+  });
+
+  it("recognises configured aliases", () => {
+    const [valid] = contextBreaking(
+      commit({ header: "feat!: drop v1", body: "### Incompatibilities\nx\n### Upgrading\ny" }),
+      "always",
+      { aliases: { Breaking: ["Incompatibilities"], Migration: ["Upgrading"] } },
+    );
+    expect(valid).toBe(true);
+  });
+
+  describe("contradictions", () => {
+    it("flags a Breaking: trailer on a header that isn't marked breaking", () => {
+      const [valid, msg] = contextBreaking(
+        commit({ body: "### Why\nr", footer: "Breaking: config keys renamed" }),
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe(
+        "feat commit has a Breaking: trailer but the header isn't marked breaking (use feat!:)",
+      );
+    });
+
+    it("allows Breaking: None on a non-breaking commit", () => {
+      const [valid] = contextBreaking(
+        commit({ body: "### Why\nr", footer: "Breaking: None.\nRefs: #89" }),
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("flags Breaking: None on a breaking commit", () => {
+      const [valid, msg] = contextBreaking(
+        commit({
+          header: "feat!: drop v1",
+          body: "### Migration\nm",
+          footer: "Breaking: None",
+        }),
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe('breaking feat commit says "Breaking: None"');
+    });
+
+    it("respects when = 'never'", () => {
+      const footer = "Breaking: config keys renamed";
+      expect(contextBreaking(commit({ body: "### Why\nr", footer }), "never")).toEqual([true, ""]);
+      expect(
+        contextBreaking(commit({ header: "feat!: drop v1", body: "### Why\nr", footer: "Breaking: None" }), "never"),
+      ).toEqual([true, ""]);
+    });
+  });
+
+  describe("when = 'never'", () => {
+    it("fails when breaking sections are present", () => {
+      const [valid, msg] = contextBreaking(
+        commit({
+          header: "feat!: drop v1",
+          body: "### Breaking\nx\n### Migration\nm",
+        }),
+        "never",
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("breaking feat commits should NOT include: Breaking, Migration");
+    });
+  });
+
+  describe("exemptions", () => {
+    it("skips merge commits", () => {
+      const [valid] = contextBreaking(commit({ merge: true, header: "feat!: x" }));
+      expect(valid).toBe(true);
+    });
+
+    it("skips revert commits", () => {
+      const [valid] = contextBreaking(
+        commit({ revert: { header: "feat!: x" }, header: "feat!: x" }),
+      );
+      expect(valid).toBe(true);
+    });
+  });
+});
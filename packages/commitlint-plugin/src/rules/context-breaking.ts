@@ -0,0 +1,76 @@
+import type { SectionStyle } from "../parser.js";
+import { sectionNames } from "../vocabulary.js";
+import {
+  findSection,
+  mergeAliases,
+  parseCommit,
+  type Commit,
+} from "./context-by-type.js";
+
+export interface BreakingRuleValue {
+  /** Sections a breaking commit must have. A `Breaking:` or `BREAKING CHANGE:` trailer satisfies "Breaking". */
+  required?: string[];
+  /** Extra spellings per section, on top of the defaults. */
+  aliases?: Record<string, string[]>;
+  /** Section styles that count; all of them by default. */
+  styles?: SectionStyle[];
+}
+
+const BANG_HEADER = /^\w+(?:\([^)]*\))?!:/;
+const BREAKING_NOTE = /^BREAKING[ -]CHANGE$/i;
+const NONE = /^(none|no|n\/a|-)\.?$/i;
+
+/** Whether the header or a BREAKING CHANGE footer marks the commit as breaking. */
+export function isBreaking(parsed: Commit): boolean {
+  if (parsed.header && BANG_HEADER.test(parsed.header)) return true;
+  if (parsed.notes?.some((n) => BREAKING_NOTE.test(n.title))) return true;
+  return parseCommit(parsed).trailers.some((t) => BREAKING_NOTE.test(t.key));
+}
+
+export const contextBreaking = (
+  parsed: Commit,
+  when: "always" | "never" = "always",
+  value: BreakingRuleValue = {},
+): [boolean, string] => {
+  if (parsed.merge || parsed.revert != null) return [true, ""];
+
+  const { type } = parsed;
+  if (!type) return [true, ""];
+
+  const { required = ["Breaking", "Migration"], styles } = value;
+  const aliases = mergeAliases(value.aliases);
+  const context = parseCommit(parsed, styles, sectionNames(aliases, required));
+  const breaking = isBreaking(parsed);
+
+  const trailer = context.trailers.find((t) => /^breaking$/i.test(t.key));
+  if (trailer) {
+    const saysNone = NONE.test(trailer.value.trim());
+    let contradiction = "";
+    if (!breaking && !saysNone) {
+      contradiction = `${type} commit has a Breaking: trailer but the header isn't marked breaking (use ${type}!:)`;
+    } else if (breaking && saysNone) {
+      contradiction = `breaking ${type} commit says "Breaking: ${trailer.value}"`;
+    }
+    // Under "never" a contradiction is what the rule asks for, so it passes.
+    if (contradiction) return when === "never" ? [true, ""] : [false, contradiction];
+  }
+
+  if (!breaking) return [true, ""];
+
+  const missing = required.filter((name) => {
+    if (/^breaking$/i.test(name) && context.breaking) return false;
+    return !findSection(context.sections, name, aliases);
+  });
+
+  const hasContext = missing.length === 0;
+  const result = when === "never" ? !hasContext : hasContext;
+
+  let message = "";
+  if (when === "never" && hasContext) {
+    message = `breaking ${type} commits should NOT include: ${required.join(", ")}`;
+  } else if (when === "always" && !hasContext) {
+    message = `breaking ${type} commits should include: ${missing.join(", ")}`;
+  }
+
+  return [result, message];
+};
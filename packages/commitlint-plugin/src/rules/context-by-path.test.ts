@@ -0,0 +1,120 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { changedFiles } from "../git.js";
+import { checkPaths, contextByPath, type PathRuleValue } from "./context-by-path.js";
+import type { Commit } from "./context-by-type.js";
+
+vi.mock("../git.js", () => ({ changedFiles: vi.fn(() => []) }));
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  type: "fix",
+  body: null,
+  ...overrides,
+});
+
+const paths: PathRuleValue = {
+  "migrations/**": ["Migration"],
+  "src/core/**": ["Invariants"],
+};
+
+describe("context-by-path", () => {
+  afterEach(() => {
+    delete process.env.MUSELET_CHANGED_FILES;
+    delete process.env.MUSELET_COMMIT;
+    vi.mocked(changedFiles).mockClear();
+  });
+
+  it("requires sections for matching paths", () => {
+    const [valid, msg] = contextByPath(
+      commit({ body: "### Why\nr", files: ["migrations/001_users.sql"] }),
+      "always",
+      paths,
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe("fix commits should include: Migration");
+  });
+
+  it("applies regardless of type", () => {
+    const [valid, msg] = contextByPath(
+      commit({ type: "chore", files: ["src/core/a.ts", "migrations/x.sql"] }),
+      "always",
+      paths,
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe("chore commits should include: Migration, Invariants");
+  });
+
+  it("passes when the sections are present", () => {
+    const [valid] = contextByPath(
+      commit({
+        body: "### Migration\nrun it\n### Invariants\nkept",
+        files: ["src/core/a.ts", "migrations/x.sql"],
+      }),
+      "always",
+      paths,
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("passes when no path matches", () => {
+    const [valid, msg] = contextByPath(
+      commit({ files: ["README.md"] }),
+      "always",
+      paths,
+    );
+    expect(valid).toBe(true);
+    expect(msg).toBe("");
+  });
+
+  it("reads the file list from MUSELET_CHANGED_FILES", () => {
+    process.env.MUSELET_CHANGED_FILES = "README.md\nmigrations/002.sql\n";
+    const [valid, msg] = contextByPath(commit(), "always", paths);
+    expect(valid).toBe(false);
+    expect(msg).toBe("fix commits should include: Migration");
+  });
+
+  it("reads the files of the commit named by MUSELET_COMMIT", () => {
+    process.env.MUSELET_COMMIT = "abc123";
+    process.env.MUSELET_CHANGED_FILES = "README.md";
+    vi.mocked(changedFiles).mockReturnValueOnce(["migrations/002.sql"]);
+    const [valid, msg] = contextByPath(commit(), "always", paths);
+    expect(changedFiles).toHaveBeenCalledWith({ commit: "abc123" });
+    expect(valid).toBe(false);
+    expect(msg).toBe("fix commits should include: Migration");
+  });
+
+  it("prefers the commit's own hash", () => {
+    process.env.MUSELET_COMMIT = "abc123";
+    contextByPath(commit({ hash: "def456" }), "always", paths);
+    expect(changedFiles).toHaveBeenCalledWith({ commit: "def456" });
+  });
+
+  it("recognises configured aliases", () => {
+    const [valid] = contextByPath(
+      commit({ body: "### Upgrading\nrun it", files: ["migrations/x.sql"] }),
+      "always",
+      { paths, aliases: { Migration: ["Upgrading"] } },
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("passes with an empty config", () => {
+    const [valid] = contextByPath(commit({ files: ["migrations/x.sql"] }));
+    expect(valid).toBe(true);
+  });
+
+  it("fails with when = 'never' if the sections are present", () => {
+    const [valid, msg] = checkPaths(
+      commit({ body: "### Migration\nm" }),
+      ["migrations/x.sql"],
+      "never",
+      paths,
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe("fix commits should NOT include: Migration");
+  });
+
+  it("skips merge commits", () => {
+    const [valid] = checkPaths(commit({ merge: true }), ["migrations/x.sql"], "always", paths);
+    expect(valid).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { changedFiles } from "../git.js";
+import { matchesGlob } from "../glob.js";
+import type { SectionStyle } from "../parser.js";
+import { sectionNames } from "../vocabulary.js";
+import {
+  findSection,
+  mergeAliases,
+  parseCommit,
+  type Commit,
+} from "./context-by-type.js";
+
+/** Sections required when a commit touches files matching a glob. */
+export type PathSections = Record<string, string[]>;
+
+/**
+ * The sections per path glob, or those under `paths` along with the aliases
+ * and section styles to read the message with.
+ */
+export type PathRuleValue =
+  | PathSections
+  | {
+      paths: PathSections;
+      /** Extra spellings per section, on top of the defaults. */
+      aliases?: Record<string, string[]>;
+      /** Section styles that count; all of them by default. */
+      styles?: SectionStyle[];
+    };
+
+type PathOptions = Extract<PathRuleValue, { paths: PathSections }>;
+
+function isWrapped(value: PathRuleValue): value is PathOptions {
+  return typeof value.paths === "object" && value.paths !== null && !Array.isArray(value.paths);
+}
+
+/** The commit being linted, when known: `parsed.hash`, else `MUSELET_COMMIT` (set per commit in CI). */
+export function hashFor(parsed: Commit): string | undefined {
+  if (typeof parsed.hash === "string" && parsed.hash) return parsed.hash;
+  return process.env.MUSELET_COMMIT || undefined;
+}
+
+/**
+ * Files the commit touches: `parsed.files` when the caller attached them,
+ * else the files of the commit itself when its hash is known, else the
+ * newline-separated `MUSELET_CHANGED_FILES` environment variable, else the
+ * staged diff (for the commit-msg hook).
+ */
+function filesFor(parsed: Commit): string[] {
+  if (Array.isArray(parsed.files)) return parsed.files as string[];
+  const hash = hashFor(parsed);
+  if (hash) return changedFiles({ commit: hash });
+  const fromEnv = process.env.MUSELET_CHANGED_FILES;
+  if (fromEnv !== undefined) {
+    return fromEnv.split("\n").map((f) => f.trim()).filter(Boolean);
+  }
+  return changedFiles({ staged: true });
+}
+
+export function requiredForPaths(files: string[], value: PathRuleValue): string[] {
+  const paths = isWrapped(value) ? value.paths : value;
+  const sections = Object.entries(paths)
+    .filter(([glob]) => files.some((f) => matchesGlob(f, glob)))
+    .flatMap(([, required]) => required);
+  return [...new Set(sections)];
+}
+
+/**
+ * Check a commit against path requirements for an explicit file list, e.g.
+ * one commit of a CI range. Messages match `context-by-type`.
+ */
+export function checkPaths(
+  parsed: Commit,
+  files: string[],
+  when: "always" | "never" = "always",
+  value: PathRuleValue = {},
+): [boolean, string] {
+  if (parsed.merge || parsed.revert != null) return [true, ""];
+
+  const { type } = parsed;
+  if (!type) return [true, ""];
+
+  const required = requiredForPaths(files, value);
+  if (required.length === 0) return [true, ""];
+
+  const options: Partial<PathOptions> = isWrapped(value) ? value : {};
+  const aliases = mergeAliases(options.aliases);
+  const { sections } = parseCommit(parsed, options.styles, sectionNames(aliases, required));
+  const missing = required.filter((s) => !findSection(sections, s, aliases));
+
+  const hasContext = missing.length === 0;
+  const result = when === "never" ? !hasContext : hasContext;
+
+  let message = "";
+  if (when === "never" && hasContext) {
+    message = `${type} commits should NOT include: ${required.join(", ")}`;
+  } else if (when === "always" && !hasContext) {
+    message = `${type} commits should include: ${missing.join(", ")}`;
+  }
+
+  return [result, message];
+}
+
+export const contextByPath = (
+  parsed: Commit,
+  when: "always" | "never" = "always",
+  value: PathRuleValue = {},
+): [boolean, string] => {
+  if (Object.keys(isWrapped(value) ? value.paths : value).length === 0) return [true, ""];
+  return checkPaths(parsed, filesFor(parsed), when, value);
+};
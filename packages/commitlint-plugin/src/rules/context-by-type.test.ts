@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest";
 import {
   contextByType,
   contextRecommended,
+  missingSections,
   type Commit,
   type RuleValue,
 } from "./context-by-type.js";
@@ -35,7 +36,7 @@ describe("context-by-type", () => {
   it("fails with correct message when sections missing", () => {
     const [valid, msg] = contextByType(commit({ body: "just a body" }));
     expect(valid).toBe(false);
-    expect(msg).toBe("fix commits should include: Why");
+    expect(msg).toBe("fix commits should include: Why (this one is Tier 0)");
   });
 
   it("fails listing all missing sections", () => {
@@ -43,7 +44,7 @@ describe("context-by-type", () => {
       commit({ type: "refactor", body: "no context here" }),
     );
     expect(valid).toBe(false);
-    expect(msg).toBe("refactor commits should include: Why, Approach");
+    expect(msg).toBe("refactor commits should include: Why, Approach (this one is Tier 0)");
   });
 
   it("skips types not in config", () => {
@@ -60,7 +61,7 @@ describe("context-by-type", () => {
   it("handles missing body", () => {
     const [valid, msg] = contextByType(commit({ body: null }));
     expect(valid).toBe(false);
-    expect(msg).toBe("fix commits should include: Why");
+    expect(msg).toBe("fix commits should include: Why (this one is Tier 0)");
   });
 
   // backward compat: string[] config
@@ -72,7 +73,7 @@ describe("context-by-type", () => {
       custom,
     );
     expect(valid).toBe(false);
-    expect(msg).toBe("docs commits should include: Context");
+    expect(msg).toBe("docs commits should include: Context (this one is Tier 0)");
   });
 
   it("passes string[] config when section present", () => {
@@ -85,6 +86,15 @@ describe("context-by-type", () => {
     expect(valid).toBe(true);
   });
 
+  it("counts Refs: and Breaking: trailers as their sections", () => {
+    const value: RuleValue = { fix: ["Why", "References", "Breaking"] };
+    const body = "### Why\nreasons\n\nBreaking: none\nRefs: #12";
+    expect(contextByType(commit({ body }), "always", value)).toEqual([true, ""]);
+    expect(contextByType(commit({ body: "### Why\nreasons" }), "always", value)[1]).toBe(
+      "fix commits should include: References, Breaking (this one is Tier 1)",
+    );
+  });
+
   // all four default types
   describe("default types", () => {
     it("fix requires Why", () => {
@@ -155,6 +165,200 @@ describe("context-by-type", () => {
       const [valid] = contextByType(commit({ body: "###  Why\nreasons" }));
       expect(valid).toBe(true);
     });
+
+    it("does not match a longer word", () => {
+      const [valid] = contextByType(commit({ body: "### Whyyy\nreasons" }));
+      expect(valid).toBe(false);
+    });
+
+    it("does not match a heading that only starts with the name", () => {
+      const [valid] = contextByType(commit({ body: "### Why not\nreasons" }));
+      expect(valid).toBe(false);
+    });
+
+    it("reads sections commitlint's parser moved into the footer", () => {
+      const [valid] = contextByType(
+        commit({
+          type: "refactor",
+          body: "### Why\nr\nCloses #5",
+          footer: "### Approach\na",
+        }),
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("tolerates a trailing colon", () => {
+      const [valid] = contextByType(commit({ body: "### Why:\nreasons" }));
+      expect(valid).toBe(true);
+    });
+
+    it("reads labels named after configured sections", () => {
+      const custom: RuleValue = { fix: ["Rollout"] };
+      expect(contextByType(commit({ body: "Rollout:\nbehind a flag" }), "always", custom)[0]).toBe(true);
+      expect(contextByType(commit({ body: "Rollout plan:\nbehind a flag" }), "always", custom)[0]).toBe(false);
+    });
+
+    it("treats regex metacharacters in section names literally", () => {
+      const custom: RuleValue = { perf: ["Trade-offs (perf)"] };
+      const [f1] = contextByType(
+        commit({ type: "perf", body: "### Trade-offs (perf)\nt" }),
+        "always",
+        custom,
+      );
+      expect(f1).toBe(true);
+      const [f2] = contextByType(
+        commit({ type: "perf", body: "### Trade-offs Xperf)\nt" }),
+        "always",
+        custom,
+      );
+      expect(f2).toBe(false);
+    });
+  });
+
+  describe("aliases", () => {
+    it.each(["Tradeoffs", "Trade-offs", "Trade-Offs", "trade offs"])(
+      "accepts %j for Tradeoffs",
+      (heading) => {
+        const custom: RuleValue = { perf: ["Tradeoffs"] };
+        const [valid] = contextByType(
+          commit({ type: "perf", body: `### ${heading}\nt` }),
+          "always",
+          custom,
+        );
+        expect(valid).toBe(true);
+      },
+    );
+
+    it("accepts the canonical name when an alias is configured as required", () => {
+      const custom: RuleValue = { perf: ["Trade-offs"] };
+      const [valid] = contextByType(
+        commit({ type: "perf", body: "### Tradeoffs\nt" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("accepts References for Refs", () => {
+      const custom: RuleValue = { feat: ["Refs"] };
+      const [valid] = contextByType(
+        commit({ type: "feat", body: "### References\n#12" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("extends the defaults with configured aliases", () => {
+      const custom: RuleValue = {
+        fix: { required: ["Why"], aliases: { Why: ["Motivation"] } },
+      };
+      const [valid] = contextByType(
+        commit({ body: "### Motivation\nreasons" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("reports the configured name when an aliased section is missing", () => {
+      const custom: RuleValue = {
+        fix: { required: ["Why"], aliases: { Why: ["Motivation"] } },
+      };
+      const [, msg] = contextByType(commit({ body: "nothing" }), "always", custom);
+      expect(msg).toBe("fix commits should include: Why (this one is Tier 0)");
+    });
+  });
+
+  describe("scopes", () => {
+    const scoped: RuleValue = {
+      fix: {
+        required: ["Why"],
+        recommended: ["Cause", "Migration"],
+        scopes: { db: ["Migration"] },
+      },
+      "feat(api)": { required: ["Invariants"] },
+      feat: { required: ["Why"] },
+    };
+
+    it("adds scope requirements from the nested scopes map", () => {
+      const [valid, msg] = contextByType(
+        commit({ scope: "db", body: "### Why\nr" }),
+        "always",
+        scoped,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("fix(db) commits should include: Migration (this one is Tier 1)");
+    });
+
+    it("adds scope requirements from type(scope) keys", () => {
+      const [valid, msg] = contextByType(
+        commit({ type: "feat", scope: "api", body: "no sections" }),
+        "always",
+        scoped,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("feat(api) commits should include: Why, Invariants (this one is Tier 0)");
+    });
+
+    it("uses the type-level config for other scopes", () => {
+      const [valid, msg] = contextByType(
+        commit({ scope: "ui", body: "no sections" }),
+        "always",
+        scoped,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("fix commits should include: Why (this one is Tier 0)");
+    });
+
+    it("matches scope globs", () => {
+      const custom: RuleValue = { "fix(db*)": ["Migration"] };
+      const [f1, msg] = contextByType(
+        commit({ scope: "db-pool", body: "### Why\nr" }),
+        "always",
+        custom,
+      );
+      expect(f1).toBe(false);
+      expect(msg).toBe("fix(db-pool) commits should include: Migration (this one is Tier 1)");
+      const [f2] = contextByType(
+        commit({ scope: "ui", body: "### Why\nr" }),
+        "always",
+        custom,
+      );
+      expect(f2).toBe(true);
+    });
+
+    it("checks each scope in a comma-separated list", () => {
+      const [valid, msg] = contextByType(
+        commit({ scope: "ui, db", body: "### Why\nr" }),
+        "always",
+        scoped,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("fix(ui, db) commits should include: Migration (this one is Tier 1)");
+    });
+
+    it("replaces the type-level config when inherit is false", () => {
+      const custom: RuleValue = {
+        fix: { required: ["Why"], scopes: { deps: { required: [], inherit: false } } },
+      };
+      const [valid] = contextByType(
+        commit({ scope: "deps", body: "bump" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("promotes recommended sections that a scope requires", () => {
+      const [valid, msg] = contextRecommended(
+        commit({ scope: "db", body: "### Why\nr\n### Migration\nm" }),
+        "always",
+        scoped,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("fix(db) commits: consider adding: Cause");
+    });
   });
 
   describe("exemptions", () => {
@@ -232,6 +436,16 @@ describe("context-recommended", () => {
       );
     });
 
+    it("counts Trade-offs as Tradeoffs", () => {
+      const [valid] = contextRecommended(
+        commit({
+          type: "perf",
+          body: "### Why\nr\n### Metrics\nm\n### Approach\na\n### Trade-offs\nt",
+        }),
+      );
+      expect(valid).toBe(true);
+    });
+
     it("perf recommends Approach and Tradeoffs", () => {
       const [, msg] = contextRecommended(
         commit({ type: "perf", body: "### Why\nr\n### Metrics\nm" }),
@@ -276,3 +490,28 @@ describe("context-recommended", () => {
     });
   });
 });
+
+// ---------------------------------------------------------------------------
+// missingSections
+// ---------------------------------------------------------------------------
+describe("missingSections", () => {
+  it("lists missing required and recommended sections", () => {
+    expect(missingSections(commit({ body: "### Cause\nc" }))).toEqual({
+      label: "fix",
+      required: ["Why"],
+      recommended: ["Approach"],
+    });
+  });
+
+  it("includes scope overrides", () => {
+    const custom: RuleValue = { fix: { required: ["Why"], scopes: { db: ["Migration"] } } };
+    expect(
+      missingSections(commit({ scope: "db", body: "### Why\nr" }), custom),
+    ).toEqual({ label: "fix(db)", required: ["Migration"], recommended: [] });
+  });
+
+  it("returns null for unconfigured types and exempt commits", () => {
+    expect(missingSections(commit({ type: "docs" }))).toBeNull();
+    expect(missingSections(commit({ merge: true }))).toBeNull();
+  });
+});
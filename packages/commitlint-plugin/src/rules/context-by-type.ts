@@ -1,18 +1,73 @@
+import { matchesGlob } from "../glob.js";
+import {
+  parseContext,
+  type ContextSection,
+  type ParsedContext,
+  type SectionStyle,
+} from "../parser.js";
+import {
+  DEFAULT_PLACEHOLDERS,
+  problemWith,
+  type BuiltinValidator,
+  type SectionValidator,
+} from "../validators.js";
+import { DEFAULT_ALIASES, sectionNames } from "../vocabulary.js";
+
+export interface CommitNote {
+  title: string;
+  text: string;
+}
+
 export interface Commit {
   type: string | null;
+  scope?: string | null;
+  header?: string | null;
   body: string | null;
+  footer?: string | null;
+  notes?: CommitNote[];
   merge?: boolean | null;
   revert?: Record<string, string> | null;
   [key: string]: unknown;
 }
 
+export interface SectionLength {
+  words?: number;
+  chars?: number;
+}
+
 export interface SectionConfig {
   required?: string[];
   recommended?: string[];
+  /** Regex sources (case-insensitive) for content that doesn't count, e.g. "^todo\\b". */
+  placeholders?: string[];
+  /** Minimum content length per section name. */
+  minLength?: Record<string, SectionLength>;
+  /** Content checks per section name; replaces the built-in defaults for that section. */
+  validators?: Record<string, (BuiltinValidator | SectionValidator)[]>;
+  /** Regex source a single reference must match, for the "refs" validator. */
+  refsPattern?: string;
+  /** Extra spellings that count as the named section, e.g. { Refs: ["References"] }. */
+  aliases?: Record<string, string[]>;
+  /** Overrides for matching scopes, keyed by scope glob (e.g. "db", "api/*"). */
+  scopes?: Record<string, SectionConfig | string[]>;
+  /** On a scope override: add to the type-level config (default) or replace it. */
+  inherit?: boolean;
+  /** Section styles that count (`heading`, `label`, `bold`); all of them by default. */
+  styles?: SectionStyle[];
 }
 
+/**
+ * Sections per conventional-commit type. Keys may also be `type(scope)`
+ * with a scope glob, e.g. `"feat(api)"` or `"fix(db*)"`.
+ */
 export type RuleValue = Record<string, SectionConfig | string[]>;
 
+export interface ResolvedSections {
+  config: SectionConfig;
+  /** `type`, or `type(scope)` when a scope override applied. */
+  label: string;
+}
+
 export const DEFAULT_VALUE: RuleValue = {
   fix: { required: ["Why"], recommended: ["Cause", "Approach"] },
   feat: { required: ["Why"], recommended: ["Approach", "Alternatives"] },
@@ -26,14 +81,240 @@ export const DEFAULT_VALUE: RuleValue = {
   },
 };
 
-function normalize(value: SectionConfig | string[]): SectionConfig {
+/**
+ * Parse the commit's context. commitlint's parser moves trailers (and
+ * anything after them) into `footer`, so body and footer are read together.
+ * `names` are the ones label and bold lines may use; see `parseContext`.
+ */
+export function parseCommit(
+  parsed: Commit,
+  styles?: readonly SectionStyle[],
+  names?: readonly string[],
+): ParsedContext {
+  return parseContext([parsed.body, parsed.footer].filter(Boolean).join("\n\n"), { styles, names });
+}
+
+/** The section names a type's config knows of, on top of the vocabulary and aliases. */
+export function configNames(config: SectionConfig): string[] {
+  return sectionNames(mergeAliases(config.aliases), [
+    ...(config.required ?? []),
+    ...(config.recommended ?? []),
+    ...Object.keys(config.minLength ?? {}),
+    ...Object.keys(config.validators ?? {}),
+  ]);
+}
+
+export function normalize(value: SectionConfig | string[]): SectionConfig {
   return Array.isArray(value) ? { required: value } : value;
 }
 
-function findMissing(body: string | null, sections: string[]): string[] {
-  return sections.filter(
-    (s) => !body || !new RegExp(`^###\\s+${s}`, "mi").test(body),
-  );
+function canonical(name: string): string {
+  return name.replace(/:$/, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Every spelling that counts as `name`: the name itself plus any alias group
+ * it belongs to, whether it's listed as the key or as one of the aliases.
+ */
+function spellings(name: string, aliases: Record<string, string[]>): Set<string> {
+  const wanted = canonical(name);
+  const result = new Set([wanted]);
+  for (const [key, list] of Object.entries(aliases)) {
+    const group = [key, ...list].map(canonical);
+    if (group.includes(wanted)) group.forEach((g) => result.add(g));
+  }
+  return result;
+}
+
+function concatAliases(
+  a: Record<string, string[]> = {},
+  b: Record<string, string[]> = {},
+): Record<string, string[]> {
+  const merged: Record<string, string[]> = { ...a };
+  for (const [key, list] of Object.entries(b)) {
+    merged[key] = [...(merged[key] ?? []), ...list];
+  }
+  return merged;
+}
+
+export function mergeAliases(
+  aliases: Record<string, string[]> = {},
+): Record<string, string[]> {
+  return concatAliases(DEFAULT_ALIASES, aliases);
+}
+
+/** A `type(scope-glob)` key, capturing the type and the glob. */
+export const SCOPED_KEY = /^([^()]+)\((.+)\)$/;
+
+function union(a: string[] = [], b: string[] = []): string[] {
+  return [...new Set([...a, ...b])];
+}
+
+function mergeConfig(base: SectionConfig, extra: SectionConfig): SectionConfig {
+  if (extra.inherit === false) return extra;
+  const required = union(base.required, extra.required);
+  return {
+    ...base,
+    ...extra,
+    required,
+    recommended: union(base.recommended, extra.recommended).filter(
+      (s) => !required.includes(s),
+    ),
+    minLength: { ...base.minLength, ...extra.minLength },
+    validators: { ...base.validators, ...extra.validators },
+    aliases: concatAliases(base.aliases, extra.aliases),
+  };
+}
+
+/**
+ * Work out which sections apply to a commit. Scope overrides, from the
+ * type's `scopes` map and then from `type(scope)` keys, are merged onto the
+ * type-level config in that order. Returns null when nothing applies.
+ */
+export function resolveSections(
+  value: RuleValue,
+  type: string,
+  scope?: string | null,
+): ResolvedSections | null {
+  const scopes = (scope ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+  const matches = (glob: string) => scopes.some((s) => matchesGlob(s, glob));
+
+  const base = Object.hasOwn(value, type) ? normalize(value[type]) : null;
+  const overrides: SectionConfig[] = [];
+
+  for (const [glob, config] of Object.entries(base?.scopes ?? {})) {
+    if (matches(glob)) overrides.push(normalize(config));
+  }
+  for (const [key, config] of Object.entries(value)) {
+    const m = SCOPED_KEY.exec(key);
+    if (m && m[1] === type && matches(m[2])) overrides.push(normalize(config));
+  }
+
+  if (!base && overrides.length === 0) return null;
+
+  return {
+    config: overrides.reduce(mergeConfig, base ?? {}),
+    label: overrides.length > 0 ? `${type}(${scope})` : type,
+  };
+}
+
+export function findSection(
+  sections: ContextSection[],
+  name: string,
+  aliases: Record<string, string[]> = DEFAULT_ALIASES,
+): ContextSection | undefined {
+  const names = spellings(name, aliases);
+  return sections.find((s) => names.has(canonical(s.name)));
+}
+
+/** Whether two section names are the same section, allowing for aliases. */
+export function sameSection(
+  a: string,
+  b: string,
+  aliases: Record<string, string[]> = DEFAULT_ALIASES,
+): boolean {
+  return spellings(a, aliases).has(canonical(b));
+}
+
+/** Whether a `Refs:` or `Breaking:` trailer stands in for the section `name`. */
+function inTrailers(context: ParsedContext, name: string, aliases: Record<string, string[]>): boolean {
+  if (sameSection("Refs", name, aliases)) return context.refs.length > 0;
+  if (sameSection("Breaking", name, aliases)) return context.breaking !== null;
+  return false;
+}
+
+function findMissing(parsed: Commit, sections: string[], config: SectionConfig): string[] {
+  const aliases = mergeAliases(config.aliases);
+  const context = parseCommit(parsed, config.styles, configNames(config));
+  return sections.filter((s) => !findSection(context.sections, s, aliases) && !inTrailers(context, s, aliases));
+}
+
+export interface MissingSections {
+  /** `type`, or `type(scope)` when a scope override applied. */
+  label: string;
+  required: string[];
+  recommended: string[];
+}
+
+/**
+ * The configured sections a commit lacks, or null when the commit is exempt
+ * or its type isn't configured.
+ */
+export function missingSections(
+  parsed: Commit,
+  value: RuleValue = DEFAULT_VALUE,
+): MissingSections | null {
+  if (parsed.merge || parsed.revert != null || !parsed.type) return null;
+  const resolved = resolveSections(value, parsed.type, parsed.scope);
+  if (!resolved) return null;
+
+  const { required = [], recommended = [] } = resolved.config;
+  return {
+    label: resolved.label,
+    required: findMissing(parsed, required, resolved.config),
+    recommended: findMissing(parsed, recommended, resolved.config),
+  };
+}
+
+/** How much of the reasoning behind a commit its message captures; see docs/context-sections.md. */
+export type Tier = 0 | 1 | 2 | 3;
+
+export const TIERS: readonly Tier[] = [0, 1, 2, 3];
+
+/**
+ * What each tier adds to the one below it: any one of the listed sections,
+ * filled in. Tier 0 is the subject alone.
+ */
+const TIER_STEPS: readonly string[][] = [[], ["Why"], ["Approach"], ["Alternatives", "Tradeoffs"]];
+
+/** What a tier takes, for messages, e.g. "Why + Approach". */
+export const TIER_SECTIONS: Record<Tier, string> = {
+  0: "subject only",
+  1: "Why",
+  2: "Why + Approach",
+  3: "Why + Approach + Alternatives or Tradeoffs",
+};
+
+export interface TierOptions {
+  /** Extra spellings per section, on top of the defaults. */
+  aliases?: Record<string, string[]>;
+  /** Section styles that count; all of them by default. */
+  styles?: SectionStyle[];
+  /** Regex sources (case-insensitive) for content that doesn't count. Defaults to the built-in ones. */
+  placeholders?: string[];
+}
+
+/** For each tier step after the first, whether the commit has it filled in. */
+function stepsMet(parsed: Commit, options: TierOptions): string[][] {
+  const names = mergeAliases(options.aliases);
+  const patterns = (options.placeholders ?? DEFAULT_PLACEHOLDERS).map((p) => new RegExp(p, "i"));
+  const { sections } = parseCommit(parsed, options.styles, sectionNames(names));
+  const filled = (name: string) => {
+    const section = findSection(sections, name, names);
+    return section !== undefined && problemWith(section.content, patterns, undefined) === null;
+  };
+  // The sections each step still lacks: empty when the step is met.
+  return TIER_STEPS.map((step) => (step.length === 0 || step.some(filled) ? [] : step));
+}
+
+/**
+ * The tier a commit's message reaches, from which sections are present
+ * and filled in: Why for Tier 1, then Approach for Tier 2, then
+ * Alternatives or Tradeoffs for Tier 3. A tier counts only when the ones
+ * below it do.
+ */
+export function inferTier(parsed: Commit, options: TierOptions = {}): Tier {
+  const steps = stepsMet(parsed, options);
+  const unmet = steps.findIndex((missing) => missing.length > 0);
+  return (unmet === -1 ? 3 : unmet - 1) as Tier;
+}
+
+/** What a commit lacks to reach `tier`, e.g. ["Approach", "Alternatives or Tradeoffs"]. */
+export function missingForTier(parsed: Commit, tier: Tier, options: TierOptions = {}): string[] {
+  return stepsMet(parsed, options)
+    .slice(0, tier + 1)
+    .filter((missing) => missing.length > 0)
+    .map((missing) => missing.join(" or "));
 }
 
 export const contextByType = (
@@ -43,20 +324,22 @@ export const contextByType = (
 ): [boolean, string] => {
   if (parsed.merge || parsed.revert != null) return [true, ""];
 
-  const { type, body } = parsed;
-  if (!type || !(type in value)) return [true, ""];
+  const { type, scope } = parsed;
+  if (!type) return [true, ""];
+  const resolved = resolveSections(value, type, scope);
+  if (!resolved) return [true, ""];
 
-  const { required = [] } = normalize(value[type]);
-  const missing = findMissing(body, required);
+  const { required = [] } = resolved.config;
+  const missing = findMissing(parsed, required, resolved.config);
 
   const hasContext = missing.length === 0;
   const result = when === "never" ? !hasContext : hasContext;
 
   let message = "";
   if (when === "never" && hasContext) {
-    message = `${type} commits should NOT include: ${required.join(", ")}`;
+    message = `${resolved.label} commits should NOT include: ${required.join(", ")}`;
   } else if (when === "always" && !hasContext) {
-    message = `${type} commits should include: ${missing.join(", ")}`;
+    message = `${resolved.label} commits should include: ${missing.join(", ")} (this one is Tier ${inferTier(parsed, resolved.config)})`;
   }
 
   return [result, message];
@@ -69,22 +352,24 @@ export const contextRecommended = (
 ): [boolean, string] => {
   if (parsed.merge || parsed.revert != null) return [true, ""];
 
-  const { type, body } = parsed;
-  if (!type || !(type in value)) return [true, ""];
+  const { type, scope } = parsed;
+  if (!type) return [true, ""];
+  const resolved = resolveSections(value, type, scope);
+  if (!resolved) return [true, ""];
 
-  const { recommended = [] } = normalize(value[type]);
+  const { recommended = [] } = resolved.config;
   if (recommended.length === 0) return [true, ""];
 
-  const missing = findMissing(body, recommended);
+  const missing = findMissing(parsed, recommended, resolved.config);
 
   const hasContext = missing.length === 0;
   const result = when === "never" ? !hasContext : hasContext;
 
   let message = "";
   if (when === "never" && hasContext) {
-    message = `${type} commits: consider NOT including: ${recommended.join(", ")}`;
+    message = `${resolved.label} commits: consider NOT including: ${recommended.join(", ")}`;
   } else if (when === "always" && !hasContext) {
-    message = `${type} commits: consider adding: ${missing.join(", ")}`;
+    message = `${resolved.label} commits: consider adding: ${missing.join(", ")}`;
   }
 
   return [result, message];
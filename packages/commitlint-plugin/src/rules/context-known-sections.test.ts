@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { contextKnownSections } from "./context-known-sections.js";
+import type { Commit } from "./context-by-type.js";
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  type: "fix",
+  body: null,
+  ...overrides,
+});
+
+describe("context-known-sections", () => {
+  it("passes when every section is in the vocabulary", () => {
+    const [valid, msg] = contextKnownSections(
+      commit({ body: "### Why\nr\n### Cause\nc\n### Trade-offs\nt" }),
+    );
+    expect(valid).toBe(true);
+    expect(msg).toBe("");
+  });
+
+  it("flags sections outside the vocabulary", () => {
+    const [valid, msg] = contextKnownSections(
+      commit({ body: "### Why\nr\n### Reasoning\nx" }),
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe("commit has unknown sections: Reasoning");
+  });
+
+  it("suggests the closest known section", () => {
+    const [, msg] = contextKnownSections(
+      commit({ body: "### Tradeofs\nt\n### Aproach\na" }),
+    );
+    expect(msg).toBe(
+      "commit has unknown sections: Tradeofs (did you mean Tradeoffs?), Aproach (did you mean Approach?)",
+    );
+  });
+
+  it("suggests the canonical name for a misspelled alias", () => {
+    const [, msg] = contextKnownSections(commit({ body: "### Referencs\nx" }));
+    expect(msg).toBe("commit has unknown sections: Referencs (did you mean Refs?)");
+  });
+
+  it("accepts extra sections from config", () => {
+    const [valid] = contextKnownSections(
+      commit({ body: "### Compliance\nSOX" }),
+      "always",
+      { extra: ["Compliance"] },
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("accepts configured aliases", () => {
+    const [valid] = contextKnownSections(
+      commit({ body: "### Motivation\nm" }),
+      "always",
+      { aliases: { Why: ["Motivation"] } },
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("passes a body without sections", () => {
+    const [valid] = contextKnownSections(commit({ body: "plain prose" }));
+    expect(valid).toBe(true);
+  });
+
+  describe("when = 'never'", () => {
+    it("fails when vocabulary sections are used", () => {
+      const [valid, msg] = contextKnownSections(
+        commit({ body: "### Why\nr\n### Notes\nn" }),
+        "never",
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("commit should NOT use sections: Why");
+    });
+
+    it("passes with only custom sections", () => {
+      const [valid] = contextKnownSections(commit({ body: "### Notes\nn" }), "never");
+      expect(valid).toBe(true);
+    });
+  });
+
+  it("skips merge commits", () => {
+    const [valid] = contextKnownSections(commit({ merge: true, body: "### Nope\nx" }));
+    expect(valid).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { SECTION_VOCABULARY, sectionNames, suggestSection } from "../vocabulary.js";
+import type { SectionStyle } from "../parser.js";
+import {
+  mergeAliases,
+  parseCommit,
+  sameSection,
+  type Commit,
+} from "./context-by-type.js";
+
+export interface KnownSectionsValue {
+  /** Team-specific sections to accept on top of the vocabulary. */
+  extra?: string[];
+  aliases?: Record<string, string[]>;
+  /** Section styles that count; all of them by default. */
+  styles?: SectionStyle[];
+}
+
+export const contextKnownSections = (
+  parsed: Commit,
+  when: "always" | "never" = "always",
+  value: KnownSectionsValue = {},
+): [boolean, string] => {
+  if (parsed.merge || parsed.revert != null) return [true, ""];
+
+  const known = [...SECTION_VOCABULARY, ...(value.extra ?? [])];
+  const aliases = mergeAliases(value.aliases);
+  const { sections } = parseCommit(parsed, value.styles, sectionNames(aliases, value.extra));
+
+  const isKnown = (name: string) => known.some((k) => sameSection(k, name, aliases));
+  const unknown = sections.filter((s) => !isKnown(s.name)).map((s) => s.name);
+  const used = sections.filter((s) => isKnown(s.name)).map((s) => s.name);
+
+  if (when === "never") {
+    return used.length === 0
+      ? [true, ""]
+      : [false, `commit should NOT use sections: ${used.join(", ")}`];
+  }
+
+  if (unknown.length === 0) return [true, ""];
+
+  const spellings = [...known, ...Object.values(aliases).flat()];
+  const described = unknown.map((name) => {
+    const match = suggestSection(name, spellings);
+    const canonical = match && known.find((k) => sameSection(k, match, aliases));
+    return canonical ? `${name} (did you mean ${canonical}?)` : name;
+  });
+  return [false, `commit has unknown sections: ${described.join(", ")}`];
+};
@@ -0,0 +1,118 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { readFileSync } from "node:fs";
+import { changedLines } from "../git.js";
+import { contextMinTier, minimumTier } from "./context-min-tier.js";
+import { inferTier, missingForTier, type Commit } from "./context-by-type.js";
+
+vi.mock("../git.js", () => ({ changedLines: vi.fn(() => 0) }));
+
+const commit = (body: string | null, overrides: Partial<Commit> = {}): Commit => ({
+  type: "fix",
+  body,
+  ...overrides,
+});
+
+const TIER_2 = "### Why\nusers saw stale data\n\n### Approach\nevict on write";
+const TIER_3 = `${TIER_2}\n\n### Tradeoffs\none more query per write`;
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.mocked(changedLines).mockClear();
+});
+
+describe("inferTier", () => {
+  it("climbs from Why to Approach to Alternatives or Tradeoffs", () => {
+    expect(inferTier(commit(null))).toBe(0);
+    expect(inferTier(commit("### Why\nstale data"))).toBe(1);
+    expect(inferTier(commit(TIER_2))).toBe(2);
+    expect(inferTier(commit(TIER_3))).toBe(3);
+    expect(inferTier(commit(`${TIER_2}\n\nAlternatives:\nTTLs, too coarse`))).toBe(3);
+  });
+
+  it("only counts filled-in sections, and a tier only on top of the ones below", () => {
+    expect(inferTier(commit("### Why\nTODO\n\n### Approach\nevict on write"))).toBe(0);
+    expect(inferTier(commit("### Why\nstale\n\n### Tradeoffs\nslower writes"))).toBe(1);
+  });
+
+  it("reads aliases and placeholders from the options", () => {
+    expect(inferTier(commit("### Motivation\nstale"), { aliases: { Why: ["Motivation"] } })).toBe(1);
+    expect(inferTier(commit("### Why\nsee ticket"), { placeholders: ["^see ticket$"] })).toBe(0);
+  });
+
+  it("rates every example in docs/context-sections.md at its labelled tier", () => {
+    const doc = readFileSync(new URL("../../../../docs/context-sections.md", import.meta.url), "utf-8");
+    const examples = [...doc.matchAll(/^#### (.+\(Tier (\d)\))\n\n```\n(.*)\n([^]*?)```$/gm)];
+    expect(examples.length).toBeGreaterThan(20);
+    const rated = examples.map(([, title, , header, body]) => [title, inferTier(commit(body, { type: header.split(/[(!:]/)[0] }))]);
+    expect(rated).toEqual(examples.map(([, title, tier]) => [title, Number(tier)]));
+  });
+});
+
+describe("missingForTier", () => {
+  it("lists what each missing step takes", () => {
+    expect(missingForTier(commit("### Why\nstale"), 3)).toEqual(["Approach", "Alternatives or Tradeoffs"]);
+    expect(missingForTier(commit(TIER_3), 3)).toEqual([]);
+  });
+});
+
+describe("minimumTier", () => {
+  const value = { types: { fix: 1 as const, "fix(db*)": 2 as const }, size: [{ lines: 300, tier: 3 as const }] };
+
+  it("takes the type's minimum, raised by scope and diff size", () => {
+    expect(minimumTier(commit(null), value, () => 10)).toEqual({ tier: 1, reason: "fix commits" });
+    expect(minimumTier(commit(null, { scope: "db-pool" }), value, () => 10)).toEqual({ tier: 2, reason: "fix(db-pool) commits" });
+    expect(minimumTier(commit(null), value, () => 412)).toEqual({
+      tier: 3,
+      reason: "fix commits changing more than 300 lines (this one: 412)",
+    });
+  });
+
+  it("doesn't apply to types without a minimum, or count lines without size thresholds", () => {
+    const lines = vi.fn(() => 1000);
+    expect(minimumTier(commit(null, { type: "docs" }), value, lines)).toBeNull();
+    expect(minimumTier(commit(null), { types: { fix: 1 } }, lines)).toEqual({ tier: 1, reason: "fix commits" });
+    expect(lines).not.toHaveBeenCalled();
+  });
+});
+
+describe("context-min-tier", () => {
+  it("passes without minimums and for merges", () => {
+    expect(contextMinTier(commit(null))).toEqual([true, ""]);
+    expect(contextMinTier(commit(null, { merge: true }), "always", { types: { fix: 2 } })).toEqual([true, ""]);
+  });
+
+  it("names the tier reached, the one expected and what's missing", () => {
+    expect(contextMinTier(commit("### Why\nstale"), "always", { types: { fix: 2 } })).toEqual([
+      false,
+      "fix commits should reach Tier 2 (Why + Approach); this one is Tier 1, add: Approach",
+    ]);
+    expect(contextMinTier(commit(TIER_2), "always", { types: { fix: 2 } })).toEqual([true, ""]);
+  });
+
+  it("reads the diff size from the commit or MUSELET_CHANGED_LINES", () => {
+    const value = { types: { fix: 1 as const }, size: [{ lines: 300, tier: 2 as const }] };
+    expect(contextMinTier(commit("### Why\nstale", { lines: 301 }), "always", value)[1]).toBe(
+      "fix commits changing more than 300 lines (this one: 301) should reach Tier 2 (Why + Approach); this one is Tier 1, add: Approach",
+    );
+    vi.stubEnv("MUSELET_COMMIT", undefined);
+    vi.stubEnv("MUSELET_CHANGED_LINES", "20");
+    expect(contextMinTier(commit("### Why\nstale"), "always", value)).toEqual([true, ""]);
+  });
+
+  it("counts the lines of the commit named by its hash or MUSELET_COMMIT", () => {
+    const value = { types: { fix: 1 as const }, size: [{ lines: 300, tier: 2 as const }] };
+    vi.stubEnv("MUSELET_CHANGED_LINES", "20");
+    vi.stubEnv("MUSELET_COMMIT", "abc123");
+    vi.mocked(changedLines).mockReturnValueOnce(301);
+    expect(contextMinTier(commit("### Why\nstale"), "always", value)[0]).toBe(false);
+    expect(changedLines).toHaveBeenLastCalledWith({ commit: "abc123" });
+    contextMinTier(commit("### Why\nstale", { hash: "def456" }), "always", value);
+    expect(changedLines).toHaveBeenLastCalledWith({ commit: "def456" });
+  });
+
+  it("supports never", () => {
+    const [valid, msg] = contextMinTier(commit(TIER_3), "never", { types: { fix: 3 } });
+    expect(valid).toBe(false);
+    expect(msg).toBe("fix commits should stay below Tier 3 (Why + Approach + Alternatives or Tradeoffs); this one is Tier 3");
+  });
+});
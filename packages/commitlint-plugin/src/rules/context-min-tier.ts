@@ -0,0 +1,99 @@
+import { changedLines } from "../git.js";
+import { matchesGlob } from "../glob.js";
+import {
+  inferTier,
+  missingForTier,
+  SCOPED_KEY,
+  TIER_SECTIONS,
+  type Commit,
+  type Tier,
+  type TierOptions,
+} from "./context-by-type.js";
+import { hashFor } from "./context-by-path.js";
+
+export interface MinTierValue extends TierOptions {
+  /**
+   * Minimum tier per type. Keys may also be `type(scope)` with a scope glob;
+   * the highest matching minimum applies.
+   */
+  types?: Record<string, Tier>;
+  /**
+   * Minimums by diff size: a commit changing more than `lines` lines (added
+   * plus removed) must reach `tier`. Only applies to types listed in `types`.
+   */
+  size?: { lines: number; tier: Tier }[];
+}
+
+export interface TierMinimum {
+  tier: Tier;
+  /** Who the minimum is for, e.g. "fix(db) commits". */
+  reason: string;
+}
+
+/**
+ * The tier a commit has to reach under `value`, or null when no minimum
+ * applies. `lines` is only asked for when there are size thresholds.
+ */
+export function minimumTier(parsed: Commit, value: MinTierValue, lines: () => number): TierMinimum | null {
+  const { type, scope } = parsed;
+  const types = value.types ?? {};
+  if (!type) return null;
+
+  const scopes = (scope ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+  let minimum: TierMinimum | null = Object.hasOwn(types, type) ? { tier: types[type], reason: `${type} commits` } : null;
+  for (const [key, tier] of Object.entries(types)) {
+    const m = SCOPED_KEY.exec(key);
+    if (m && m[1] === type && scopes.some((s) => matchesGlob(s, m[2])) && tier > (minimum?.tier ?? -1)) {
+      minimum = { tier, reason: `${type}(${scope}) commits` };
+    }
+  }
+  if (!minimum || !value.size?.length) return minimum;
+
+  const changed = lines();
+  for (const { lines: threshold, tier } of value.size) {
+    if (changed > threshold && tier > minimum.tier) {
+      minimum = { tier, reason: `${type} commits changing more than ${threshold} lines (this one: ${changed})` };
+    }
+  }
+  return minimum;
+}
+
+/**
+ * Lines the commit changes: `parsed.lines` when the caller attached it,
+ * else the diff of the commit itself when its hash is known, else the
+ * `MUSELET_CHANGED_LINES` environment variable, else the staged diff (for
+ * the commit-msg hook).
+ */
+function linesFor(parsed: Commit): number {
+  if (typeof parsed.lines === "number") return parsed.lines;
+  const hash = hashFor(parsed);
+  if (hash) return changedLines({ commit: hash });
+  const fromEnv = Number(process.env.MUSELET_CHANGED_LINES);
+  if (process.env.MUSELET_CHANGED_LINES !== undefined && Number.isFinite(fromEnv)) return fromEnv;
+  return changedLines({ staged: true });
+}
+
+export const contextMinTier = (
+  parsed: Commit,
+  when: "always" | "never" = "always",
+  value: MinTierValue = {},
+): [boolean, string] => {
+  if (parsed.merge || parsed.revert != null) return [true, ""];
+
+  const minimum = minimumTier(parsed, value, () => linesFor(parsed));
+  if (!minimum) return [true, ""];
+
+  const tier = inferTier(parsed, value);
+  const reached = tier >= minimum.tier;
+  const result = when === "never" ? !reached : reached;
+  if (result) return [true, ""];
+
+  if (when === "never") {
+    return [false, `${minimum.reason} should stay below Tier ${minimum.tier} (${TIER_SECTIONS[minimum.tier]}); this one is Tier ${tier}`];
+  }
+  const missing = missingForTier(parsed, minimum.tier, value);
+  return [
+    false,
+    `${minimum.reason} should reach Tier ${minimum.tier} (${TIER_SECTIONS[minimum.tier]}); this one is Tier ${tier}, add: ${missing.join(", ")}`,
+  ];
+};
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { contextSectionContent } from "./context-section-content.js";
+import type { Commit, RuleValue } from "./context-by-type.js";
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  type: "fix",
+  body: null,
+  ...overrides,
+});
+
+describe("context-section-content", () => {
+  it("passes when required sections have content", () => {
+    const [valid, msg] = contextSectionContent(
+      commit({ body: "### Why\nthe cache returned stale entries" }),
+    );
+    expect(valid).toBe(true);
+    expect(msg).toBe("");
+  });
+
+  it("fails an empty section", () => {
+    const [valid, msg] = contextSectionContent(commit({ body: "### Why" }));
+    expect(valid).toBe(false);
+    expect(msg).toBe("fix commits have incomplete sections: Why (empty)");
+  });
+
+  it("fails a whitespace-only section", () => {
+    const [valid, msg] = contextSectionContent(
+      commit({ body: "### Why\n   \n\t\n### Cause\nc" }),
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe("fix commits have incomplete sections: Why (empty)");
+  });
+
+  it.each(["TODO", "todo: fill in later", "TBD", "N/A", "none", "...", "<your reason here>", "[reason]"])(
+    "fails the placeholder %j",
+    (placeholder) => {
+      const [valid, msg] = contextSectionContent(
+        commit({ body: `### Why\n${placeholder}` }),
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("fix commits have incomplete sections: Why (placeholder)");
+    },
+  );
+
+  it("does not flag prose that merely mentions a placeholder word", () => {
+    const [valid] = contextSectionContent(
+      commit({ body: "### Why\nThe TODO list view crashed on empty input" }),
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("keeps prose ending in a colon inside its section", () => {
+    const [valid] = contextSectionContent(commit({ body: "### Why\nUsers reported:\n- crash on save" }));
+    expect(valid).toBe(true);
+  });
+
+  it("leaves missing sections to context-by-type", () => {
+    const [valid, msg] = contextSectionContent(commit({ body: "no sections" }));
+    expect(valid).toBe(true);
+    expect(msg).toBe("");
+  });
+
+  it("lists every incomplete section", () => {
+    const [valid, msg] = contextSectionContent(
+      commit({ type: "refactor", body: "### Why\nTBD\n### Approach\n" }),
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe(
+      "refactor commits have incomplete sections: Why (placeholder), Approach (empty)",
+    );
+  });
+
+  it("skips types not in config", () => {
+    const [valid] = contextSectionContent(commit({ type: "docs", body: "### Why" }));
+    expect(valid).toBe(true);
+  });
+
+  describe("configuration", () => {
+    it("uses custom placeholder patterns", () => {
+      const custom: RuleValue = {
+        fix: { required: ["Why"], placeholders: ["^see ticket$"] },
+      };
+      const [f1] = contextSectionContent(
+        commit({ body: "### Why\nSee ticket" }),
+        "always",
+        custom,
+      );
+      expect(f1).toBe(false);
+      const [f2] = contextSectionContent(
+        commit({ body: "### Why\nTODO" }),
+        "always",
+        custom,
+      );
+      expect(f2).toBe(true);
+    });
+
+    it("enforces a minimum word count", () => {
+      const custom: RuleValue = {
+        fix: { required: ["Why"], minLength: { Why: { words: 5 } } },
+      };
+      const [valid, msg] = contextSectionContent(
+        commit({ body: "### Why\nit was broken" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe(
+        "fix commits have incomplete sections: Why (needs at least 5 words)",
+      );
+    });
+
+    it("enforces a minimum character count", () => {
+      const custom: RuleValue = {
+        fix: { required: ["Why"], minLength: { Why: { chars: 20 } } },
+      };
+      const [valid, msg] = contextSectionContent(
+        commit({ body: "### Why\nbroken" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe(
+        "fix commits have incomplete sections: Why (needs at least 20 characters)",
+      );
+    });
+
+    it("handles string[] config (backward compat)", () => {
+      const [valid] = contextSectionContent(
+        commit({ type: "docs", body: "### Context\n" }),
+        "always",
+        { docs: ["Context"] },
+      );
+      expect(valid).toBe(false);
+    });
+  });
+
+  describe("when = 'never'", () => {
+    it("fails when required sections are filled in", () => {
+      const [valid, msg] = contextSectionContent(
+        commit({ body: "### Why\nreasons" }),
+        "never",
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("fix commits should NOT fill in: Why");
+    });
+
+    it("passes when sections are empty", () => {
+      const [valid] = contextSectionContent(commit({ body: "### Why" }), "never");
+      expect(valid).toBe(true);
+    });
+  });
+
+  describe("exemptions", () => {
+    it("skips merge commits", () => {
+      const [valid] = contextSectionContent(commit({ merge: true, body: "### Why" }));
+      expect(valid).toBe(true);
+    });
+
+    it("skips revert commits", () => {
+      const [valid] = contextSectionContent(
+        commit({ revert: { header: "revert: x" }, body: "### Why" }),
+      );
+      expect(valid).toBe(true);
+    });
+  });
+});
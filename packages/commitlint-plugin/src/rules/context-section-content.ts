@@ -0,0 +1,58 @@
+import { DEFAULT_PLACEHOLDERS, problemWith } from "../validators.js";
+import {
+  configNames,
+  DEFAULT_VALUE,
+  findSection,
+  mergeAliases,
+  parseCommit,
+  resolveSections,
+  type Commit,
+  type RuleValue,
+} from "./context-by-type.js";
+
+export const contextSectionContent = (
+  parsed: Commit,
+  when: "always" | "never" = "always",
+  value: RuleValue = DEFAULT_VALUE,
+): [boolean, string] => {
+  if (parsed.merge || parsed.revert != null) return [true, ""];
+
+  const { type, scope } = parsed;
+  if (!type) return [true, ""];
+  const resolved = resolveSections(value, type, scope);
+  if (!resolved) return [true, ""];
+
+  const {
+    required = [],
+    placeholders = DEFAULT_PLACEHOLDERS,
+    minLength = {},
+    aliases,
+    styles,
+  } = resolved.config;
+  const names = mergeAliases(aliases);
+  const patterns = placeholders.map((p) => new RegExp(p, "i"));
+  const { sections } = parseCommit(parsed, styles, configNames(resolved.config));
+
+  // Missing sections are context-by-type's concern; only judge what's there.
+  const checked = required.flatMap((name) => {
+    const section = findSection(sections, name, names);
+    if (!section) return [];
+    return [{ name, problem: problemWith(section.content, patterns, minLength[name]) }];
+  });
+  const problems = checked.filter((c) => c.problem !== null);
+  const filled = checked.filter((c) => c.problem === null);
+
+  const hasContent = problems.length === 0;
+  const result = when === "never" ? filled.length === 0 : hasContent;
+
+  let message = "";
+  if (when === "never" && !result) {
+    message = `${resolved.label} commits should NOT fill in: ${filled.map((c) => c.name).join(", ")}`;
+  } else if (when === "always" && !hasContent) {
+    message = `${resolved.label} commits have incomplete sections: ${problems
+      .map((c) => `${c.name} (${c.problem})`)
+      .join(", ")}`;
+  }
+
+  return [result, message];
+};
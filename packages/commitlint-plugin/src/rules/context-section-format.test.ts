@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { contextSectionFormat } from "./context-section-format.js";
+import type { Commit, RuleValue } from "./context-by-type.js";
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  type: "perf",
+  body: null,
+  ...overrides,
+});
+
+describe("context-section-format", () => {
+  it("passes when sections satisfy their validators", () => {
+    const [valid, msg] = contextSectionFormat(
+      commit({ body: "### Why\nslow\n### Metrics\n4.2s → 1.1s" }),
+    );
+    expect(valid).toBe(true);
+    expect(msg).toBe("");
+  });
+
+  it("fails Metrics without numbers", () => {
+    const [valid, msg] = contextSectionFormat(
+      commit({ body: "### Why\nslow\n### Metrics\nmuch faster" }),
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe(
+      'perf commits have invalid sections: Metrics (needs numbers: a before/after pair or a measurement with a unit, e.g. "4.2s → 1.1s")',
+    );
+  });
+
+  it("validates Refs trailers", () => {
+    const [valid, msg] = contextSectionFormat(
+      commit({ type: "fix", body: "### Why\nr", footer: "Refs: #12, the slack thread" }),
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe('fix commits have invalid sections: Refs (not a reference: "the slack thread")');
+  });
+
+  it("validates aliased sections", () => {
+    const [valid] = contextSectionFormat(
+      commit({ type: "fix", body: "### References\nsomewhere" }),
+    );
+    expect(valid).toBe(false);
+  });
+
+  it("ignores sections that aren't present", () => {
+    const [valid] = contextSectionFormat(commit({ body: "### Why\nr" }));
+    expect(valid).toBe(true);
+  });
+
+  it("skips types not in config", () => {
+    const [valid] = contextSectionFormat(
+      commit({ type: "docs", body: "### Metrics\nvibes" }),
+    );
+    expect(valid).toBe(true);
+  });
+
+  describe("configuration", () => {
+    it("runs custom validator functions", () => {
+      const custom: RuleValue = {
+        feat: {
+          required: ["Why"],
+          validators: {
+            Compliance: [(content) => /\b(SOX|PCI)\b/.test(content) || "must cite SOX or PCI"],
+          },
+        },
+      };
+      const [valid, msg] = contextSectionFormat(
+        commit({ type: "feat", body: "### Compliance\ntrust me" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("feat commits have invalid sections: Compliance (must cite SOX or PCI)");
+    });
+
+    it("reports a generic problem when a validator returns false", () => {
+      const custom: RuleValue = {
+        feat: { validators: { Why: [() => false] } },
+      };
+      const [, msg] = contextSectionFormat(
+        commit({ type: "feat", body: "### Why\nr" }),
+        "always",
+        custom,
+      );
+      expect(msg).toBe("feat commits have invalid sections: Why (invalid)");
+    });
+
+    it("disables a built-in validator with an empty list", () => {
+      const custom: RuleValue = { perf: { required: ["Why"], validators: { Metrics: [] } } };
+      const [valid] = contextSectionFormat(
+        commit({ body: "### Metrics\nvibes" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("reports an unknown validator name instead of crashing", () => {
+      const custom = { perf: { validators: { Metrics: ["numeric"] } } } as unknown as RuleValue;
+      const [valid, msg] = contextSectionFormat(
+        commit({ body: "### Metrics\n4s → 1s" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe('unknown validator "numeric"');
+    });
+
+    it("passes refsPattern to the refs validator", () => {
+      const custom: RuleValue = { fix: { refsPattern: "^ACME-\\d+$" } };
+      const [valid] = contextSectionFormat(
+        commit({ type: "fix", footer: "Refs: #12" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(false);
+    });
+
+    it("applies scope-level validators", () => {
+      const custom: RuleValue = {
+        fix: { scopes: { db: { validators: { Why: ["metrics"] } } } },
+      };
+      const [valid, msg] = contextSectionFormat(
+        commit({ type: "fix", scope: "db", body: "### Why\nslow" }),
+        "always",
+        custom,
+      );
+      expect(valid).toBe(false);
+      expect(msg).toMatch(/^fix\(db\) commits have invalid sections: Why/);
+    });
+  });
+
+  describe("when = 'never'", () => {
+    it("fails when validated sections are valid", () => {
+      const [valid, msg] = contextSectionFormat(
+        commit({ body: "### Metrics\n4s → 1s" }),
+        "never",
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("perf commits should NOT have valid: Metrics");
+    });
+  });
+
+  describe("exemptions", () => {
+    it("skips merge commits", () => {
+      const [valid] = contextSectionFormat(commit({ merge: true, body: "### Metrics\nx" }));
+      expect(valid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  BUILTIN_VALIDATORS,
+  DEFAULT_VALIDATORS,
+  type SectionValidator,
+} from "../validators.js";
+import {
+  configNames,
+  DEFAULT_VALUE,
+  findSection,
+  mergeAliases,
+  parseCommit,
+  resolveSections,
+  sameSection,
+  type Commit,
+  type RuleValue,
+} from "./context-by-type.js";
+
+export const contextSectionFormat = (
+  parsed: Commit,
+  when: "always" | "never" = "always",
+  value: RuleValue = DEFAULT_VALUE,
+): [boolean, string] => {
+  if (parsed.merge || parsed.revert != null) return [true, ""];
+
+  const { type, scope } = parsed;
+  if (!type) return [true, ""];
+  const resolved = resolveSections(value, type, scope);
+  if (!resolved) return [true, ""];
+
+  const { validators = {}, refsPattern, aliases, styles } = resolved.config;
+  const names = mergeAliases(aliases);
+  const context = parseCommit(parsed, styles, configNames(resolved.config));
+  const checks = { ...DEFAULT_VALIDATORS, ...validators };
+  // An inline commitlint config never goes through the muselet config's validation.
+  const unknown = Object.values(checks)
+    .flat()
+    .find((spec) => typeof spec !== "function" && !Object.hasOwn(BUILTIN_VALIDATORS, spec));
+  if (unknown !== undefined) return [false, `unknown validator "${String(unknown)}"`];
+
+  const checked = Object.entries(checks).flatMap(([section, specs]): {
+    section: string;
+    problem: string | null;
+  }[] => {
+    const contents: string[] = [];
+    const found = findSection(context.sections, section, names);
+    if (found) contents.push(found.content);
+    // Refs may also be written as git trailers rather than a section
+    if (sameSection(section, "Refs", names) && context.refs.length > 0) {
+      contents.push(context.refs.join(", "));
+    }
+    if (contents.length === 0 || specs.length === 0) return [];
+
+    const fns: SectionValidator[] = specs.map((spec) =>
+      typeof spec === "function" ? spec : BUILTIN_VALIDATORS[spec],
+    );
+    for (const content of contents) {
+      for (const fn of fns) {
+        const outcome = fn(content, { section, type, refsPattern });
+        if (outcome !== true) {
+          return [{ section, problem: outcome === false ? "invalid" : outcome }];
+        }
+      }
+    }
+    return [{ section, problem: null }];
+  });
+
+  const problems = checked.filter((c) => c.problem !== null);
+  const valid = checked.filter((c) => c.problem === null);
+
+  const isValid = problems.length === 0;
+  const result = when === "never" ? valid.length === 0 : isValid;
+
+  let message = "";
+  if (when === "never" && !result) {
+    message = `${resolved.label} commits should NOT have valid: ${valid.map((c) => c.section).join(", ")}`;
+  } else if (when === "always" && !isValid) {
+    message = `${resolved.label} commits have invalid sections: ${problems
+      .map((c) => `${c.section} (${c.problem})`)
+      .join(", ")}`;
+  }
+
+  return [result, message];
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { contextSectionOrder } from "./context-section-order.js";
+import type { Commit } from "./context-by-type.js";
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  type: "fix",
+  body: null,
+  ...overrides,
+});
+
+const body = (...names: string[]) => names.map((n) => `### ${n}\nx`).join("\n\n");
+
+describe("context-section-order", () => {
+  it.each([
+    ["fix", ["Why", "Cause", "Approach", "Alternatives", "Tradeoffs"]],
+    ["perf", ["Why", "Metrics", "Approach", "Alternatives", "Tradeoffs"]],
+    ["refactor", ["Why", "Approach", "Alternatives", "Invariants", "Tradeoffs"]],
+    ["refactor", ["Why", "Approach", "Alternatives", "Invariants", "Migration"]],
+    ["build", ["Why", "Approach", "Migration", "Breaking"]],
+    ["test", ["Why", "Covers"]],
+  ])("accepts the spec's %s example order %j", (type, names) => {
+    const [valid] = contextSectionOrder(commit({ type, body: body(...names) }));
+    expect(valid).toBe(true);
+  });
+
+  it("flags a section that comes too early", () => {
+    const [valid, msg] = contextSectionOrder(
+      commit({ body: body("Approach", "Why", "Cause") }),
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe(
+      "sections out of order: Why should come before Approach (expected Why, Cause, Approach)",
+    );
+  });
+
+  it("ignores sections that aren't in the order", () => {
+    const [valid] = contextSectionOrder(
+      commit({ body: body("Why", "Notes", "Approach") }),
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("matches aliases", () => {
+    const [valid] = contextSectionOrder(
+      commit({ body: body("Trade-offs", "Why") }),
+    );
+    expect(valid).toBe(false);
+  });
+
+  it("uses a configured order", () => {
+    const [valid, msg] = contextSectionOrder(
+      commit({ body: body("Why", "Approach") }),
+      "always",
+      { order: ["Approach", "Why"] },
+    );
+    expect(valid).toBe(false);
+    expect(msg).toBe(
+      "sections out of order: Approach should come before Why (expected Approach, Why)",
+    );
+  });
+
+  describe("when = 'never'", () => {
+    it("fails when sections follow the order", () => {
+      const [valid, msg] = contextSectionOrder(
+        commit({ body: body("Why", "Approach") }),
+        "never",
+      );
+      expect(valid).toBe(false);
+      expect(msg).toBe("sections should NOT follow the order: Why, Approach");
+    });
+
+    it("passes when sections are out of order", () => {
+      const [valid] = contextSectionOrder(
+        commit({ body: body("Approach", "Why") }),
+        "never",
+      );
+      expect(valid).toBe(true);
+    });
+  });
+
+  it("skips merge commits", () => {
+    const [valid] = contextSectionOrder(
+      commit({ merge: true, body: body("Approach", "Why") }),
+    );
+    expect(valid).toBe(true);
+  });
+});
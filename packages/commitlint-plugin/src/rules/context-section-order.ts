@@ -0,0 +1,56 @@
+import { DEFAULT_SECTION_ORDER, sectionNames } from "../vocabulary.js";
+import type { SectionStyle } from "../parser.js";
+import {
+  mergeAliases,
+  parseCommit,
+  sameSection,
+  type Commit,
+} from "./context-by-type.js";
+
+export interface SectionOrderValue {
+  /** Sections in the order they must appear. Sections not listed are ignored. */
+  order?: string[];
+  aliases?: Record<string, string[]>;
+  /** Section styles that count; all of them by default. */
+  styles?: SectionStyle[];
+}
+
+export const contextSectionOrder = (
+  parsed: Commit,
+  when: "always" | "never" = "always",
+  value: SectionOrderValue = {},
+): [boolean, string] => {
+  if (parsed.merge || parsed.revert != null) return [true, ""];
+
+  const order = value.order ?? [...DEFAULT_SECTION_ORDER];
+  const aliases = mergeAliases(value.aliases);
+  const { sections } = parseCommit(parsed, value.styles, sectionNames(aliases, order));
+
+  const ranked = sections
+    .map((s) => ({
+      name: s.name,
+      rank: order.findIndex((o) => sameSection(o, s.name, aliases)),
+    }))
+    .filter((s) => s.rank >= 0);
+
+  const misplaced = ranked.find((s, i) => i > 0 && s.rank < ranked[i - 1].rank);
+  const inOrder = misplaced === undefined;
+  const expected = [...ranked]
+    .sort((a, b) => a.rank - b.rank)
+    .map((s) => s.name)
+    .join(", ");
+
+  if (when === "never") {
+    return inOrder && ranked.length > 1
+      ? [false, `sections should NOT follow the order: ${expected}`]
+      : [true, ""];
+  }
+
+  if (inOrder) return [true, ""];
+
+  const before = ranked[ranked.indexOf(misplaced) - 1];
+  return [
+    false,
+    `sections out of order: ${misplaced.name} should come before ${before.name} (expected ${expected})`,
+  ];
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { contextSectionStyle, editorStyle, formatHeading } from "./context-section-style.js";
+import type { Commit } from "./context-by-type.js";
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  type: "fix",
+  header: "fix: x",
+  body: null,
+  ...overrides,
+});
+
+const mixed = "### Why\nreasons\n\nCause:\nstale cache\n\n**Approach**\nevict\n\n## Refs\n#12";
+
+describe("context-section-style", () => {
+  it("passes when every section uses ### headings", () => {
+    expect(contextSectionStyle(commit({ body: "### Why\nr\n\n### Approach\na" }))).toEqual([true, ""]);
+  });
+
+  it("lists each section in another style or level", () => {
+    const [valid, msg] = contextSectionStyle(commit({ body: mixed }));
+    expect(valid).toBe(false);
+    expect(msg).toBe('sections not written as "### Name": Cause: (line 6), **Approach** (line 9), ## Refs (line 12)');
+  });
+
+  it("enforces the configured style", () => {
+    const [valid, msg] = contextSectionStyle(commit({ body: mixed }), "always", { style: "label" });
+    expect(valid).toBe(false);
+    expect(msg).toBe('sections not written as "Name:": ### Why (line 3), **Approach** (line 9), ## Refs (line 12)');
+    expect(contextSectionStyle(commit({ body: "Why:\nr\n\nCause:\nc" }), "always", { style: "label" })[0]).toBe(true);
+    expect(contextSectionStyle(commit({ body: "## Why\nr" }), "always", { level: 2 })[0]).toBe(true);
+  });
+
+  it("with never, flags sections in the style", () => {
+    const [valid, msg] = contextSectionStyle(commit({ body: mixed }), "never", { style: "bold" });
+    expect(valid).toBe(false);
+    expect(msg).toBe('sections should NOT be written as "**Name**": **Approach** (line 9)');
+  });
+
+  it("skips merges, reverts and bodies without sections", () => {
+    expect(contextSectionStyle(commit({ body: mixed, merge: true }))[0]).toBe(true);
+    expect(contextSectionStyle(commit({ body: mixed, revert: { hash: "abc" } }))[0]).toBe(true);
+    expect(contextSectionStyle(commit({ body: "just prose" }))[0]).toBe(true);
+  });
+});
+
+describe("formatHeading", () => {
+  it("writes a name in each style", () => {
+    expect(formatHeading("Why", "heading")).toBe("### Why");
+    expect(formatHeading("Why", "heading", 2)).toBe("## Why");
+    expect(formatHeading("Why", "label")).toBe("Why:");
+    expect(formatHeading("Why", "bold")).toBe("**Why**");
+  });
+});
+
+describe("editorStyle", () => {
+  it("falls back to labels when a heading would start with the comment char", () => {
+    expect(editorStyle({}, "#")).toEqual({ style: "label" });
+    expect(editorStyle({ style: "heading", level: 2 }, "#")).toEqual({ style: "label" });
+    expect(editorStyle({}, ";")).toEqual({});
+    expect(editorStyle({ style: "bold" }, "#")).toEqual({ style: "bold" });
+    expect(editorStyle({ style: "bold" }, "*")).toEqual({ style: "label" });
+  });
+});
@@ -0,0 +1,53 @@
+import type { ContextSection, SectionStyle } from "../parser.js";
+import { parseCommit, type Commit } from "./context-by-type.js";
+
+export interface SectionStyleValue {
+  /** The one style sections are written in. Defaults to "heading". */
+  style?: SectionStyle;
+  /** Heading level for the heading style. Defaults to 3 (`### Why`). */
+  level?: number;
+}
+
+/** How a section named `name` looks in `style`, e.g. "### Why" or "Why:". */
+export function formatHeading(name: string, style: SectionStyle, level = 3): string {
+  if (style === "label") return `${name}:`;
+  if (style === "bold") return `**${name}**`;
+  return `${"#".repeat(level)} ${name}`;
+}
+
+/**
+ * How to write headings into a message file git cleans up after editing.
+ * Lines starting with `commentChar` are stripped as comments, so headings
+ * that would start with it (`### Why` with git's default "#") are written
+ * as labels instead.
+ */
+export function editorStyle(value: SectionStyleValue, commentChar: string): SectionStyleValue {
+  const { style = "heading", level = 3 } = value;
+  return formatHeading("Name", style, level).startsWith(commentChar) ? { style: "label" } : value;
+}
+
+function matches(section: ContextSection, style: SectionStyle, level: number): boolean {
+  return section.style === style && (style !== "heading" || section.level === level);
+}
+
+export const contextSectionStyle = (
+  parsed: Commit,
+  when: "always" | "never" = "always",
+  value: SectionStyleValue = {},
+): [boolean, string] => {
+  if (parsed.merge || parsed.revert != null) return [true, ""];
+
+  const { style = "heading", level = 3 } = value;
+  const canonical = formatHeading("Name", style, level);
+  const { sections } = parseCommit(parsed);
+
+  const offending = sections.filter((s) => matches(s, style, level) === (when === "never"));
+  if (offending.length === 0) return [true, ""];
+
+  // Sections count lines from the body; the header and a blank line come first.
+  const offset = (parsed.header ?? "").split("\n").length + 1;
+  const list = offending.map((s) => `${s.heading.trim()} (line ${s.startLine + offset})`).join(", ");
+  return when === "never"
+    ? [false, `sections should NOT be written as "${canonical}": ${list}`]
+    : [false, `sections not written as "${canonical}": ${list}`];
+};
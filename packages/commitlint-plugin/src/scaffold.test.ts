@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { scaffoldMessage } from "./scaffold.js";
+
+const GIT_COMMENTS = "# Please enter the commit message for your changes.\n#\n# On branch main\n";
+
+describe("scaffoldMessage", () => {
+  it("shows a menu of types for a new message", () => {
+    expect(scaffoldMessage(`\n${GIT_COMMENTS}`, undefined, { types: { fix: { required: ["Why"], recommended: ["Cause"] }, refactor: ["Why", "Approach"] } }))
+      .toBe([
+        "",
+        "",
+        '# muselet: start the subject with a type, e.g. "fix(scope): what changed".',
+        "# Sections by type:",
+        "#   fix       Why; recommended: Cause",
+        "#   refactor  Why, Approach",
+        "",
+        GIT_COMMENTS,
+      ].join("\n"));
+  });
+
+  it("scaffolds the sections of the type and scope -m gave", () => {
+    const types = { fix: { required: ["Why"], recommended: ["Cause"], scopes: { db: ["Migration"] } } };
+    expect(scaffoldMessage(`fix(db): drop column\n\n${GIT_COMMENTS}`, "message", { types })).toBe([
+      "fix(db): drop column",
+      "",
+      "# muselet: fix(db) commits need Why, Migration and should have Cause.",
+      "# Uncomment a heading and write below it.",
+      "#",
+      "# Why:",
+      "#",
+      "# Migration:",
+      "#",
+      "# Cause:",
+      "",
+      GIT_COMMENTS,
+    ].join("\n"));
+  });
+
+  it("skips sections the message already has, and messages that have them all", () => {
+    const types = { feat: { required: ["Why"], recommended: ["Approach"] } };
+    expect(scaffoldMessage("feat: x\n\nWhy:\nw\n", "commit", { types })).toBe(
+      "feat: x\n\nWhy:\nw\n\n# muselet: feat commits should have Approach.\n# Uncomment a heading and write below it.\n#\n# Approach:\n",
+    );
+    expect(scaffoldMessage("feat: x\n\nWhy:\nw\n\n### Approach\na\n", "commit", { types })).toBe("feat: x\n\nWhy:\nw\n\n### Approach\na\n");
+  });
+
+  it("writes headings in the configured style and comment char", () => {
+    expect(scaffoldMessage("fix: x\n", "message", { types: { fix: ["Why"] }, style: { style: "label" }, commentChar: ";" }))
+      .toBe("fix: x\n\n; muselet: fix commits need Why.\n; Uncomment a heading and write below it.\n;\n; Why:\n");
+    expect(scaffoldMessage("fix: x\n", "message", { types: { fix: ["Why"] }, commentChar: ";" })).toContain("\n; ### Why\n");
+  });
+
+  it("leaves merges, squashes, unconfigured types and scaffolded messages alone", () => {
+    expect(scaffoldMessage("Merge branch 'x'\n", "merge")).toBe("Merge branch 'x'\n");
+    expect(scaffoldMessage("squash\n", "squash")).toBe("squash\n");
+    expect(scaffoldMessage("Revert \"fix: x\"\n", "commit")).toBe("Revert \"fix: x\"\n");
+    expect(scaffoldMessage("docs: x\n", "message")).toBe("docs: x\n");
+    const once = scaffoldMessage("fix: x\n", "message");
+    expect(scaffoldMessage(once, "message")).toBe(once);
+  });
+});
@@ -0,0 +1,105 @@
+import { GENERATED, HEADER, splitComments } from "./fix.js";
+import { parseContext } from "./parser.js";
+import {
+  DEFAULT_VALUE,
+  findSection,
+  mergeAliases,
+  normalize,
+  resolveSections,
+  type RuleValue,
+} from "./rules/context-by-type.js";
+import { editorStyle, formatHeading, type SectionStyleValue } from "./rules/context-section-style.js";
+import { sectionNames } from "./vocabulary.js";
+
+export interface ScaffoldOptions {
+  /** Sections per type. Defaults to the plugin's defaults. */
+  types?: RuleValue;
+  /** Extra spellings per section, for every type. */
+  aliases?: Record<string, string[]>;
+  /**
+   * How the commented headings are written. Defaults to `### Name`, or
+   * `Name:` when that would start with `commentChar`.
+   */
+  style?: SectionStyleValue;
+  /** git's `core.commentChar`. Defaults to "#". */
+  commentChar?: string;
+}
+
+/** Starts the scaffolding's first line, so a message only gets it once. */
+const MARKER = "muselet:";
+
+/** The types and the sections each needs, for a message without a type yet. */
+function typeMenu(types: RuleValue): string[] {
+  const rows = Object.entries(types)
+    .filter(([key]) => !key.includes("("))
+    .map(([type, value]) => {
+      const { required = [], recommended = [] } = normalize(value);
+      const needs = required.length > 0 ? required.join(", ") : "no sections";
+      return [type, recommended.length > 0 ? `${needs}; recommended: ${recommended.join(", ")}` : needs];
+    });
+  const width = Math.max(0, ...rows.map(([type]) => type.length));
+  return [
+    `${MARKER} start the subject with a type, e.g. "fix(scope): what changed".`,
+    "Sections by type:",
+    ...rows.map(([type, needs]) => `  ${type.padEnd(width)}  ${needs}`),
+  ];
+}
+
+/** Commented headings for the sections `label` commits still lack. */
+function sectionScaffold(label: string, required: string[], recommended: string[], style: SectionStyleValue): string[] {
+  const needs = [
+    required.length > 0 ? `need ${required.join(", ")}` : "",
+    recommended.length > 0 ? `should have ${recommended.join(", ")}` : "",
+  ].filter(Boolean);
+  const lines = [`${MARKER} ${label} commits ${needs.join(" and ")}.`, "Uncomment a heading and write below it."];
+  for (const name of [...required, ...recommended]) {
+    lines.push("", formatHeading(name, style.style ?? "heading", style.level));
+  }
+  return lines;
+}
+
+/**
+ * Add commented scaffolding to a message file for `prepare-commit-msg`:
+ * headings for the required and recommended sections the message's type
+ * and scope still lack, or, before there is a type, a menu of types and
+ * their sections. git strips comment lines when the editor closes, so
+ * hints left untouched never reach the commit.
+ *
+ * `source` is the hook's second argument; merges and squashes are left
+ * alone, as are messages that already have the scaffolding.
+ */
+export function scaffoldMessage(message: string, source?: string, options: ScaffoldOptions = {}): string {
+  if (source === "merge" || source === "squash") return message;
+  const { types = DEFAULT_VALUE, style = {}, commentChar = "#" } = options;
+  const lines = message.split(/\r?\n/);
+  if (lines.some((line) => line.startsWith(`${commentChar} ${MARKER}`))) return message;
+
+  const { text, comments } = splitComments(lines, commentChar);
+  const start = text.findIndex((line) => line.trim() !== "");
+  const header = start === -1 ? "" : text[start];
+  if (GENERATED.test(header)) return message;
+
+  let hint: string[];
+  const m = HEADER.exec(header);
+  if (m) {
+    const resolved = resolveSections(types, m[1], m[2]);
+    if (!resolved) return message;
+    const { required = [], recommended = [], aliases, styles } = resolved.config;
+    const names = mergeAliases(options.aliases);
+    for (const [key, list] of Object.entries(aliases ?? {})) names[key] = [...(names[key] ?? []), ...list];
+    const { sections } = parseContext(text.slice(start + 1).join("\n"), {
+      styles,
+      names: sectionNames(names, [...required, ...recommended]),
+    });
+    const lacking = (list: string[]) => list.filter((name) => !findSection(sections, name, names));
+    if (lacking(required).length === 0 && lacking(recommended).length === 0) return message;
+    // An uncommented heading mustn't read as a comment to git either.
+    hint = sectionScaffold(resolved.label, lacking(required), lacking(recommended), editorStyle(style, commentChar));
+  } else {
+    hint = typeMenu(types);
+  }
+
+  const commented = hint.map((line) => (line ? `${commentChar} ${line}` : commentChar)).join("\n");
+  const rest = comments.length > 0 ? `\n${comments.join("\n")}` : "";
+  return `${text.join("\n").trimEnd()}\n\n${commented}\n${rest}`;
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { BUILTIN_VALIDATORS } from "./validators.js";
+
+const ctx = (section: string, refsPattern?: string) => ({
+  section,
+  type: "perf",
+  refsPattern,
+});
+
+describe("metrics validator", () => {
+  const { metrics } = BUILTIN_VALIDATORS;
+
+  it.each([
+    "Batch lint of 1000 commits: 4.2s → 1.1s (3.8x faster).",
+    "p99 went from 340 to 120",
+    "12,000 commits: 45min -> 8min",
+    "Bundle size grew by 6KB",
+    "Allocation rate down 40%",
+  ])("accepts %j", (content) => {
+    expect(metrics(content, ctx("Metrics"))).toBe(true);
+  });
+
+  it.each(["Much faster now", "It feels snappier", "Fewer queries"])(
+    "rejects %j",
+    (content) => {
+      expect(metrics(content, ctx("Metrics"))).toMatch(/needs numbers/);
+    },
+  );
+});
+
+describe("refs validator", () => {
+  const { refs } = BUILTIN_VALIDATORS;
+
+  it.each([
+    "#342, #351",
+    "INCIDENT-2024-01-15, #892",
+    "#89 (plugin system), #134 (async request)",
+    "nodejs/node#12345",
+    "https://example.com/rfc/3",
+    "- PROJ-12\n- 1a2b3c4d",
+  ])("accepts %j", (content) => {
+    expect(refs(content, ctx("Refs"))).toBe(true);
+  });
+
+  it("rejects entries that aren't references", () => {
+    expect(refs("#12, see the slack thread", ctx("Refs"))).toBe(
+      'not a reference: "see the slack thread"',
+    );
+  });
+
+  it("uses a configured pattern", () => {
+    expect(refs("JIRA-1", ctx("Refs", "^ACME-\\d+$"))).toBe(
+      'not a reference: "JIRA-1"',
+    );
+    expect(refs("ACME-7", ctx("Refs", "^ACME-\\d+$"))).toBe(true);
+  });
+});
+
+describe("alternatives validator", () => {
+  const { alternatives } = BUILTIN_VALIDATORS;
+
+  it.each([
+    "Considered advisory locks but they add per-transaction overhead.",
+    "- retry on deadlock\n- advisory locks",
+    "1. Redis",
+  ])("accepts %j", (content) => {
+    expect(alternatives(content, ctx("Alternatives"))).toBe(true);
+  });
+
+  it.each(["None", "None considered.", "n/a", "Redis"])("rejects %j", (content) => {
+    expect(alternatives(content, ctx("Alternatives"))).toBe(
+      "needs at least one option that was considered",
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import type { SectionLength } from "./rules/context-by-type.js";
+
+export interface ValidatorContext {
+  /** Canonical section name, e.g. "Metrics". */
+  section: string;
+  type: string;
+  /** Regex source for a single reference, from `SectionConfig.refsPattern`. */
+  refsPattern?: string;
+}
+
+/** Return true when the content is fine, or a short description of the problem. */
+export type SectionValidator = (
+  content: string,
+  context: ValidatorContext,
+) => true | false | string;
+
+export type BuiltinValidator = "metrics" | "refs" | "alternatives";
+
+export const DEFAULT_REFS_PATTERN =
+  "(^|\\s)([\\w.-]+/[\\w.-]+)?#\\d+\\b|https?://\\S+|\\b[A-Z][A-Z0-9]+-\\d+\\b|\\b[0-9a-f]{7,40}\\b";
+
+const UNIT =
+  "(ms|µs|us|ns|s|secs?|seconds?|mins?|minutes?|h|hours?|%|x|×|b|kb|mb|gb|tb|kib|mib|gib|rps|qps|ops|req/s|fps|lines|loc|allocs?|bytes|queries|requests)";
+const MEASUREMENT = new RegExp(`\\d+(?:[.,]\\d+)?\\s*${UNIT}(?![a-z])`, "i");
+const BEFORE_AFTER = /\d[\d.,]*\s*\S*\s*(?:→|->|=>|\bto\b)\s*~?\d/i;
+
+const metrics: SectionValidator = (content) =>
+  BEFORE_AFTER.test(content) || MEASUREMENT.test(content)
+    ? true
+    : 'needs numbers: a before/after pair or a measurement with a unit, e.g. "4.2s → 1.1s"';
+
+const refs: SectionValidator = (content, { refsPattern }) => {
+  const pattern = new RegExp(refsPattern ?? DEFAULT_REFS_PATTERN);
+  const entries = content
+    .split(/[,\n]/)
+    .map((e) => e.replace(/^\s*[-*]\s+/, "").trim())
+    .filter(Boolean);
+  if (entries.length === 0) return "needs at least one reference";
+  const bad = entries.find((e) => !pattern.test(e));
+  return bad ? `not a reference: "${bad}"` : true;
+};
+
+const NO_ALTERNATIVES = /^(none|nothing|n\/a|no alternatives?)( (were )?considered)?\.?$/i;
+
+const alternatives: SectionValidator = (content) => {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (NO_ALTERNATIVES.test(text)) return "needs at least one option that was considered";
+  const listed = /^\s*([-*]|\d+[.)])\s+\S/m.test(content);
+  const described = text.split(/\s+/).length >= 3;
+  return listed || described ? true : "needs at least one option that was considered";
+};
+
+export const BUILTIN_VALIDATORS: Record<BuiltinValidator, SectionValidator> = {
+  metrics,
+  refs,
+  alternatives,
+};
+
+/** Validators applied to a section by default, keyed by canonical section name. */
+export const DEFAULT_VALIDATORS: Record<string, BuiltinValidator[]> = {
+  Metrics: ["metrics"],
+  Refs: ["refs"],
+  Alternatives: ["alternatives"],
+};
+
+export const DEFAULT_PLACEHOLDERS: string[] = [
+  "^(todo|tbd|tba|fixme|xxx|wip)\\b",
+  "^(n/?a|none|nothing|empty|-+|\\.+|\\?+)\\.?$",
+  "^<[^>]*>$",
+  "^\\[[^\\]]*\\]$",
+  "^lorem ipsum\\b",
+];
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** What's wrong with a section's content, or null when it's filled in. */
+export function problemWith(
+  content: string,
+  placeholders: RegExp[],
+  min: SectionLength | undefined,
+): string | null {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (!text) return "empty";
+  if (placeholders.some((p) => p.test(text))) return "placeholder";
+  if (min?.words && countWords(text) < min.words) {
+    return `needs at least ${min.words} words`;
+  }
+  if (min?.chars && text.length < min.chars) {
+    return `needs at least ${min.chars} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+/** The 11 context sections from the spec, in the order the spec lists them. */
+export const SECTION_VOCABULARY: readonly string[] = [
+  "Why",
+  "Cause",
+  "Approach",
+  "Alternatives",
+  "Tradeoffs",
+  "Metrics",
+  "Invariants",
+  "Migration",
+  "Covers",
+  "Breaking",
+  "Refs",
+];
+
+export const DEFAULT_ALIASES: Record<string, string[]> = {
+  Tradeoffs: ["Trade-offs", "Trade offs"],
+  Refs: ["References"],
+};
+
+/**
+ * The names a `Name:` or `**Name**` line can start a section with: the
+ * vocabulary, `extra` sections, and every spelling in `aliases`.
+ */
+export function sectionNames(
+  aliases: Record<string, string[]> = DEFAULT_ALIASES,
+  extra: readonly string[] = [],
+): string[] {
+  return [...SECTION_VOCABULARY, ...extra, ...Object.entries(aliases).flatMap(([name, list]) => [name, ...list])];
+}
+
+/** Canonical section order, matching the golden examples in the spec. */
+export const DEFAULT_SECTION_ORDER: readonly string[] = [
+  "Why",
+  "Cause",
+  "Metrics",
+  "Approach",
+  "Alternatives",
+  "Invariants",
+  "Tradeoffs",
+  "Migration",
+  "Covers",
+  "Breaking",
+  "Refs",
+];
+
+function distance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const up = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diag + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diag = up;
+    }
+  }
+  return prev[b.length];
+}
+
+/** The closest known name to `name`, if any is close enough to be a typo. */
+export function suggestSection(
+  name: string,
+  known: readonly string[],
+): string | undefined {
+  const wanted = name.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of known) {
+    const d = distance(wanted, candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  const limit = Math.max(2, Math.floor(wanted.length / 3));
+  return bestDistance <= limit ? best : undefined;
+}
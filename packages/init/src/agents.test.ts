@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { AGENT_BLOCK, agentFileContent, detectAgentFiles } from "./agents.js";
+import { managedBlock } from "./managed-block.js";
+
+let dir: string;
+
+function write(file: string, content = ""): void {
+  mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  writeFileSync(path.join(dir, file), content);
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "muselet-agents-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("detectAgentFiles", () => {
+  it("finds instruction files and offers muselet's own file in rule directories", () => {
+    write("GEMINI.md");
+    write(".windsurfrules");
+    write(".cursor/rules/style.mdc");
+    write(".github/instructions/tests.instructions.md");
+    write(".github/instructions/README.md");
+    expect(detectAgentFiles(dir)).toEqual([
+      "GEMINI.md",
+      ".windsurfrules",
+      ".cursor/rules/muselet.mdc",
+      ".github/instructions/muselet.instructions.md",
+    ]);
+  });
+
+  it("ignores rule directories without rules", () => {
+    write(".cursor/rules/notes.txt");
+    expect(detectAgentFiles(dir)).toEqual([]);
+  });
+});
+
+describe("agentFileContent", () => {
+  it("gives new rule files the front matter that applies them everywhere", () => {
+    expect(agentFileContent(".cursor/rules/muselet.mdc", null)).toMatch(/^---\n[^]*alwaysApply: true\n---\n\n<!-- muselet:start -->/);
+    expect(agentFileContent(".github/instructions/muselet.instructions.md", null)).toMatch(/^---\napplyTo: "\*\*"\n---\n\n/);
+    expect(agentFileContent("AGENTS.md", null)).toBe(managedBlock(AGENT_BLOCK));
+  });
+
+  it("is idempotent on existing files", () => {
+    const once = agentFileContent("CLAUDE.md", "# Project\n");
+    expect(agentFileContent("CLAUDE.md", once)).toBe(once);
+  });
+});
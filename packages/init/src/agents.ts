@@ -0,0 +1,66 @@
+import path from "node:path";
+import { existsSync, readdirSync } from "node:fs";
+import { managedBlock, upsertManagedBlock } from "./managed-block.js";
+
+/** Instruction files that agents read whole, patched with a managed block. */
+export const AGENT_FILES: readonly string[] = [
+  "CLAUDE.md",
+  "AGENTS.md",
+  "GEMINI.md",
+  ".github/copilot-instructions.md",
+  "copilot-instructions.md",
+  ".cursorrules",
+  "cursor-instructions.md",
+  ".windsurfrules",
+];
+
+/**
+ * Directories of per-topic rule files. When a project uses one, muselet
+ * gets a file of its own there rather than a block in someone else's.
+ */
+export const AGENT_RULE_DIRS: readonly { dir: string; suffix: string; file: string }[] = [
+  { dir: ".cursor/rules", suffix: ".mdc", file: ".cursor/rules/muselet.mdc" },
+  { dir: ".github/instructions", suffix: ".instructions.md", file: ".github/instructions/muselet.instructions.md" },
+];
+
+/** What the managed block tells agents: where to find the convention. */
+export const AGENT_BLOCK = `## Commit context (muselet)
+
+This project uses [muselet](https://github.com/muselet-ai/muselet) to enforce structured commit messages.
+Read \`muselet.md\` for the full convention and required context sections.`;
+
+/** The agent files in `root` init can point at muselet.md, existing or not. */
+export function detectAgentFiles(root: string): string[] {
+  const found = AGENT_FILES.filter((file) => existsSync(path.join(root, file)));
+  for (const { dir, suffix, file } of AGENT_RULE_DIRS) {
+    let entries: string[];
+    try {
+      entries = readdirSync(path.join(root, dir));
+    } catch {
+      continue;
+    }
+    if (entries.some((entry) => entry.endsWith(suffix))) found.push(file);
+  }
+  return found;
+}
+
+/**
+ * Front matter a new rule file needs to apply to every request: Cursor
+ * reads `alwaysApply`, Copilot reads `applyTo`.
+ */
+function frontMatter(file: string): string {
+  if (file.endsWith(".mdc")) {
+    return "---\ndescription: Commit message convention (muselet)\nalwaysApply: true\n---\n\n";
+  }
+  if (file.endsWith(".instructions.md")) return '---\napplyTo: "**"\n---\n\n';
+  return "";
+}
+
+/**
+ * `file`'s contents once it points at muselet.md: `before` with the managed
+ * block put in place, or a new file holding just the block.
+ */
+export function agentFileContent(file: string, before: string | null): string {
+  if (before === null) return frontMatter(file) + managedBlock(AGENT_BLOCK);
+  return upsertManagedBlock(before, AGENT_BLOCK);
+}
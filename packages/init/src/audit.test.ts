@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { auditHistory, formatAuditTable } from "./audit.js";
+import type { LogEntry } from "./git.js";
+
+let n = 0;
+const entry = (message: string, author = "Ada", date = "2026-01-05T10:00:00Z", merge = false): LogEntry => ({
+  hash: String(++n).padStart(40, "0"),
+  merge,
+  author,
+  date,
+  message,
+});
+
+const history = [
+  entry("fix(db): drop stale rows\n\n### Why\nstale\n\n### Cause\nc\n\n### Approach\na", "Ada", "2026-02-01T10:00:00Z"),
+  entry("fix: typo", "Grace", "2026-02-03T10:00:00Z"),
+  entry("feat(api): add search\n\nWhy:\nusers asked", "Grace", "2026-01-10T10:00:00Z"),
+  entry("docs: readme"),
+  entry("Merge branch 'x'", "Ada", "2026-01-10T10:00:00Z", true),
+  entry('Revert "fix: typo"'),
+  entry("update stuff"),
+];
+
+describe("auditHistory", () => {
+  it("scores checked commits and counts the skipped ones", () => {
+    const report = auditHistory(history);
+    expect(report.total).toBe(7);
+    expect(report.skipped).toEqual({ merges: 2, untyped: 1, unconfigured: 1 });
+    expect(report.overall).toMatchObject({ commits: 3, compliant: 2, complete: 1 });
+    expect(report.byType).toEqual([
+      { name: "fix", commits: 2, compliant: 1, complete: 1, tiers: [1, 0, 1, 0], belowTier: 0 },
+      { name: "feat", commits: 1, compliant: 1, complete: 0, tiers: [0, 1, 0, 0], belowTier: 0 },
+    ]);
+    expect(report.byScope.map((g) => g.name)).toEqual(["(none)", "api", "db"]);
+    expect(report.byAuthor.map((g) => [g.name, g.commits, g.compliant, g.complete])).toEqual([
+      ["Grace", 2, 1, 0],
+      ["Ada", 1, 1, 1],
+    ]);
+    expect(report.byMonth.map((g) => [g.name, g.commits])).toEqual([["2026-01", 1], ["2026-02", 2]]);
+  });
+
+  it("ranks the missing sections", () => {
+    expect(auditHistory(history).missing).toEqual([
+      { section: "Approach", required: 0, recommended: 2 },
+      { section: "Alternatives", required: 0, recommended: 1 },
+      { section: "Cause", required: 0, recommended: 1 },
+      { section: "Why", required: 1, recommended: 0 },
+    ]);
+  });
+
+  it("uses the configured sections, scope overrides included", () => {
+    const report = auditHistory(history, { types: { fix: { required: ["Why"], scopes: { db: ["Migration"] } } } });
+    expect(report.commits.map((c) => [c.label, c.missingRequired])).toEqual([
+      ["fix(db)", ["Migration"]],
+      ["fix", ["Why"]],
+    ]);
+    expect(report.skipped.unconfigured).toBe(2);
+  });
+
+  it("counts commits below their minimum tier, by type, scope and diff size", () => {
+    const sized = history.map((e, i) => ({ ...e, lines: i === 0 ? 500 : 10 }));
+    const report = auditHistory(sized, { minTier: { types: { fix: 1, feat: 1 }, size: [{ lines: 300, tier: 3 }] } });
+    expect(report.minTiers).toBe(true);
+    expect(report.commits.map((c) => [c.subject, c.tier, c.minTier])).toEqual([
+      ["fix(db): drop stale rows", 2, 3],
+      ["fix: typo", 0, 1],
+      ["feat(api): add search", 1, 1],
+    ]);
+    expect(report.overall.belowTier).toBe(2);
+  });
+});
+
+describe("formatAuditTable", () => {
+  it("lays out the groups as aligned columns", () => {
+    const text = formatAuditTable(auditHistory(history, { range: "main..HEAD" }));
+    expect(text).toContain("Audited 7 commits in main..HEAD: 3 checked, 4 skipped");
+    expect(text).toContain("Compliant (every required section): 2/3 (67%)");
+    expect(text).toContain("Tiers: Tier 0: 1 (33%), Tier 1: 1 (33%), Tier 2: 1 (33%), Tier 3: 0 (0%)");
+    expect(text).toContain([
+      "By type",
+      "  Type   Commits   Compliant   Complete   Tiers 0/1/2/3",
+      "  fix          2     1 (50%)    1 (50%)         1/0/1/0",
+      "  feat         1    1 (100%)     0 (0%)         0/1/0/0",
+    ].join("\n"));
+  });
+
+  it("stops after the summary line when nothing was checked", () => {
+    expect(formatAuditTable(auditHistory([entry("docs: x")]))).toBe(
+      "Audited 1 commits in HEAD: 0 checked, 1 skipped (0 merges or reverts, 0 without a type, 1 of types without sections)",
+    );
+  });
+});
@@ -0,0 +1,332 @@
+import path from "node:path";
+import { writeFileSync } from "node:fs";
+import {
+  commitlintRules,
+  DEFAULT_VALUE,
+  inferTier,
+  loadMuseletConfig,
+  minimumTier,
+  missingSections,
+  type Commit,
+  type MinTierValue,
+  type RuleValue,
+  type Tier,
+} from "@muselet/commitlint-plugin";
+import { contextRuleValue, loadCommitlintConfig } from "./config-file.js";
+import { commitLog, type LogEntry } from "./git.js";
+import type { AuditOptions } from "./options.js";
+import { auditReportHtml } from "./templates/audit-report.js";
+import type { ProjectRoots } from "./workspace.js";
+
+export interface AuditCommit {
+  hash: string;
+  subject: string;
+  author: string;
+  /** Author date, ISO 8601. */
+  date: string;
+  type: string;
+  scope: string | null;
+  /** `type`, or `type(scope)` when a scope override applied. */
+  label: string;
+  missingRequired: string[];
+  missingRecommended: string[];
+  /** The context tier the message reaches. */
+  tier: Tier;
+  /** The tier `context-min-tier` asks of it, or null when none applies. */
+  minTier: Tier | null;
+}
+
+/** Commits in one group, and how many of them have the sections they need. */
+export interface AuditGroup {
+  name: string;
+  commits: number;
+  /** Commits with every required section. */
+  compliant: number;
+  /** Commits with every required and recommended section. */
+  complete: number;
+  /** Commits per tier, Tier 0 first. */
+  tiers: number[];
+  /** Commits below the tier `context-min-tier` asks of them. */
+  belowTier: number;
+}
+
+export interface MissingCount {
+  section: string;
+  /** Commits that lacked it where it was required. */
+  required: number;
+  /** Commits that lacked it where it was recommended. */
+  recommended: number;
+}
+
+export interface AuditReport {
+  range: string;
+  /** Every commit in the range, checked or not. */
+  total: number;
+  /** Commits the rules don't apply to. */
+  skipped: { merges: number; untyped: number; unconfigured: number };
+  /** Whether minimum tiers were checked (`context-min-tier` is on). */
+  minTiers: boolean;
+  overall: AuditGroup;
+  byType: AuditGroup[];
+  /** Commits without a scope are under "(none)". */
+  byScope: AuditGroup[];
+  byAuthor: AuditGroup[];
+  /** By the month of the author date, oldest first. */
+  byMonth: AuditGroup[];
+  /** Most often missing first. */
+  missing: MissingCount[];
+  /** The checked commits, newest first. */
+  commits: AuditCommit[];
+}
+
+/** A conventional-commit header, capturing the type and scope. */
+const HEADER = /^(\w+)(?:\(([^)]*)\))?!?:/;
+
+/** The parts of a message the rules read, the way commitlint's parser gives them. */
+function toCommit(entry: LogEntry): Commit {
+  const [header = "", ...body] = entry.message.split("\n");
+  const m = HEADER.exec(header);
+  return {
+    type: m?.[1] ?? null,
+    scope: m?.[2] || null,
+    header,
+    body: body.join("\n").trim() || null,
+    merge: entry.merge,
+    revert: /^Revert "/.test(header) ? {} : null,
+  };
+}
+
+export interface AuditSettings {
+  /** Sections per type, as for `context-by-type`. Defaults to the plugin's defaults. */
+  types?: RuleValue;
+  /** `context-min-tier`'s value, when the rule is on. */
+  minTier?: MinTierValue;
+  range?: string;
+}
+
+/**
+ * What the history is checked against: the muselet config in `dir` (or
+ * `file`), else the rules of the commitlint config there, else the
+ * defaults. Throws `MuseletConfigError` for an invalid muselet config.
+ */
+export async function resolveAuditSettings(dir: string, file?: string): Promise<AuditSettings> {
+  const loaded = await loadMuseletConfig(dir, file);
+  if (loaded) {
+    const rules = commitlintRules(loaded.config);
+    const minTier = rules["context-min-tier"];
+    return {
+      types: (rules["context-by-type"]?.[2] as RuleValue | undefined) ?? loaded.config.types,
+      minTier: minTier && minTier[0] !== 0 ? (minTier[2] as MinTierValue | undefined) ?? {} : undefined,
+    };
+  }
+
+  const commitlint = loadCommitlintConfig(dir);
+  const rules = commitlint && !(commitlint instanceof Error) ? commitlint.rules : undefined;
+  const minTier = rules?.["context-min-tier"];
+  const on = Array.isArray(minTier) && minTier[0] !== 0 && minTier[0] !== "off";
+  return {
+    types: contextRuleValue(commitlint) ?? DEFAULT_VALUE,
+    minTier: on ? (minTier[2] as MinTierValue | undefined) ?? {} : undefined,
+  };
+}
+
+const emptyGroup = (name: string): AuditGroup => ({ name, commits: 0, compliant: 0, complete: 0, tiers: [0, 0, 0, 0], belowTier: 0 });
+
+function groupBy(commits: AuditCommit[], key: (commit: AuditCommit) => string): AuditGroup[] {
+  const groups = new Map<string, AuditGroup>();
+  for (const commit of commits) {
+    const name = key(commit);
+    const group = groups.get(name) ?? emptyGroup(name);
+    tally(group, commit);
+    groups.set(name, group);
+  }
+  return [...groups.values()];
+}
+
+function tally(group: AuditGroup, commit: AuditCommit): void {
+  group.commits++;
+  group.tiers[commit.tier]++;
+  if (commit.minTier !== null && commit.tier < commit.minTier) group.belowTier++;
+  if (commit.missingRequired.length === 0) {
+    group.compliant++;
+    if (commit.missingRecommended.length === 0) group.complete++;
+  }
+}
+
+const byCommits = (a: AuditGroup, b: AuditGroup) => b.commits - a.commits || a.name.localeCompare(b.name);
+
+/**
+ * Score a history against the sections each type needs, as `context-by-type`
+ * and `context-recommended` would have, and by the context tier each
+ * message reaches. Merges, reverts, commits without a conventional type
+ * and types with no sections configured are skipped. Diff-size minimums
+ * read each entry's `lines`.
+ */
+export function auditHistory(entries: LogEntry[], settings: AuditSettings = {}): AuditReport {
+  const { types = DEFAULT_VALUE, minTier, range = "HEAD" } = settings;
+  const skipped = { merges: 0, untyped: 0, unconfigured: 0 };
+  const commits: AuditCommit[] = [];
+  for (const entry of entries) {
+    const commit = toCommit(entry);
+    if (commit.merge || commit.revert) {
+      skipped.merges++;
+      continue;
+    }
+    if (!commit.type) {
+      skipped.untyped++;
+      continue;
+    }
+    const missing = missingSections(commit, types);
+    if (!missing) {
+      skipped.unconfigured++;
+      continue;
+    }
+    commits.push({
+      hash: entry.hash,
+      subject: commit.header ?? "",
+      author: entry.author,
+      date: entry.date,
+      type: commit.type,
+      scope: commit.scope ?? null,
+      label: missing.label,
+      missingRequired: missing.required,
+      missingRecommended: missing.recommended,
+      tier: inferTier(commit, minTier),
+      minTier: minTier ? minimumTier(commit, minTier, () => entry.lines ?? 0)?.tier ?? null : null,
+    });
+  }
+
+  const overall = emptyGroup("all");
+  const missing = new Map<string, MissingCount>();
+  for (const commit of commits) {
+    tally(overall, commit);
+    for (const [kind, sections] of [["required", commit.missingRequired], ["recommended", commit.missingRecommended]] as const) {
+      for (const section of sections) {
+        const count = missing.get(section) ?? { section, required: 0, recommended: 0 };
+        count[kind]++;
+        missing.set(section, count);
+      }
+    }
+  }
+
+  return {
+    range,
+    total: entries.length,
+    skipped,
+    minTiers: minTier !== undefined,
+    overall,
+    byType: groupBy(commits, (c) => c.type).sort(byCommits),
+    byScope: groupBy(commits, (c) => c.scope ?? "(none)").sort(byCommits),
+    byAuthor: groupBy(commits, (c) => c.author).sort(byCommits),
+    byMonth: groupBy(commits, (c) => c.date.slice(0, 7)).sort((a, b) => a.name.localeCompare(b.name)),
+    missing: [...missing.values()].sort(
+      (a, b) => b.required + b.recommended - (a.required + a.recommended) || a.section.localeCompare(b.section),
+    ),
+    commits,
+  };
+}
+
+/** `n` of `of` as a whole percentage, or "-" when there's nothing to count. */
+function percent(n: number, of: number): string {
+  return of === 0 ? "-" : `${Math.round((n / of) * 100)}%`;
+}
+
+/** Columns padded to their widest cell; all but the first right-aligned. */
+function table(rows: string[][]): string[] {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+  return rows.map((row) =>
+    row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("   ").trimEnd(),
+  );
+}
+
+/** Groups beyond the first `limit` in a terminal table are summed up in one line. */
+const TABLE_LIMIT = 15;
+
+function groupTable(title: string, column: string, groups: AuditGroup[], minTiers: boolean, limit = TABLE_LIMIT): string[] {
+  if (groups.length === 0) return [];
+  const shown = groups.slice(0, limit);
+  const rows = shown.map((g) => [
+    g.name,
+    String(g.commits),
+    `${g.compliant} (${percent(g.compliant, g.commits)})`,
+    `${g.complete} (${percent(g.complete, g.commits)})`,
+    g.tiers.join("/"),
+    ...(minTiers ? [String(g.belowTier)] : []),
+  ]);
+  const header = [column, "Commits", "Compliant", "Complete", "Tiers 0/1/2/3", ...(minTiers ? ["Below tier"] : [])];
+  const lines = table([header, ...rows]).map((line) => `  ${line}`);
+  if (groups.length > shown.length) lines.push(`  … and ${groups.length - shown.length} more`);
+  return ["", title, ...lines];
+}
+
+/** The report as text for the terminal. */
+export function formatAuditTable(report: AuditReport): string {
+  const { overall, skipped } = report;
+  const skippedCount = skipped.merges + skipped.untyped + skipped.unconfigured;
+  const lines = [
+    `Audited ${report.total} commits in ${report.range}: ${overall.commits} checked, ${skippedCount} skipped ` +
+      `(${skipped.merges} merges or reverts, ${skipped.untyped} without a type, ${skipped.unconfigured} of types without sections)`,
+  ];
+  if (overall.commits === 0) return lines.join("\n");
+
+  lines.push(
+    "",
+    `Compliant (every required section): ${overall.compliant}/${overall.commits} (${percent(overall.compliant, overall.commits)})`,
+    `Complete (recommended ones too):    ${overall.complete}/${overall.commits} (${percent(overall.complete, overall.commits)})`,
+    `Tiers: ${overall.tiers.map((n, tier) => `Tier ${tier}: ${n} (${percent(n, overall.commits)})`).join(", ")}`,
+  );
+  if (report.minTiers) {
+    lines.push(`Below their minimum tier:           ${overall.belowTier}/${overall.commits} (${percent(overall.belowTier, overall.commits)})`);
+  }
+  const { minTiers } = report;
+  lines.push(
+    ...groupTable("By type", "Type", report.byType, minTiers),
+    ...groupTable("By scope", "Scope", report.byScope, minTiers),
+    ...groupTable("By author", "Author", report.byAuthor, minTiers),
+    // The latest months, when there are more than fit.
+    ...groupTable("By month", "Month", report.byMonth.slice(-TABLE_LIMIT), minTiers),
+  );
+  if (report.missing.length > 0) {
+    const rows = report.missing.slice(0, 10).map((m) => [m.section, String(m.required), String(m.recommended)]);
+    lines.push("", "Most often missing", ...table([["Section", "Required", "Recommended"], ...rows]).map((line) => `  ${line}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Score the repository's history and print or write the report. Only
+ * reads the local repository. Resolves to `false` when the history or the
+ * config can't be read.
+ */
+export async function audit(options: AuditOptions, roots: ProjectRoots): Promise<boolean> {
+  const range = options.range ?? "HEAD";
+  let settings: AuditSettings;
+  try {
+    settings = await resolveAuditSettings(options.cwd ? path.resolve(roots.cwd, options.cwd) : roots.packageRoot, options.config);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    return false;
+  }
+
+  // Diff sizes cost a diff per commit, so they're only read when a minimum depends on them.
+  const entries = commitLog(roots.cwd, range, { lines: Boolean(settings.minTier?.size?.length) });
+  if (!entries) {
+    console.error(`Can't read the history of ${range}: not a git repository, no commits yet, or an unknown revision.`);
+    return false;
+  }
+
+  const report = auditHistory(entries, { ...settings, range });
+  const output =
+    options.format === "json" ? `${JSON.stringify(report, null, 2)}\n` :
+    options.format === "html" ? auditReportHtml(report) :
+    `${formatAuditTable(report)}\n`;
+
+  if (!options.output) {
+    process.stdout.write(output);
+    return true;
+  }
+  const file = path.resolve(roots.cwd, options.output);
+  writeFileSync(file, output);
+  console.log(`muselet: wrote the audit of ${report.total} commits to ${path.relative(roots.cwd, file)}`);
+  return true;
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { detectCiProvider, hasCiCheck, planCi } from "./ci.js";
+
+let dir: string;
+
+function write(file: string, content: string): void {
+  mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  writeFileSync(path.join(dir, file), content);
+}
+
+const options = { pm: "npm" as const, branch: "develop" };
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "muselet-ci-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("detectCiProvider", () => {
+  it.each([
+    [".gitlab-ci.yml", "gitlab"],
+    ["bitbucket-pipelines.yml", "bitbucket"],
+    ["azure-pipelines.yml", "azure"],
+    [".github/workflows/test.yml", "github"],
+  ])("detects %s", (file, provider) => {
+    write(file, "");
+    expect(detectCiProvider(dir)).toBe(provider);
+  });
+
+  it("falls back to the remote's host", () => {
+    execFileSync("git", ["init", "-q"], { cwd: dir });
+    execFileSync("git", ["remote", "add", "origin", "git@bitbucket.org:acme/app.git"], { cwd: dir });
+    expect(detectCiProvider(dir)).toBe("bitbucket");
+  });
+
+  it("defaults to GitHub", () => {
+    expect(detectCiProvider(dir)).toBe("github");
+  });
+});
+
+describe("planCi", () => {
+  it("creates .gitlab-ci.yml when there is none", () => {
+    const plan = planCi(dir, "gitlab", options);
+    expect(plan.writes.map((w) => w.file)).toEqual([".gitlab-ci.yml"]);
+    expect(plan.manual).toBeUndefined();
+  });
+
+  it("writes an includable GitLab job next to an existing pipeline", () => {
+    write(".gitlab-ci.yml", "test:\n  script: npm test\n");
+    const plan = planCi(dir, "gitlab", options);
+    expect(plan.writes.map((w) => w.file)).toEqual([".gitlab/ci/muselet.yml"]);
+    expect(plan.manual).toContain("include:\n  - local: .gitlab/ci/muselet.yml");
+  });
+
+  it("doesn't ask to include the GitLab job twice", () => {
+    write(".gitlab-ci.yml", "include:\n  - local: .gitlab/ci/muselet.yml\n");
+    expect(planCi(dir, "gitlab", options).manual).toBeUndefined();
+    expect(hasCiCheck(dir, "gitlab")).toBe(true);
+  });
+
+  it("never overwrites an existing Bitbucket pipeline", () => {
+    write("bitbucket-pipelines.yml", "pipelines:\n  default: []\n");
+    const plan = planCi(dir, "bitbucket", options);
+    expect(plan.writes).toEqual([]);
+    expect(plan.manual).toMatch(/^Add this step under pipelines\.pull-requests/);
+    expect(plan.manual).toContain("- step:");
+  });
+
+  it("writes an executable shell script", () => {
+    const plan = planCi(dir, "shell", options);
+    expect(plan.writes).toEqual([
+      expect.objectContaining({ file: "scripts/muselet-ci.sh", before: "", mode: 0o755 }),
+    ]);
+  });
+
+  it("reports the existing workflow it replaces", () => {
+    write(".github/workflows/muselet.yml", "old\n");
+    const plan = planCi(dir, "github", options);
+    expect(plan.summary).toBe("Overwrite .github/workflows/muselet.yml");
+    expect(plan.writes[0].before).toBe("old\n");
+  });
+});
@@ -0,0 +1,141 @@
+import path from "node:path";
+import { existsSync, readFileSync } from "node:fs";
+import type { FileWrite } from "./hooks.js";
+import { originUrl } from "./git.js";
+import {
+  CI_LABELS,
+  generateAzurePipeline,
+  generateBitbucketPipeline,
+  generateGitLabJob,
+  generateShellScript,
+  generateWorkflow,
+  type CiProvider,
+  type CiTemplateOptions,
+} from "./templates/ci.js";
+
+export interface CiPlan {
+  provider: CiProvider;
+  /** The file muselet's CI check lives in. */
+  file: string;
+  writes: FileWrite[];
+  /** One line for the setup recap. */
+  summary: string;
+  /** Set when a step has to be done by hand; explains how. */
+  manual?: string;
+}
+
+const GITLAB_CI = ".gitlab-ci.yml";
+const BITBUCKET_PIPELINES = "bitbucket-pipelines.yml";
+
+/** Where each provider's check is written when muselet owns the file. */
+export const CI_FILES: Record<CiProvider, string> = {
+  github: ".github/workflows/muselet.yml",
+  gitlab: ".gitlab/ci/muselet.yml",
+  bitbucket: BITBUCKET_PIPELINES,
+  azure: ".azure-pipelines/muselet.yml",
+  shell: "scripts/muselet-ci.sh",
+};
+
+function readOr(cwd: string, file: string): string {
+  const abs = path.join(cwd, file);
+  return existsSync(abs) ? readFileSync(abs, "utf-8") : "";
+}
+
+/** Guess the CI provider from the repo's CI files, then its remote. */
+export function detectCiProvider(cwd: string): CiProvider {
+  const has = (file: string) => existsSync(path.join(cwd, file));
+  if (has(GITLAB_CI)) return "gitlab";
+  if (has(BITBUCKET_PIPELINES)) return "bitbucket";
+  if (has("azure-pipelines.yml") || has(".azure-pipelines")) return "azure";
+  if (has(".github")) return "github";
+
+  const url = originUrl(cwd) ?? "";
+  if (/gitlab/i.test(url)) return "gitlab";
+  if (/bitbucket/i.test(url)) return "bitbucket";
+  if (/dev\.azure\.com|visualstudio\.com/i.test(url)) return "azure";
+  return "github";
+}
+
+/** Whether the provider's check is already set up. */
+export function hasCiCheck(cwd: string, provider: CiProvider): boolean {
+  if (provider === "gitlab" && readOr(cwd, GITLAB_CI).includes(CI_FILES.gitlab)) return true;
+  return readOr(cwd, CI_FILES[provider]).includes("muselet");
+}
+
+/**
+ * Work out the files for a provider's CI check. GitLab and Bitbucket keep
+ * their pipeline in one file, so an existing one is never overwritten:
+ * GitLab gets an includable job file, Bitbucket a snippet to paste.
+ */
+export function planCi(cwd: string, provider: CiProvider, options: CiTemplateOptions): CiPlan {
+  const write = (file: string, after: string, mode?: number): FileWrite => ({
+    file,
+    before: readOr(cwd, file),
+    after,
+    ...(mode ? { mode } : {}),
+  });
+  const verb = (file: string) => (existsSync(path.join(cwd, file)) ? "Overwrite" : "Create");
+
+  switch (provider) {
+    case "github":
+    case "azure": {
+      const file = CI_FILES[provider];
+      const content = provider === "github" ? generateWorkflow(options) : generateAzurePipeline(options);
+      return {
+        provider,
+        file,
+        writes: [write(file, content)],
+        summary: `${verb(file)} ${file}`,
+        manual:
+          provider === "azure"
+            ? `Create a pipeline in Azure DevOps from ${file} and add it as a branch policy build on ${options.branch}.`
+            : undefined,
+      };
+    }
+    case "gitlab": {
+      const job = generateGitLabJob(options);
+      if (!existsSync(path.join(cwd, GITLAB_CI))) {
+        return { provider, file: GITLAB_CI, writes: [write(GITLAB_CI, job)], summary: `Create ${GITLAB_CI}` };
+      }
+      const file = CI_FILES.gitlab;
+      return {
+        provider,
+        file,
+        writes: [write(file, job)],
+        summary: `${verb(file)} ${file}`,
+        manual: readOr(cwd, GITLAB_CI).includes(file)
+          ? undefined
+          : `Include the job from ${GITLAB_CI}:\n\ninclude:\n  - local: ${file}`,
+      };
+    }
+    case "bitbucket": {
+      const pipeline = generateBitbucketPipeline(options);
+      if (!existsSync(path.join(cwd, BITBUCKET_PIPELINES))) {
+        return {
+          provider,
+          file: BITBUCKET_PIPELINES,
+          writes: [write(BITBUCKET_PIPELINES, pipeline)],
+          summary: `Create ${BITBUCKET_PIPELINES}`,
+        };
+      }
+      const step = pipeline.slice(pipeline.indexOf("      - step:"));
+      return {
+        provider,
+        file: BITBUCKET_PIPELINES,
+        writes: [],
+        summary: `Add a ${CI_LABELS.bitbucket} step by hand`,
+        manual: `Add this step under pipelines.pull-requests in ${BITBUCKET_PIPELINES}\n(with clone depth: full):\n\n${step}`,
+      };
+    }
+    case "shell": {
+      const file = CI_FILES.shell;
+      return {
+        provider,
+        file,
+        writes: [write(file, generateShellScript(options), 0o755)],
+        summary: `${verb(file)} ${file}`,
+        manual: `Call ${file} from your CI after installing dependencies.`,
+      };
+    }
+  }
+}
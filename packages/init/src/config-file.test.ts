@@ -0,0 +1,282 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import yaml from "js-yaml";
+import {
+  findCommitlintConfig,
+  mergeCommitlintConfig,
+  replaceCommitlintConfig,
+  type ExistingConfig,
+} from "./config-file.js";
+
+const rules = { fix: { required: ["Why"], recommended: ["Cause"] } };
+const museletRules = {
+  "context-by-type": [2, "always", rules],
+  "context-recommended": [1, "always", rules],
+};
+
+const muselet = {
+  file: "muselet.config.yaml",
+  rules: { ...museletRules, "context-breaking": [1, "always", { aliases: { Why: ["Reason"] } }] },
+};
+
+let dir: string;
+
+function write(file: string, content: string): void {
+  writeFileSync(path.join(dir, file), content);
+}
+
+function existing(file: string, source: string): ExistingConfig {
+  write(file, source);
+  return findCommitlintConfig(dir)!;
+}
+
+/** Evaluate a merged module's exported object. */
+function evaluate(source: string): Record<string, unknown> {
+  const body = source
+    .replace(/^import .*$/gm, "")
+    .replace(/export default|module\.exports\s*=/, "return")
+    .replace(/defineConfig\(/, "(")
+    .replace(/ satisfies \w+/, "")
+    .replace(/: UserConfig/, "");
+  return new Function(body)() as Record<string, unknown>;
+}
+
+describe("findCommitlintConfig", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "muselet-init-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns null without a config", () => {
+    write("package.json", '{ "name": "app" }');
+    expect(findCommitlintConfig(dir)).toBeNull();
+  });
+
+  it.each([
+    ["commitlint.config.mjs", "esm"],
+    ["commitlint.config.cjs", "cjs"],
+    ["commitlint.config.ts", "esm"],
+    ["commitlint.config.cts", "cjs"],
+    [".commitlintrc.json", "json"],
+    [".commitlintrc.yaml", "yaml"],
+    [".commitlintrc.yml", "yaml"],
+  ])("detects %s", (file, format) => {
+    write(file, "{}");
+    expect(findCommitlintConfig(dir)).toMatchObject({ file, format });
+  });
+
+  it("detects the commitlint key in package.json", () => {
+    write("package.json", '{ "commitlint": { "extends": [] } }');
+    expect(findCommitlintConfig(dir)).toMatchObject({ file: "package.json", format: "package.json" });
+  });
+
+  it("reads .js as ESM or CommonJS from the package type", () => {
+    write("commitlint.config.js", "");
+    expect(findCommitlintConfig(dir)?.format).toBe("cjs");
+    write("package.json", '{ "type": "module" }');
+    expect(findCommitlintConfig(dir)?.format).toBe("esm");
+  });
+
+  it("sniffs an extensionless .commitlintrc", () => {
+    write(".commitlintrc", '{ "extends": [] }');
+    expect(findCommitlintConfig(dir)?.format).toBe("json");
+    write(".commitlintrc", "extends: []\n");
+    expect(findCommitlintConfig(dir)?.format).toBe("yaml");
+  });
+});
+
+describe("mergeCommitlintConfig", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "muselet-init-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps the rest of a JSON config", () => {
+    const config = existing(
+      ".commitlintrc.json",
+      JSON.stringify(
+        {
+          extends: ["@commitlint/config-angular"],
+          plugins: ["commitlint-plugin-jira"],
+          rules: { "header-max-length": [2, "always", 72] },
+        },
+        null,
+        4,
+      ),
+    );
+    const edit = mergeCommitlintConfig(config, rules)!;
+    expect(JSON.parse(edit.after)).toEqual({
+      extends: ["@commitlint/config-angular"],
+      plugins: ["commitlint-plugin-jira", "@muselet/commitlint-plugin"],
+      rules: { "header-max-length": [2, "always", 72], ...museletRules },
+    });
+    expect(edit.after).toContain('\n    "extends"');
+  });
+
+  it("merges into the commitlint key of package.json", () => {
+    const config = existing(
+      "package.json",
+      JSON.stringify({ name: "app", commitlint: { extends: ["@commitlint/config-conventional"] } }, null, 2),
+    );
+    const edit = mergeCommitlintConfig(config, rules)!;
+    expect(JSON.parse(edit.after)).toEqual({
+      name: "app",
+      commitlint: {
+        extends: ["@commitlint/config-conventional"],
+        plugins: ["@muselet/commitlint-plugin"],
+        rules: museletRules,
+      },
+    });
+  });
+
+  it("merges YAML configs", () => {
+    const config = existing(
+      ".commitlintrc.yaml",
+      "extends:\n  - '@commitlint/config-conventional'\nrules:\n  subject-case: [0]\n",
+    );
+    const edit = mergeCommitlintConfig(config, rules)!;
+    expect(yaml.load(edit.after)).toEqual({
+      extends: ["@commitlint/config-conventional"],
+      rules: { "subject-case": [0], ...museletRules },
+      plugins: ["@muselet/commitlint-plugin"],
+    });
+  });
+
+  it("edits an ESM config in place", () => {
+    const source = `// shared team config
+export default {
+  extends: ["@commitlint/config-conventional"],
+  plugins: ["commitlint-plugin-jira"],
+  rules: {
+    "header-max-length": [2, "always", 72], // keep
+  },
+};
+`;
+    const edit = mergeCommitlintConfig(existing("commitlint.config.mjs", source), rules)!;
+    expect(edit.after).toContain("// shared team config");
+    expect(edit.after).toContain("// keep");
+    expect(edit.after).toContain('plugins: ["commitlint-plugin-jira", "@muselet/commitlint-plugin"],');
+    expect(evaluate(edit.after)).toEqual({
+      extends: ["@commitlint/config-conventional"],
+      plugins: ["commitlint-plugin-jira", "@muselet/commitlint-plugin"],
+      rules: { ...museletRules, "header-max-length": [2, "always", 72] },
+    });
+  });
+
+  it("adds plugins and rules to a CommonJS config that has neither", () => {
+    const source = `module.exports = {
+  extends: ['@commitlint/config-conventional'],
+};
+`;
+    const edit = mergeCommitlintConfig(existing("commitlint.config.cjs", source), rules)!;
+    expect(edit.after).toMatch(/^module\.exports = \{\n  plugins: \["@muselet\/commitlint-plugin"\],\n  rules: \{\n    "context-by-type": \[/);
+    expect(evaluate(edit.after)).toEqual({
+      plugins: ["@muselet/commitlint-plugin"],
+      rules: museletRules,
+      extends: ["@commitlint/config-conventional"],
+    });
+  });
+
+  it("follows a typed config through its export", () => {
+    const source = `import type { UserConfig } from "@commitlint/types";
+
+const config: UserConfig = {
+  extends: ["@commitlint/config-conventional"],
+  plugins: [
+    "commitlint-plugin-jira",
+  ],
+  rules: {},
+};
+
+export default config;
+`;
+    const edit = mergeCommitlintConfig(existing("commitlint.config.ts", source), rules)!;
+    expect(edit.after).toContain('  plugins: [\n    "commitlint-plugin-jira",\n    "@muselet/commitlint-plugin",\n  ],');
+    expect(edit.after).toContain('  rules: {\n    "context-by-type": [');
+    expect(evaluate(edit.after.replace("export default config;", "return config;"))).toMatchObject({
+      rules: museletRules,
+    });
+  });
+
+  it("replaces an existing muselet rule instead of duplicating it", () => {
+    const source = `export default {
+  plugins: ["@muselet/commitlint-plugin"],
+  rules: {
+    "context-by-type": [1, "always", { feat: { required: ["Why"] } }],
+  },
+};
+`;
+    const edit = mergeCommitlintConfig(existing("commitlint.config.mjs", source), rules)!;
+    expect(edit.after.match(/@muselet\/commitlint-plugin/g)).toHaveLength(1);
+    expect(evaluate(edit.after)).toEqual({
+      plugins: ["@muselet/commitlint-plugin"],
+      rules: museletRules,
+    });
+  });
+
+  it("writes the chosen severities", () => {
+    const config = existing(".commitlintrc.json", "{}");
+    const edit = mergeCommitlintConfig(config, rules, {
+      "context-by-type": { level: 1, when: "always" },
+      "context-recommended": { level: 0, when: "always" },
+    })!;
+    expect(JSON.parse(edit.after).rules).toEqual({
+      "context-by-type": [1, "always", rules],
+      "context-recommended": [0, "always", rules],
+    });
+  });
+
+  it("merges every rule a muselet config file sets", () => {
+    const edit = mergeCommitlintConfig(existing(".commitlintrc.json", "{}"), rules, undefined, muselet)!;
+    expect(JSON.parse(edit.after).rules).toEqual(muselet.rules);
+  });
+
+  it("gives up on configs it can't find an object literal in", () => {
+    const source = `module.exports = require("./shared-commitlint");\n`;
+    expect(mergeCommitlintConfig(existing("commitlint.config.cjs", source), rules)).toBeNull();
+  });
+});
+
+describe("replaceCommitlintConfig", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "muselet-init-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps the file's format", () => {
+    const cjs = replaceCommitlintConfig(existing("commitlint.config.cjs", "module.exports = {};"), rules);
+    expect(cjs.after).toMatch(/^\/\/ commitlint\.config\.cjs\nmodule\.exports = \{/);
+
+    rmSync(path.join(dir, "commitlint.config.cjs"));
+    const json = replaceCommitlintConfig(existing(".commitlintrc.json", "{}"), rules);
+    expect(JSON.parse(json.after)).toEqual({
+      extends: ["@commitlint/config-conventional"],
+      plugins: ["@muselet/commitlint-plugin"],
+      rules: museletRules,
+    });
+  });
+
+  it("loads a muselet config file from ES modules and copies it elsewhere", () => {
+    const esm = replaceCommitlintConfig(existing("commitlint.config.mjs", "export default {};"), rules, undefined, muselet);
+    expect(esm.after).toContain('await loadMuseletConfig(fileURLToPath(new URL(".", import.meta.url)), "muselet.config.yaml")');
+
+    rmSync(path.join(dir, "commitlint.config.mjs"));
+    const cjs = replaceCommitlintConfig(existing("commitlint.config.cjs", "module.exports = {};"), rules, undefined, muselet);
+    expect(evaluate(cjs.after).rules).toEqual(muselet.rules);
+
+    rmSync(path.join(dir, "commitlint.config.cjs"));
+    const json = replaceCommitlintConfig(existing(".commitlintrc.json", "{}"), rules, undefined, muselet);
+    expect(JSON.parse(json.after).rules).toEqual(muselet.rules);
+  });
+});
@@ -0,0 +1,436 @@
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import yaml from "js-yaml";
+import type { RuleValue } from "@muselet/commitlint-plugin";
+import {
+  PLUGIN_NAME,
+  DEFAULT_RULE_SETTINGS,
+  commitlintConfig,
+  commitlintConfigObject,
+  museletConfigModule,
+  museletRules,
+  type RuleSettings,
+} from "./templates/commitlint-config.js";
+
+export type ConfigFormat = "package.json" | "json" | "yaml" | "esm" | "cjs";
+
+export interface ExistingConfig {
+  /** Path relative to the project root. */
+  file: string;
+  format: ConfigFormat;
+  source: string;
+}
+
+/** A muselet config file for the commitlint config to follow. */
+export interface MuseletSource {
+  /** Its path relative to the commitlint config. */
+  file: string;
+  /** Its `commitlintRules()`, for configs that can't load it themselves (JSON, YAML, CommonJS). */
+  rules: Record<string, unknown>;
+}
+
+/** A pending write: the file's current and proposed contents. */
+export interface ConfigEdit {
+  file: string;
+  before: string;
+  after: string;
+}
+
+/** Config files commitlint picks up, in its own lookup order. */
+export const CONFIG_FILES: readonly string[] = [
+  "package.json",
+  ".commitlintrc",
+  ".commitlintrc.json",
+  ".commitlintrc.yaml",
+  ".commitlintrc.yml",
+  ".commitlintrc.js",
+  ".commitlintrc.cjs",
+  ".commitlintrc.mjs",
+  ".commitlintrc.ts",
+  ".commitlintrc.cts",
+  "commitlint.config.js",
+  "commitlint.config.cjs",
+  "commitlint.config.mjs",
+  "commitlint.config.ts",
+  "commitlint.config.cts",
+];
+
+type Data = Record<string, unknown>;
+
+function isObject(value: unknown): value is Data {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readJson(source: string): unknown {
+  try {
+    return JSON.parse(source);
+  } catch {
+    return undefined;
+  }
+}
+
+function readFileOr(file: string, fallback = ""): string {
+  try {
+    return readFileSync(file, "utf-8");
+  } catch {
+    return fallback;
+  }
+}
+
+function formatOf(cwd: string, file: string, source: string): ConfigFormat {
+  if (file === "package.json") return "package.json";
+  if (file.endsWith(".json")) return "json";
+  if (/\.ya?ml$/.test(file)) return "yaml";
+  if (/\.c[jt]s$/.test(file)) return "cjs";
+  if (/\.m[jt]s$/.test(file) || file.endsWith(".ts")) return "esm";
+  if (file.endsWith(".js")) {
+    const pkg = readJson(readFileOr(path.join(cwd, "package.json")));
+    return isObject(pkg) && pkg.type === "module" ? "esm" : "cjs";
+  }
+  // Extensionless .commitlintrc: JSON or YAML.
+  return readJson(source) === undefined ? "yaml" : "json";
+}
+
+/** Find the commitlint config commitlint itself would load, if any. */
+export function findCommitlintConfig(cwd: string): ExistingConfig | null {
+  for (const file of CONFIG_FILES) {
+    const abs = path.join(cwd, file);
+    if (!existsSync(abs)) continue;
+    const source = readFileSync(abs, "utf-8");
+    if (file === "package.json") {
+      const pkg = readJson(source);
+      if (!isObject(pkg) || !isObject(pkg.commitlint)) continue;
+    }
+    return { file, format: formatOf(cwd, file, source), source };
+  }
+  return null;
+}
+
+function mergeData(data: Data, entries: Record<string, unknown>): Data {
+  const plugins = Array.isArray(data.plugins) ? data.plugins : [];
+  return {
+    ...data,
+    plugins: plugins.includes(PLUGIN_NAME) ? plugins : [...plugins, PLUGIN_NAME],
+    rules: { ...(isObject(data.rules) ? data.rules : {}), ...entries },
+  };
+}
+
+function detectIndent(source: string): string {
+  return /^([ \t]+)\S/m.exec(source)?.[1] ?? "  ";
+}
+
+function writeJson(source: string, data: unknown): string {
+  return `${JSON.stringify(data, null, detectIndent(source))}\n`;
+}
+
+// ── JS/TS modules ─────────────────────────────────────────────────────
+//
+// Modules can't be loaded and re-serialized without losing code, so
+// they're edited as text: find the exported object literal, then add to
+// (or create) its `plugins` array and `rules` object.
+
+/** Skip the string literal starting at `i`; returns its closing index. */
+function skipString(text: string, i: number): number {
+  const quote = text[i];
+  for (let j = i + 1; j < text.length; j++) {
+    if (text[j] === "\\") j++;
+    else if (text[j] === quote) return j;
+  }
+  return text.length;
+}
+
+/** Skip a comment starting at `i`, or return `i` if there isn't one. */
+function skipComment(text: string, i: number): number {
+  if (text.startsWith("//", i)) {
+    const end = text.indexOf("\n", i);
+    return end === -1 ? text.length : end;
+  }
+  if (text.startsWith("/*", i)) {
+    const end = text.indexOf("*/", i + 2);
+    return end === -1 ? text.length : end + 1;
+  }
+  return i;
+}
+
+/** Index of the bracket closing the one at `open`, or -1. */
+function closingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"' || c === "'" || c === "`") {
+      i = skipString(text, i);
+    } else if (skipComment(text, i) !== i) {
+      i = skipComment(text, i);
+    } else if ("[{(".includes(c)) {
+      depth++;
+    } else if ("]})".includes(c)) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find a property directly inside the object literal opening at `open`.
+ * Returns the index where its value starts.
+ */
+function findProperty(text: string, open: number, name: string): number | null {
+  const close = closingBracket(text, open);
+  if (close === -1) return null;
+  const key = new RegExp(`(["']?)${escapeRegExp(name)}\\1\\s*:\\s*`, "y");
+  let depth = 0;
+  for (let i = open + 1; i < close; i++) {
+    if (depth === 0 && !/[\w$]/.test(text[i - 1])) {
+      key.lastIndex = i;
+      const match = key.exec(text);
+      if (match) return i + match[0].length;
+    }
+    const c = text[i];
+    if (c === '"' || c === "'" || c === "`") i = skipString(text, i);
+    else if (skipComment(text, i) !== i) i = skipComment(text, i);
+    else if ("[{(".includes(c)) depth++;
+    else if ("]})".includes(c)) depth--;
+  }
+  return null;
+}
+
+/** Index of the `{` opening the exported config object. */
+function configObjectStart(text: string): number | null {
+  const inline = /(?:export\s+default|module\.exports\s*=)\s*(?:defineConfig\s*\(\s*)?\{/.exec(text);
+  if (inline) return inline.index + inline[0].length - 1;
+
+  const exported = /(?:export\s+default|module\.exports\s*=)\s*([A-Za-z_$][\w$]*)/.exec(text);
+  if (!exported) return null;
+  const declaration = new RegExp(
+    `(?:const|let|var)\\s+${escapeRegExp(exported[1])}\\b[^=]*=\\s*(?:defineConfig\\s*\\(\\s*)?\\{`,
+  ).exec(text);
+  return declaration ? declaration.index + declaration[0].length - 1 : null;
+}
+
+/** Indentation of the first property after the brace at `open`. */
+function propertyIndent(text: string, open: number): string {
+  const line = /\n([ \t]*)\S/.exec(text.slice(open));
+  return line ? line[1] : "  ";
+}
+
+function lineIndent(text: string, index: number): string {
+  const start = text.lastIndexOf("\n", index - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(start))![0];
+}
+
+function insertAt(text: string, index: number, insert: string): string {
+  return text.slice(0, index) + insert + text.slice(index);
+}
+
+/** Serialize a rule value the way the template writes it: one line per section. */
+function serialize(value: unknown, indent: string): string {
+  if (typeof value !== "object" || value === null) return JSON.stringify(value);
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.every((item) => typeof item !== "object" || item === null)) {
+      return `[${value.map((item) => JSON.stringify(item)).join(", ")}]`;
+    }
+    return `[\n${value.map((item) => `${inner}${serialize(item, inner)},`).join("\n")}\n${indent}]`;
+  }
+  const entries = Object.entries(value).map(([key, item]) => {
+    const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+    return `${name}: ${serialize(item, inner)}`;
+  });
+  if (entries.every((entry) => !entry.includes("\n")) && entries.join(", ").length <= 60) {
+    return `{ ${entries.join(", ")} }`;
+  }
+  return `{\n${entries.map((entry) => `${inner}${entry},`).join("\n")}\n${indent}}`;
+}
+
+function addPlugin(text: string, object: number): string {
+  if (new RegExp(`["'\`]${escapeRegExp(PLUGIN_NAME)}["'\`]`).test(text)) return text;
+  const indent = propertyIndent(text, object);
+  const value = findProperty(text, object, "plugins");
+  if (value === null) {
+    return insertAt(text, object + 1, `\n${indent}plugins: ["${PLUGIN_NAME}"],`);
+  }
+  if (text[value] !== "[") return text;
+  const close = closingBracket(text, value);
+  const inner = text.slice(value + 1, close);
+  if (!inner.trim()) {
+    return text.slice(0, value) + `["${PLUGIN_NAME}"]` + text.slice(close + 1);
+  }
+  const last = value + 1 + inner.trimEnd().length;
+  const trailingComma = text[last - 1] === ",";
+  if (inner.includes("\n")) {
+    const item = `\n${lineIndent(text, last)}"${PLUGIN_NAME}"`;
+    return insertAt(text, last, trailingComma ? `${item},` : `,${item}`);
+  }
+  return insertAt(text, last, `${trailingComma ? "" : ","} "${PLUGIN_NAME}"`);
+}
+
+function setRule(text: string, rulesObject: number, name: string, value: unknown, unit: string): string {
+  const close = closingBracket(text, rulesObject);
+  if (!text.slice(rulesObject + 1, close).trim()) {
+    const outer = lineIndent(text, rulesObject);
+    const entry = `${outer}${unit}"${name}": ${serialize(value, outer + unit)},`;
+    return text.slice(0, rulesObject) + `{\n${entry}\n${outer}}` + text.slice(close + 1);
+  }
+  const indent = propertyIndent(text, rulesObject);
+  const existing = findProperty(text, rulesObject, name);
+  if (existing !== null && text[existing] === "[") {
+    const end = closingBracket(text, existing);
+    return text.slice(0, existing) + serialize(value, lineIndent(text, existing)) + text.slice(end + 1);
+  }
+  return insertAt(text, rulesObject + 1, `\n${indent}"${name}": ${serialize(value, indent)},`);
+}
+
+function mergeModule(source: string, entries: Record<string, unknown>): string | null {
+  let text = source;
+  const object = configObjectStart(text);
+  if (object === null || closingBracket(text, object) === -1) return null;
+
+  const rulesValue = findProperty(text, object, "rules");
+  if (rulesValue === null) {
+    const indent = propertyIndent(text, object);
+    const body = Object.entries(entries)
+      .map(([name, value]) => `${indent}${indent}"${name}": ${serialize(value, indent + indent)},`)
+      .join("\n");
+    text = insertAt(text, object + 1, `\n${indent}rules: {\n${body}\n${indent}},`);
+  } else if (text[rulesValue] === "{") {
+    // Each new rule goes first, so insert in reverse to keep their order.
+    for (const [name, value] of Object.entries(entries).reverse()) {
+      const unit = propertyIndent(text, object);
+      text = setRule(text, findProperty(text, object, "rules")!, name, value, unit);
+    }
+  } else {
+    return null;
+  }
+
+  return addPlugin(text, object);
+}
+
+/**
+ * Add the muselet plugin and rules to an existing config, keeping its
+ * other extends, plugins and rules. With a muselet config file, every rule
+ * it configures is copied in. Returns `null` when the file can't be
+ * edited safely (e.g. a module that builds its config dynamically).
+ */
+export function mergeCommitlintConfig(
+  existing: ExistingConfig,
+  rules: RuleValue,
+  settings: RuleSettings = DEFAULT_RULE_SETTINGS,
+  muselet?: MuseletSource,
+): ConfigEdit | null {
+  const { file, format, source } = existing;
+  const entries = muselet?.rules ?? museletRules(rules, settings);
+  let after: string | null;
+  switch (format) {
+    case "package.json": {
+      const pkg = JSON.parse(source) as Data;
+      after = writeJson(source, { ...pkg, commitlint: mergeData(pkg.commitlint as Data, entries) });
+      break;
+    }
+    case "json": {
+      const data = readJson(source);
+      after = isObject(data) ? writeJson(source, mergeData(data, entries)) : null;
+      break;
+    }
+    case "yaml": {
+      const data = yaml.load(source);
+      after = isObject(data) ? yaml.dump(mergeData(data, entries)) : null;
+      break;
+    }
+    case "esm":
+    case "cjs":
+      after = mergeModule(source, entries);
+      break;
+  }
+  return after === null ? null : { file, before: source, after };
+}
+
+/**
+ * Replace an existing config with muselet's template, in the same file and
+ * format. With a muselet config file, a JavaScript ES module loads it; other
+ * formats get a copy of every rule it configures.
+ */
+export function replaceCommitlintConfig(
+  existing: ExistingConfig,
+  rules: RuleValue,
+  settings: RuleSettings = DEFAULT_RULE_SETTINGS,
+  muselet?: MuseletSource,
+): ConfigEdit {
+  const { file, format, source } = existing;
+  const object = muselet
+    ? { extends: ["@commitlint/config-conventional"], plugins: [PLUGIN_NAME], rules: muselet.rules }
+    : commitlintConfigObject(rules, settings);
+  let after: string;
+  switch (format) {
+    case "package.json":
+      after = writeJson(source, { ...(JSON.parse(source) as Data), commitlint: object });
+      break;
+    case "json":
+      after = writeJson(source, object);
+      break;
+    case "yaml":
+      after = yaml.dump(object);
+      break;
+    case "esm":
+    case "cjs":
+      if (!muselet) {
+        after = commitlintConfig(rules, { file, cjs: format === "cjs", settings });
+      } else if (format === "esm" && /\.m?js$/.test(file)) {
+        after = museletConfigModule(muselet.file, { file });
+      } else {
+        // The loader needs top-level await, which TypeScript configs may be compiled without.
+        after = `// ${file}\n${format === "cjs" ? "module.exports =" : "export default"} ${serialize(object, "")};\n`;
+      }
+      break;
+  }
+  return { file, before: source, after };
+}
+
+/** Where Node would resolve `name` from `dir`: the first node_modules up the tree that has it. */
+export function findInNodeModules(dir: string, name: string): string | null {
+  for (let current = dir; ; current = path.dirname(current)) {
+    const candidate = path.join(current, "node_modules", name);
+    if (existsSync(candidate)) return candidate;
+    if (current === path.dirname(current)) return null;
+  }
+}
+
+/** The parts of `commitlint --print-config json` muselet looks at. */
+export interface LoadedConfig {
+  plugins?: Record<string, unknown>;
+  rules?: Record<string, unknown>;
+}
+
+/**
+ * Resolve the config the way commit-msg hooks will, via commitlint itself.
+ * `null` when commitlint isn't installed; an `Error` when the config fails
+ * to load.
+ */
+export function loadCommitlintConfig(root: string): LoadedConfig | Error | null {
+  const bin = findInNodeModules(root, path.join(".bin", "commitlint"));
+  if (!bin) return null;
+  try {
+    const output = execFileSync(bin, ["--print-config", "json"], {
+      cwd: root,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "pipe"],
+      timeout: 60_000,
+    });
+    return JSON.parse(output) as LoadedConfig;
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    return new Error(stderr?.split("\n")[0] || (err instanceof Error ? err.message : String(err)));
+  }
+}
+
+/** The `context-by-type` value a loaded config uses, if it enables the rule. */
+export function contextRuleValue(loaded: LoadedConfig | Error | null): RuleValue | null {
+  if (!loaded || loaded instanceof Error) return null;
+  const rule = loaded.rules?.["context-by-type"];
+  return Array.isArray(rule) && isObject(rule[2]) ? (rule[2] as RuleValue) : null;
+}
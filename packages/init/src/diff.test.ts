@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { renderDiff } from "./diff.js";
+
+describe("renderDiff", () => {
+  it("renders a unified diff of the change", () => {
+    expect(renderDiff("a.json", '{\n  "a": 1\n}\n', '{\n  "a": 1,\n  "b": 2\n}\n', { color: false })).toBe(
+      [
+        "--- a/a.json",
+        "+++ b/a.json",
+        "@@ -1,3 +1,4 @@",
+        " {",
+        '-  "a": 1',
+        '+  "a": 1,',
+        '+  "b": 2',
+        " }",
+      ].join("\n"),
+    );
+  });
+
+  it("colors additions and removals", () => {
+    const diff = renderDiff("f", "a\n", "b\n");
+    expect(diff).toContain("\x1b[31m-a\x1b[0m");
+    expect(diff).toContain("\x1b[32m+b\x1b[0m");
+  });
+});
@@ -0,0 +1,26 @@
+import { createTwoFilesPatch } from "diff";
+
+const GREEN = "\x1b[32m";
+const RED = "\x1b[31m";
+const CYAN = "\x1b[36m";
+const RESET = "\x1b[0m";
+
+function colorize(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return line;
+  if (line.startsWith("+")) return `${GREEN}${line}${RESET}`;
+  if (line.startsWith("-")) return `${RED}${line}${RESET}`;
+  if (line.startsWith("@@")) return `${CYAN}${line}${RESET}`;
+  return line;
+}
+
+/** A unified diff of a pending write, colored for the terminal. */
+export function renderDiff(file: string, before: string, after: string, { color = true } = {}): string {
+  const patch = createTwoFilesPatch(`a/${file}`, `b/${file}`, before, after, undefined, undefined, {
+    context: 3,
+  });
+  return patch
+    .split("\n")
+    .filter((line) => line && !line.startsWith("====") && !line.startsWith("\\"))
+    .map((line) => (color ? colorize(line) : line))
+    .join("\n");
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { execFileSync } from "node:child_process";
+import { chmodSync, mkdirSync, mkdtempSync, realpathSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { DEFAULT_VALUE } from "@muselet/commitlint-plugin";
+import { runChecks, type DoctorCheck } from "./doctor.js";
+import { COMMITLINT_HOOK } from "./hooks.js";
+import { agentInstructions } from "./templates/agent-instructions.js";
+import { findProjectRoots } from "./workspace.js";
+import { writeFiles } from "./write.js";
+
+// Config passed through the environment (e.g. a CI-wide core.hooksPath)
+// would override the repositories these tests create.
+for (const key of Object.keys(process.env)) {
+  if (/^GIT_CONFIG_(COUNT|KEY_\d+|VALUE_\d+)$/.test(key)) delete process.env[key];
+}
+
+let dir: string;
+
+function write(file: string, content: string): void {
+  mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  writeFileSync(path.join(dir, file), content);
+}
+
+function checks(): Record<string, DoctorCheck> {
+  return Object.fromEntries(runChecks(findProjectRoots(dir, dir)).map((check) => [check.name, check]));
+}
+
+/** A repo set up the way init leaves it, minus a real commitlint install. */
+function setUp(): void {
+  write("package.json", '{ "name": "app" }');
+  write("node_modules/@commitlint/cli/package.json", "{}");
+  write("node_modules/@muselet/commitlint-plugin/package.json", "{}");
+  write(
+    "commitlint.config.mjs",
+    'export default { plugins: ["@muselet/commitlint-plugin"], rules: { "context-by-type": [2, "always", {}] } };\n',
+  );
+  write(".git/hooks/commit-msg", `#!/bin/sh\n${COMMITLINT_HOOK}\n`);
+  chmodSync(path.join(dir, ".git/hooks/commit-msg"), 0o755);
+  write(".github/workflows/muselet.yml", "name: Lint Commits (muselet)\n");
+  write("muselet.md", agentInstructions(DEFAULT_VALUE));
+}
+
+beforeEach(() => {
+  dir = realpathSync(mkdtempSync(path.join(tmpdir(), "muselet-doctor-")));
+  execFileSync("git", ["init", "-q"], { cwd: dir });
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("runChecks", () => {
+  it("passes a complete setup", () => {
+    setUp();
+    const result = checks();
+    expect(Object.values(result).map((check) => [check.name, check.status])).toEqual([
+      ["Packages", "pass"],
+      // No commitlint binary to load the config with, so only its text is checked.
+      ["Commitlint config", "warn"],
+      ["Commit-msg hook", "pass"],
+      ["Hook installed", "pass"],
+      ["CI check", "pass"],
+      // Nor to compare muselet.md with.
+      ["Agent instructions", "warn"],
+    ]);
+    expect(result["CI check"].detail).toBe("GitHub Actions (.github/workflows/muselet.yml)");
+  });
+
+  it("offers a fix for everything missing in a bare repo", () => {
+    write("package.json", '{ "name": "app" }');
+    write("pnpm-lock.yaml", "");
+    const result = checks();
+    expect(result.Packages).toMatchObject({
+      status: "fail",
+      detail: "Not installed: @commitlint/cli, @muselet/commitlint-plugin",
+      fix: { commands: ["pnpm add -D @commitlint/cli @muselet/commitlint-plugin"] },
+    });
+    expect(result["Commitlint config"].fix?.writes.map((w) => w.file)).toEqual(["commitlint.config.mjs"]);
+    expect(result["Commit-msg hook"].fix?.writes[0]).toMatchObject({
+      file: path.join(".git", "hooks", "commit-msg"),
+      after: `#!/bin/sh\n${COMMITLINT_HOOK}\n`,
+    });
+    expect(result["Hook installed"]).toMatchObject({ status: "fail", fix: undefined });
+    expect(result["CI check"]).toMatchObject({
+      status: "warn",
+      fix: { description: "Create .github/workflows/muselet.yml" },
+    });
+    expect(result["Agent instructions"]).toMatchObject({ status: "fail", detail: "muselet.md is missing" });
+  });
+
+  it("makes a hook git can't run executable", async () => {
+    setUp();
+    chmodSync(path.join(dir, ".git/hooks/commit-msg"), 0o644);
+    const { fix, status } = checks()["Hook installed"];
+    expect(status).toBe("fail");
+    await writeFiles(dir, fix!.writes);
+    expect(statSync(path.join(dir, ".git/hooks/commit-msg")).mode & 0o111).not.toBe(0);
+    expect(checks()["Hook installed"].status).toBe("pass");
+  });
+
+  it("merges the plugin into a config that lacks it", () => {
+    setUp();
+    write("commitlint.config.mjs", 'export default { extends: ["@commitlint/config-conventional"] };\n');
+    const check = checks()["Commitlint config"];
+    expect(check.status).toBe("fail");
+    expect(check.fix?.description).toBe("Merge muselet into commitlint.config.mjs");
+    expect(check.fix?.writes[0].after).toContain('"@muselet/commitlint-plugin"');
+  });
+
+  it("flags a muselet.md that doesn't match the loaded config", () => {
+    setUp();
+    const value = { fix: ["Why", "Cause"] };
+    write("node_modules/.bin/commitlint", `#!/bin/sh\necho '${JSON.stringify({ rules: { "context-by-type": [2, "always", value] } })}'\n`);
+    chmodSync(path.join(dir, "node_modules/.bin/commitlint"), 0o755);
+    expect(checks()["Agent instructions"]).toMatchObject({
+      status: "warn",
+      detail: "muselet.md is out of date",
+      fix: { writes: [{ file: "muselet.md", after: agentInstructions(value) }] },
+    });
+    write("muselet.md", agentInstructions(value));
+    expect(checks()["Agent instructions"].status).toBe("pass");
+  });
+
+  it("leaves muselet.md alone when the config can't be loaded", () => {
+    setUp();
+    write("muselet.md", "# Our own instructions\n");
+    expect(checks()["Agent instructions"]).toEqual({
+      name: "Agent instructions",
+      status: "warn",
+      detail: "muselet.md not checked: the commitlint config couldn't be loaded",
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import path from "node:path";
+import { execSync } from "node:child_process";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { confirm, intro, isCancel, log, outro } from "@clack/prompts";
+import { DEFAULT_VALUE, findMuseletConfig } from "@muselet/commitlint-plugin";
+import { detectCiProvider, hasCiCheck, planCi, CI_FILES } from "./ci.js";
+import {
+  contextRuleValue,
+  findCommitlintConfig,
+  findInNodeModules,
+  loadCommitlintConfig,
+  mergeCommitlintConfig,
+  type LoadedConfig,
+} from "./config-file.js";
+import { defaultBranch, gitPath } from "./git.js";
+import {
+  activationCommand,
+  detectHookManager,
+  hookSourceFile,
+  planHook,
+  type FileWrite,
+  type HookManager,
+} from "./hooks.js";
+import type { DoctorOptions } from "./options.js";
+import { agentInstructions } from "./templates/agent-instructions.js";
+import { CI_LABELS, CI_PROVIDERS } from "./templates/ci.js";
+import { commitlintConfig, museletConfigModule, PLUGIN_NAME } from "./templates/commitlint-config.js";
+import { detectPackageManager, installCmd, type ProjectRoots } from "./workspace.js";
+import { writeFiles } from "./write.js";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface DoctorFix {
+  /** What the fix does, for the prompt. */
+  description: string;
+  /** Files to write, relative to the git root. */
+  writes: FileWrite[];
+  /** Commands to run from the project root once the files are written. */
+  commands: string[];
+}
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  fix?: DoctorFix;
+}
+
+/** The packages a commit-msg hook needs to lint with muselet. */
+const REQUIRED_PACKAGES = ["@commitlint/cli", PLUGIN_NAME];
+
+function readOr(cwd: string, file: string): string {
+  const abs = path.join(cwd, file);
+  return existsSync(abs) ? readFileSync(abs, "utf-8") : "";
+}
+
+/** `root` relative to the git root, "" when they're the same. */
+function packageDirOf(roots: ProjectRoots): string {
+  return path.relative(roots.gitRoot, roots.packageRoot).split(path.sep).join("/");
+}
+
+function checkPackages(roots: ProjectRoots): DoctorCheck {
+  const name = "Packages";
+  const root = roots.packageRoot;
+  if (!existsSync(path.join(root, "package.json"))) {
+    return { name, status: "warn", detail: "No package.json; make sure commitlint and the plugin are installed where the hook runs" };
+  }
+  const missing = REQUIRED_PACKAGES.filter((pkg) => !findInNodeModules(root, path.join(pkg, "package.json")));
+  if (missing.length === 0) {
+    return { name, status: "pass", detail: `${REQUIRED_PACKAGES.join(" and ")} are installed` };
+  }
+  const install = installCmd(detectPackageManager(root), { root, workspace: Boolean(roots.workspace) });
+  return {
+    name,
+    status: "fail",
+    detail: `Not installed: ${missing.join(", ")}`,
+    fix: { description: `Install ${missing.join(", ")}`, writes: [], commands: [`${install} ${missing.join(" ")}`] },
+  };
+}
+
+function checkConfig(roots: ProjectRoots, loaded: LoadedConfig | Error | null): DoctorCheck {
+  const name = "Commitlint config";
+  const packageDir = packageDirOf(roots);
+  const existing = findCommitlintConfig(roots.packageRoot);
+  if (!existing) {
+    const file = path.posix.join(packageDir, "commitlint.config.mjs");
+    // A muselet config next to it is loaded rather than replaced by the defaults.
+    const museletFile = findMuseletConfig(roots.packageRoot);
+    const after = museletFile ? museletConfigModule(path.basename(museletFile)) : commitlintConfig(DEFAULT_VALUE);
+    return {
+      name,
+      status: "fail",
+      detail: "No commitlint config found",
+      fix: {
+        description: `Create ${file}`,
+        writes: [{ file, before: "", after }],
+        commands: [],
+      },
+    };
+  }
+
+  const file = path.posix.join(packageDir, existing.file);
+  if (loaded instanceof Error) {
+    return { name, status: "fail", detail: `${file} doesn't load: ${loaded.message}` };
+  }
+
+  // commitlint shortens "@scope/commitlint-plugin" to "@scope" once loaded.
+  const references = loaded
+    ? Object.keys(loaded.plugins ?? {}).some((plugin) => plugin === PLUGIN_NAME || PLUGIN_NAME.startsWith(`${plugin}/`)) &&
+      Boolean(loaded.rules?.["context-by-type"])
+    : existing.source.includes(PLUGIN_NAME) && existing.source.includes("context-by-type");
+  if (references) {
+    return {
+      name,
+      status: loaded ? "pass" : "warn",
+      detail: loaded
+        ? `${file} loads and uses ${PLUGIN_NAME}`
+        : `${file} mentions ${PLUGIN_NAME}, but commitlint isn't installed to load it`,
+    };
+  }
+
+  const edit = mergeCommitlintConfig(existing, DEFAULT_VALUE);
+  return {
+    name,
+    status: "fail",
+    detail: `${file} doesn't enable ${PLUGIN_NAME} and its context-by-type rule`,
+    fix: edit
+      ? { description: `Merge muselet into ${file}`, writes: [{ ...edit, file }], commands: [] }
+      : undefined,
+  };
+}
+
+function detectManager(roots: ProjectRoots): HookManager {
+  return detectHookManager(roots.gitRoot) ?? detectHookManager(roots.packageRoot) ?? "git";
+}
+
+function checkHookSource(roots: ProjectRoots, manager: HookManager): DoctorCheck {
+  const name = "Commit-msg hook";
+  const packageDir = packageDirOf(roots);
+  const file = hookSourceFile(roots.gitRoot, manager, packageDir);
+  if (!file) return { name, status: "fail", detail: "Not a git repository" };
+  if (readOr(roots.gitRoot, file).includes("commitlint")) {
+    return { name, status: "pass", detail: `${file} runs commitlint (${manager})` };
+  }
+  const plan = planHook(roots.gitRoot, manager, packageDir);
+  return {
+    name,
+    status: "fail",
+    detail: `${file} doesn't run commitlint (${manager})`,
+    fix: plan.manual ? undefined : { description: plan.summary, writes: plan.writes, commands: plan.commands },
+  };
+}
+
+/** Check the script git itself runs: it has to exist and be executable. */
+function checkHookInstalled(roots: ProjectRoots, manager: HookManager): DoctorCheck {
+  const name = "Hook installed";
+  const hooksDir = gitPath(roots.gitRoot, "hooks");
+  if (!hooksDir) return { name, status: "fail", detail: "Not a git repository" };
+  const file = path.relative(roots.gitRoot, path.resolve(roots.gitRoot, hooksDir, "commit-msg"));
+  const activate = activationCommand(manager, packageDirOf(roots));
+
+  let mode: number;
+  try {
+    mode = statSync(path.join(roots.gitRoot, file)).mode;
+  } catch {
+    return {
+      name,
+      status: "fail",
+      detail: `git won't run a commit-msg hook: ${file} is missing`,
+      fix: activate ? { description: `Run ${activate}`, writes: [], commands: [activate] } : undefined,
+    };
+  }
+  if ((mode & 0o111) === 0) {
+    const content = readOr(roots.gitRoot, file);
+    return {
+      name,
+      status: "fail",
+      detail: `${file} isn't executable`,
+      fix: {
+        description: `Make ${file} executable`,
+        writes: [{ file, before: content, after: content, mode: 0o755 }],
+        commands: [],
+      },
+    };
+  }
+  return { name, status: "pass", detail: `${file} is executable` };
+}
+
+function checkCi(roots: ProjectRoots): DoctorCheck {
+  const name = "CI check";
+  const found = CI_PROVIDERS.find((provider) => hasCiCheck(roots.gitRoot, provider));
+  if (found) return { name, status: "pass", detail: `${CI_LABELS[found]} (${CI_FILES[found]})` };
+
+  const provider = detectCiProvider(roots.gitRoot);
+  const plan = planCi(roots.gitRoot, provider, {
+    pm: detectPackageManager(roots.packageRoot),
+    branch: defaultBranch(roots.gitRoot),
+    dir: packageDirOf(roots) || undefined,
+  });
+  return {
+    name,
+    status: "warn",
+    detail: "No CI check lints pull request commits",
+    fix: plan.writes.length > 0 ? { description: plan.summary, writes: plan.writes, commands: [] } : undefined,
+  };
+}
+
+/**
+ * muselet.md should describe the sections the loaded config asks for.
+ * Without a loaded config an existing file is left alone: comparing it
+ * with the defaults would offer to overwrite a customised one.
+ */
+function checkInstructions(roots: ProjectRoots, loaded: LoadedConfig | Error | null): DoctorCheck {
+  const name = "Agent instructions";
+  const file = "muselet.md";
+  const before = readOr(roots.gitRoot, file);
+  const after = agentInstructions(contextRuleValue(loaded) ?? DEFAULT_VALUE);
+  const fix = { description: `Write the current ${file}`, writes: [{ file, before, after }], commands: [] };
+  if (!before) return { name, status: "fail", detail: `${file} is missing`, fix };
+  if (!loaded || loaded instanceof Error) {
+    return { name, status: "warn", detail: `${file} not checked: the commitlint config couldn't be loaded` };
+  }
+  if (before !== after) return { name, status: "warn", detail: `${file} is out of date`, fix };
+  return { name, status: "pass", detail: `${file} is current` };
+}
+
+/** Run every check against the setup rooted at `roots`. */
+export function runChecks(roots: ProjectRoots): DoctorCheck[] {
+  const manager = detectManager(roots);
+  const loaded = findCommitlintConfig(roots.packageRoot) ? loadCommitlintConfig(roots.packageRoot) : null;
+  return [
+    checkPackages(roots),
+    checkConfig(roots, loaded),
+    checkHookSource(roots, manager),
+    checkHookInstalled(roots, manager),
+    checkCi(roots),
+    checkInstructions(roots, loaded),
+  ];
+}
+
+function report(checks: DoctorCheck[]): void {
+  for (const check of checks) {
+    const line = `${check.name}: ${check.detail}`;
+    if (check.status === "pass") log.success(line);
+    else if (check.status === "warn") log.warn(line);
+    else log.error(line);
+  }
+}
+
+/**
+ * Check an existing setup and offer the fixes. Resolves to `false` if any
+ * check still fails afterwards.
+ */
+export async function doctor(options: DoctorOptions, roots: ProjectRoots): Promise<boolean> {
+  intro("muselet doctor");
+
+  let checks = runChecks(roots);
+  report(checks);
+
+  const fixable = checks.filter((check) => check.status !== "pass" && check.fix);
+  if (fixable.length > 0 && !options.fix && !options.interactive) {
+    log.info("Run `muselet doctor --fix` to apply the suggested fixes.");
+  }
+
+  let fixed = 0;
+  for (const { name, fix } of options.fix || options.interactive ? fixable : []) {
+    const apply = options.fix || await confirm({ message: `${name}: ${fix!.description}?`, initialValue: true });
+    if (isCancel(apply)) break;
+    if (!apply) continue;
+
+    await writeFiles(roots.gitRoot, fix!.writes);
+    for (const cmd of fix!.commands) {
+      log.step(`$ ${cmd}`);
+      try {
+        execSync(cmd, { cwd: roots.packageRoot, stdio: "inherit" });
+      } catch {
+        log.warn(`\`${cmd}\` failed.`);
+      }
+    }
+    fixed++;
+  }
+
+  if (fixed > 0) {
+    log.step("Checking again…");
+    checks = runChecks(roots);
+    report(checks);
+  }
+
+  const failed = checks.filter((check) => check.status === "fail").length;
+  const warned = checks.filter((check) => check.status === "warn").length;
+  if (failed > 0) {
+    outro(`${failed} check${failed === 1 ? "" : "s"} failed.`);
+  } else if (warned > 0) {
+    outro(`No failures, ${warned} warning${warned === 1 ? "" : "s"}.`);
+  } else {
+    outro("Everything fits together.");
+  }
+  return failed === 0;
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import { chmodSync, mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fix, resolveFixOptions } from "./fix.js";
+import type { ProjectRoots } from "./workspace.js";
+
+// Config passed through the environment would override the repositories
+// these tests create.
+for (const key of Object.keys(process.env)) {
+  if (/^GIT_CONFIG_(COUNT|KEY_\d+|VALUE_\d+)$/.test(key)) delete process.env[key];
+}
+
+let dir: string;
+let roots: ProjectRoots;
+
+const write = (file: string, content: string) => writeFileSync(path.join(dir, file), content);
+const read = (file: string) => readFileSync(path.join(dir, file), "utf-8");
+const options = { check: false, help: false };
+const bin = path.resolve(import.meta.dirname, "../dist/index.js");
+
+beforeEach(() => {
+  dir = realpathSync(mkdtempSync(path.join(tmpdir(), "muselet-fix-")));
+  execFileSync("git", ["init", "-q"], { cwd: dir });
+  roots = { cwd: dir, gitRoot: dir, packageRoot: dir, workspace: null };
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("fix", () => {
+  it("rewrites COMMIT_EDITMSG by default, using the project's muselet config", async () => {
+    write("muselet.config.yaml", "types:\n  fix: { required: [Why], aliases: { Why: [Reason] } }\n");
+    write(".git/COMMIT_EDITMSG", "fix: x\n\nReason:\nstale cache\n");
+    expect(await fix(options, roots)).toBe(true);
+    expect(read(".git/COMMIT_EDITMSG")).toBe("fix: x\n\nWhy:\nstale cache\n");
+  });
+
+  it("writes sections that survive git's cleanup when run from the commit-msg hook", () => {
+    write("muselet.config.yaml", "types:\n  fix: { required: [Why], aliases: { Why: [Reason] } }\n");
+    write(".git/hooks/commit-msg", `#!/bin/sh\nexec "${process.execPath}" "${bin}" fix "$1"\n`);
+    write("editor.sh", `#!/bin/sh\n{ printf 'fix: x\\n\\nReason:\\nstale cache\\n'; cat "$1"; } > "$1.new" && mv "$1.new" "$1"\n`);
+    chmodSync(path.join(dir, ".git/hooks/commit-msg"), 0o755);
+    chmodSync(path.join(dir, "editor.sh"), 0o755);
+    const env = { ...process.env, GIT_EDITOR: path.join(dir, "editor.sh") };
+    const git = (...args: string[]) => execFileSync("git", ["-c", "user.name=t", "-c", "user.email=t@t", ...args], { cwd: dir, env, encoding: "utf-8" });
+    git("commit", "-q", "--allow-empty");
+    expect(git("log", "-1", "--format=%B")).toBe("fix: x\n\nWhy:\nstale cache\n\n");
+  });
+
+  it("only reports with --check", async () => {
+    write("MSG", "fix: x\n\n**Why**\nw\n");
+    expect(await fix({ ...options, file: "MSG", check: true }, roots)).toBe(false);
+    expect(read("MSG")).toBe("fix: x\n\n**Why**\nw\n");
+    write("MSG", "fix: x\n\nWhy:\nw\n");
+    expect(await fix({ ...options, file: "MSG", check: true }, roots)).toBe(true);
+  });
+
+  it("leaves comments in git's core.commentChar alone", async () => {
+    execFileSync("git", ["config", "core.commentChar", ";"], { cwd: dir });
+    write("MSG", "fix: x\n\nWhy:\nw\n\n; Please enter the commit message\n;\n");
+    await fix({ ...options, file: "MSG" }, roots);
+    expect(read("MSG")).toBe("fix: x\n\n### Why\nw\n\n; Please enter the commit message\n;\n");
+  });
+
+  it("fails on a missing file or an invalid config", async () => {
+    expect(await fix({ ...options, file: "nope" }, roots)).toBe(false);
+    write("MSG", "fix: x\n");
+    write("muselet.config.json", '{ "types": { "fix": "Why" } }');
+    expect(await fix({ ...options, file: "MSG" }, roots)).toBe(false);
+    expect(console.error).toHaveBeenLastCalledWith(expect.stringMatching(/types\.fix/));
+  });
+});
+
+describe("resolveFixOptions", () => {
+  it("falls back to the default types without a config", async () => {
+    expect(await resolveFixOptions(dir)).toMatchObject({ types: { fix: { required: ["Why"] } } });
+  });
+});
@@ -0,0 +1,76 @@
+import path from "node:path";
+import { readFileSync, writeFileSync } from "node:fs";
+import {
+  DEFAULT_VALUE,
+  editorStyle,
+  fixMessage,
+  fixOptions,
+  loadMuseletConfig,
+  type FixOptions,
+  type MuseletConfig,
+} from "@muselet/commitlint-plugin";
+import { contextRuleValue, loadCommitlintConfig } from "./config-file.js";
+import { commentChar, gitPath } from "./git.js";
+import type { FixCommandOptions } from "./options.js";
+import type { ProjectRoots } from "./workspace.js";
+
+/**
+ * What messages are normalised against: the muselet config in `dir` (or
+ * `file`), else the rules of the commitlint config there, else the
+ * defaults. Throws `MuseletConfigError` for an invalid muselet config.
+ */
+export async function resolveFixOptions(dir: string, file?: string): Promise<FixOptions> {
+  const loaded = await loadMuseletConfig(dir, file);
+  if (loaded) return fixOptions(loaded.config);
+
+  const commitlint = loadCommitlintConfig(dir);
+  const rules = commitlint && !(commitlint instanceof Error) ? commitlint.rules : undefined;
+  return fixOptions({
+    types: contextRuleValue(commitlint) ?? DEFAULT_VALUE,
+    rules: rules as MuseletConfig["rules"],
+  });
+}
+
+/**
+ * Rewrite a commit message file into the canonical section format, or
+ * with `--check` only report whether it is. Quiet when there's nothing to
+ * change, since it runs in the commit-msg hook. Resolves to `false` on
+ * errors, and for `--check` when the file would change.
+ */
+export async function fix(options: FixCommandOptions, roots: ProjectRoots): Promise<boolean> {
+  const file = options.file ?? gitPath(roots.cwd, "COMMIT_EDITMSG");
+  if (!file) {
+    console.error("Not a git repository: pass the message file to fix.");
+    return false;
+  }
+  const abs = path.resolve(roots.cwd, file);
+  const label = path.relative(roots.cwd, abs);
+
+  let message: string;
+  try {
+    message = readFileSync(abs, "utf-8");
+  } catch {
+    console.error(`Can't read ${label}.`);
+    return false;
+  }
+
+  let fixOpts: FixOptions;
+  try {
+    fixOpts = await resolveFixOptions(options.cwd ? path.resolve(roots.cwd, options.cwd) : roots.packageRoot, options.config);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    return false;
+  }
+
+  // git strips comment lines after the commit-msg hook, `### ` headings included with "#".
+  const char = commentChar(roots.cwd);
+  const fixed = fixMessage(message, { ...fixOpts, style: editorStyle(fixOpts.style ?? {}, char), commentChar: char });
+  if (fixed === message) return true;
+  if (options.check) {
+    console.error(`${label} isn't in the canonical section format. Run: muselet fix ${label}`);
+    return false;
+  }
+  writeFileSync(abs, fixed);
+  console.log(`muselet: rewrote ${label} in the canonical section format`);
+  return true;
+}
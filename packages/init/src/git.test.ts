@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { commentChar, commitLog, defaultBranch, gitRoot, originUrl } from "./git.js";
+
+let dir: string;
+
+const git = (...args: string[]) => execFileSync("git", args, { cwd: dir, encoding: "utf-8" });
+
+describe("defaultBranch", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "muselet-git-"));
+    git("init", "-q");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads the branch origin/HEAD points at", () => {
+    git("remote", "add", "origin", "https://gitlab.com/acme/app.git");
+    git("symbolic-ref", "refs/remotes/origin/HEAD", "refs/remotes/origin/develop");
+    expect(defaultBranch(dir)).toBe("develop");
+    expect(originUrl(dir)).toBe("https://gitlab.com/acme/app.git");
+  });
+
+  it("falls back to main", () => {
+    expect(defaultBranch(dir)).toBe("main");
+    expect(originUrl(dir)).toBeNull();
+  });
+
+  it("reads core.commentChar, taking auto as #", () => {
+    git("config", "core.commentChar", ";");
+    expect(commentChar(dir)).toBe(";");
+    git("config", "core.commentChar", "auto");
+    expect(commentChar(dir)).toBe("#");
+  });
+
+  it("reads the commit log, newest first", () => {
+    expect(commitLog(dir)).toBeNull();
+    const commit = (message: string) =>
+      git("-c", "user.name=Ada", "-c", "user.email=ada@example.com", "commit", "-q", "--allow-empty", "-m", message);
+    commit("fix: one\n\n### Why\nw");
+    writeFileSync(path.join(dir, "a.txt"), "1\n2\n3\n");
+    git("add", "a.txt");
+    commit("feat: two");
+    const log = commitLog(dir)!;
+    expect(log.map((e) => [e.message, e.author, e.merge])).toEqual([
+      ["feat: two", "Ada", false],
+      ["fix: one\n\n### Why\nw", "Ada", false],
+    ]);
+    expect(commitLog(dir, "HEAD~1..HEAD")).toHaveLength(1);
+    expect(commitLog(dir, "HEAD", { lines: true })!.map((e) => e.lines)).toEqual([3, 0]);
+    expect(commitLog(dir, "nope")).toBeNull();
+  });
+});
+
+describe("gitRoot", () => {
+  beforeEach(() => {
+    dir = realpathSync(mkdtempSync(path.join(tmpdir(), "muselet-git-")));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("finds the top of the work tree from a subdirectory", () => {
+    git("init", "-q");
+    mkdirSync(path.join(dir, "packages", "api"), { recursive: true });
+    expect(gitRoot(path.join(dir, "packages", "api"))).toBe(dir);
+  });
+
+  it("returns null outside a repository", () => {
+    expect(gitRoot(dir)).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { execFileSync } from "node:child_process";
+
+function git(cwd: string, args: string[], maxBuffer?: number): string | null {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      ...(maxBuffer ? { maxBuffer } : {}),
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The branch `origin/HEAD` points at, e.g. "main" or "develop". Falls back
+ * to "main" when the remote head isn't known (no remote, or a clone made
+ * without `--set-head`).
+ */
+export function defaultBranch(cwd: string): string {
+  const ref = git(cwd, ["symbolic-ref", "refs/remotes/origin/HEAD"]);
+  return ref?.replace(/^refs\/remotes\/origin\//, "") || "main";
+}
+
+/** Resolve a path inside the git directory, e.g. "hooks" (honours `core.hooksPath`). */
+export function gitPath(cwd: string, name: string): string | null {
+  return git(cwd, ["rev-parse", "--git-path", name]);
+}
+
+/** The URL of the `origin` remote, if any. */
+export function originUrl(cwd: string): string | null {
+  return git(cwd, ["remote", "get-url", "origin"]) || null;
+}
+
+/** The top of the work tree containing `cwd`, or `null` outside a repository. */
+export function gitRoot(cwd: string): string | null {
+  return git(cwd, ["rev-parse", "--show-toplevel"]) || null;
+}
+
+/** The repository's own `core.hooksPath` setting, ignoring global config. */
+export function localHooksPath(cwd: string): string | null {
+  return git(cwd, ["config", "--local", "--get", "core.hooksPath"]) || null;
+}
+
+/** Set the repository's `core.hooksPath`, or unset it for `null`. */
+export function setLocalHooksPath(cwd: string, value: string | null): void {
+  git(cwd, value === null
+    ? ["config", "--local", "--unset", "core.hooksPath"]
+    : ["config", "--local", "core.hooksPath", value]);
+}
+
+/**
+ * The character git starts comment lines with in message files
+ * (`core.commentChar`). "auto" picks one per message, which a hook can't
+ * know, so it's taken as git's default "#".
+ */
+export function commentChar(cwd: string): string {
+  const value = git(cwd, ["config", "core.commentChar"]);
+  return value && value !== "auto" ? value : "#";
+}
+
+export interface LogEntry {
+  hash: string;
+  /** More than one parent. */
+  merge: boolean;
+  author: string;
+  /** Author date, ISO 8601. */
+  date: string;
+  message: string;
+  /** Lines added plus removed, when asked for. */
+  lines?: number;
+}
+
+/**
+ * The commits in `range` (anything `git log` accepts), newest first, or
+ * `null` when git can't read it: not a repository, no commits yet, or an
+ * unknown revision. `lines` also counts each commit's changed lines, which
+ * takes a diff per commit.
+ */
+export function commitLog(cwd: string, range = "HEAD", { lines = false } = {}): LogEntry[] | null {
+  // Unit and record separators can't appear in what git prints here. The
+  // numstat lines follow each record's last separator.
+  const format = "--format=%x1e%H%x1f%P%x1f%an%x1f%aI%x1f%B%x1f";
+  const out = git(cwd, ["log", format, ...(lines ? ["--numstat"] : []), range, "--"], 512 * 1024 * 1024);
+  if (out === null) return null;
+  return out
+    .split("\x1e")
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [hash, parents, author, date, message, stat] = record.split("\x1f");
+      const entry: LogEntry = { hash, merge: parents.split(" ").length > 1, author, date, message: message.trim() };
+      if (lines) {
+        entry.lines = stat.split("\n").reduce((sum, line) => {
+          const [added, removed] = line.split("\t");
+          return sum + (Number(added) || 0) + (Number(removed) || 0);
+        }, 0);
+      }
+      return entry;
+    });
+}
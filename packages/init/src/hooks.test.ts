@@ -0,0 +1,329 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import yaml from "js-yaml";
+import { COMMITLINT_HOOK, commitlintCommand, detectHookManager, planHook, scaffoldCommand } from "./hooks.js";
+
+// Config passed through the environment (e.g. a CI-wide core.hooksPath)
+// would override the repositories these tests create.
+for (const key of Object.keys(process.env)) {
+  if (/^GIT_CONFIG_(COUNT|KEY_\d+|VALUE_\d+)$/.test(key)) delete process.env[key];
+}
+
+let dir: string;
+
+function write(file: string, content: string): void {
+  mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  writeFileSync(path.join(dir, file), content);
+}
+
+function writeJson(file: string, data: unknown): void {
+  write(file, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+const git = (...args: string[]) => execFileSync("git", args, { cwd: dir, encoding: "utf-8" });
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "muselet-hooks-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("detectHookManager", () => {
+  it("returns null when there is none", () => {
+    writeJson("package.json", { name: "app" });
+    expect(detectHookManager(dir)).toBeNull();
+  });
+
+  it.each([
+    [".husky/pre-commit", "husky"],
+    ["lefthook.yml", "lefthook"],
+    [".lefthook.yaml", "lefthook"],
+    [".simple-git-hooks.json", "simple-git-hooks"],
+    [".pre-commit-config.yaml", "pre-commit"],
+  ])("detects %s", (file, manager) => {
+    write(file, "");
+    expect(detectHookManager(dir)).toBe(manager);
+  });
+
+  it("detects managers from package.json", () => {
+    writeJson("package.json", { "simple-git-hooks": { "pre-commit": "npx lint-staged" } });
+    expect(detectHookManager(dir)).toBe("simple-git-hooks");
+    writeJson("package.json", { devDependencies: { lefthook: "^1.0.0" } });
+    expect(detectHookManager(dir)).toBe("lefthook");
+  });
+});
+
+describe("planHook", () => {
+  it("adds a husky hook without touching pre-commit", () => {
+    writeJson("package.json", { name: "app", scripts: { prepare: "tsc" } });
+    write(".husky/pre-commit", "npm test\n");
+    const plan = planHook(dir, "husky");
+    expect(plan.deps).toEqual(["husky"]);
+    expect(plan.commands).toEqual(["npx husky"]);
+    expect(plan.writes.map((w) => w.file)).toEqual([".husky/commit-msg", "package.json"]);
+    expect(plan.writes[0]).toMatchObject({ after: `${COMMITLINT_HOOK}\n`, mode: 0o755 });
+    expect(JSON.parse(plan.writes[1].after).scripts.prepare).toBe("tsc && husky");
+  });
+
+  it("leaves a husky hook that already runs commitlint", () => {
+    writeJson("package.json", { scripts: { prepare: "husky" }, devDependencies: { husky: "^9" } });
+    write(".husky/commit-msg", "npx commitlint --edit $1\n");
+    mkdirSync(path.join(dir, ".husky", "_"));
+    const plan = planHook(dir, "husky");
+    expect(plan).toMatchObject({ deps: [], writes: [], commands: [] });
+    expect(plan.summary).toBe("✓ .husky/commit-msg already runs commitlint");
+  });
+
+  it("appends a commit-msg block to lefthook.yml", () => {
+    const before = "# hooks\npre-commit:\n  commands:\n    lint:\n      run: npm run lint\n";
+    write("lefthook.yml", before);
+    const [edit] = planHook(dir, "lefthook").writes;
+    expect(edit.after.startsWith(before)).toBe(true);
+    expect(yaml.load(edit.after)).toMatchObject({
+      "commit-msg": { commands: { commitlint: { run: "npx --no -- commitlint --edit {1}" } } },
+      "pre-commit": { commands: { lint: { run: "npm run lint" } } },
+    });
+  });
+
+  it("merges into an existing lefthook commit-msg hook", () => {
+    write("lefthook.yml", "commit-msg:\n  commands:\n    spell:\n      run: cspell {1}\n");
+    const [edit] = planHook(dir, "lefthook").writes;
+    expect(yaml.load(edit.after)).toEqual({
+      "commit-msg": {
+        commands: {
+          spell: { run: "cspell {1}" },
+          commitlint: { run: "npx --no -- commitlint --edit {1}" },
+        },
+      },
+    });
+  });
+
+  it("keeps comments and layout when merging into a lefthook hook", () => {
+    const before = [
+      "# Shared hooks; see CONTRIBUTING.md",
+      "commit-msg:",
+      "    parallel: true # spell check alongside",
+      "    commands:",
+      "        spell:",
+      "            run: cspell {1}",
+      "",
+      "# formatting",
+      "pre-commit:",
+      "    commands:",
+      "        fmt:",
+      "            run: prettier --check .",
+      "",
+    ].join("\n");
+    write("lefthook.yml", before);
+    const [edit] = planHook(dir, "lefthook", "", { scaffold: true }).writes;
+    expect(edit.after).toBe(
+      [
+        "# Shared hooks; see CONTRIBUTING.md",
+        "commit-msg:",
+        "    parallel: true # spell check alongside",
+        "    commands:",
+        "        spell:",
+        "            run: cspell {1}",
+        "        commitlint:",
+        "            run: npx --no -- commitlint --edit {1}",
+        "",
+        "# formatting",
+        "pre-commit:",
+        "    commands:",
+        "        fmt:",
+        "            run: prettier --check .",
+        "",
+        "prepare-commit-msg:",
+        "  commands:",
+        "    muselet-scaffold:",
+        "      run: npx --no -- muselet scaffold {1} {2}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("adds a commands block to a lefthook hook without one", () => {
+    write("lefthook.yml", "commit-msg:\n  # scripts run first\n  scripts:\n    check.sh:\n      runner: bash\n");
+    const [edit] = planHook(dir, "lefthook").writes;
+    expect(edit.after).toBe(
+      "commit-msg:\n  # scripts run first\n  scripts:\n    check.sh:\n      runner: bash\n  commands:\n    commitlint:\n      run: npx --no -- commitlint --edit {1}\n",
+    );
+  });
+
+  it("asks for a lefthook hook in flow style to be edited by hand", () => {
+    write("lefthook.yml", "commit-msg: { commands: {} }\n");
+    const plan = planHook(dir, "lefthook");
+    expect(plan.writes).toEqual([]);
+    expect(plan.manual).toContain("commit-msg:\n  commands:\n    commitlint:");
+  });
+
+  it("asks for lefthook TOML configs to be edited by hand", () => {
+    write("lefthook.toml", "");
+    const plan = planHook(dir, "lefthook");
+    expect(plan.writes).toEqual([]);
+    expect(plan.manual).toContain("[commit-msg.commands.commitlint]");
+  });
+
+  it("chains simple-git-hooks commands in package.json", () => {
+    writeJson("package.json", {
+      devDependencies: { "simple-git-hooks": "^2" },
+      "simple-git-hooks": { "commit-msg": "npx cspell $1" },
+    });
+    const plan = planHook(dir, "simple-git-hooks");
+    expect(plan.commands).toEqual(["npx simple-git-hooks"]);
+    expect(JSON.parse(plan.writes[0].after)["simple-git-hooks"]).toEqual({
+      "commit-msg": "npx cspell $1 && npx --no -- commitlint --edit $1",
+    });
+  });
+
+  it("adds a local repo to the pre-commit config, keeping comments", () => {
+    const before = [
+      "# Python tooling",
+      "repos:",
+      "  - repo: https://github.com/psf/black",
+      "    rev: 24.1.0",
+      "    hooks:",
+      "      - id: black",
+      "default_stages: [pre-commit]",
+      "",
+    ].join("\n");
+    write(".pre-commit-config.yaml", before);
+    const plan = planHook(dir, "pre-commit");
+    expect(plan.deps).toEqual([]);
+    expect(plan.commands).toEqual(["pre-commit install --hook-type commit-msg"]);
+    const { after } = plan.writes[0];
+    expect(after).toContain("# Python tooling");
+    expect(yaml.load(after)).toEqual({
+      repos: [
+        { repo: "https://github.com/psf/black", rev: "24.1.0", hooks: [{ id: "black" }] },
+        {
+          repo: "local",
+          hooks: [
+            {
+              id: "commitlint",
+              name: "commitlint (muselet)",
+              entry: "commitlint --edit",
+              language: "node",
+              stages: ["commit-msg"],
+              additional_dependencies: [
+                "@commitlint/cli",
+                "@commitlint/config-conventional",
+                "@muselet/commitlint-plugin",
+              ],
+            },
+          ],
+        },
+      ],
+      default_stages: ["pre-commit"],
+    });
+  });
+
+  it("writes a plain git hook", () => {
+    git("init", "-q");
+    const plan = planHook(dir, "git");
+    expect(plan.writes).toEqual([
+      {
+        file: path.join(".git", "hooks", "commit-msg"),
+        before: "",
+        after: `#!/bin/sh\n${COMMITLINT_HOOK}\n`,
+        mode: 0o755,
+      },
+    ]);
+  });
+
+  it("follows core.hooksPath", () => {
+    git("init", "-q");
+    git("config", "core.hooksPath", ".githooks");
+    write(".githooks/commit-msg", "#!/bin/sh\n./scripts/check-msg \"$1\"\n");
+    const [edit] = planHook(dir, "git").writes;
+    expect(edit.file).toBe(path.join(".githooks", "commit-msg"));
+    expect(edit.after).toBe(`#!/bin/sh\n./scripts/check-msg "$1"\n${COMMITLINT_HOOK}\n`);
+  });
+
+  it("points the hook at a project below the git root", () => {
+    git("init", "-q");
+    writeJson("web/package.json", { name: "web", scripts: {} });
+    const plan = planHook(dir, "husky", "web");
+    expect(plan.commands).toEqual(["cd .. && web/node_modules/.bin/husky"]);
+    expect(plan.writes.map((w) => w.file)).toEqual([".husky/commit-msg", "web/package.json"]);
+    expect(plan.writes[0].after).toBe('web/node_modules/.bin/commitlint --cwd web --edit "$1"\n');
+    expect(JSON.parse(plan.writes[1].after).scripts.prepare).toBe("cd .. && husky");
+
+    const [edit] = planHook(dir, "git", "web").writes;
+    expect(edit.after).toBe(`#!/bin/sh\n${commitlintCommand("web")}\n`);
+  });
+
+  it("runs muselet fix before commitlint with autofix", () => {
+    git("init", "-q");
+    writeJson("package.json", { name: "app" });
+    const plan = planHook(dir, "husky", "", { autofix: true });
+    expect(plan.writes[0].after).toBe('npx --no -- muselet fix "$1" && npx --no -- commitlint --edit "$1"\n');
+    expect(plan.deps).toEqual(["husky", "@muselet/init"]);
+    expect(commitlintCommand("web", "{1}", { autofix: true })).toBe(
+      "web/node_modules/.bin/muselet fix --cwd web {1} && web/node_modules/.bin/commitlint --cwd web --edit {1}",
+    );
+
+    const preCommit = planHook(dir, "pre-commit", "", { autofix: true });
+    const hooks = (yaml.load(preCommit.writes[0].after) as { repos: { hooks: { id: string }[] }[] }).repos[0].hooks;
+    expect(hooks.map((h) => h.id)).toEqual(["muselet-fix", "commitlint"]);
+    expect(preCommit.deps).toEqual([]);
+  });
+
+  it("adds a prepare-commit-msg hook running muselet scaffold with scaffold", () => {
+    git("init", "-q");
+    writeJson("package.json", { name: "app", devDependencies: { husky: "^9" } });
+    const husky = planHook(dir, "husky", "", { scaffold: true });
+    expect(husky.writes.find((w) => w.file === ".husky/prepare-commit-msg")).toMatchObject({
+      after: 'npx --no -- muselet scaffold "$1" "$2"\n',
+      mode: 0o755,
+    });
+    expect(husky.scaffold).toBe("Add prepare-commit-msg hook to .husky/prepare-commit-msg");
+    expect(husky.deps).toEqual(["@muselet/init"]);
+
+    const gitPlan = planHook(dir, "git", "web", { scaffold: true });
+    expect(gitPlan.writes[1]).toMatchObject({
+      file: path.join(".git", "hooks", "prepare-commit-msg"),
+      after: `#!/bin/sh\n${scaffoldCommand("web")}\n`,
+    });
+  });
+
+  it("adds the scaffold command to the same lefthook and simple-git-hooks edit", () => {
+    write("lefthook.yml", "commit-msg:\n  commands:\n    commitlint:\n      run: npx commitlint --edit {1}\n");
+    const lefthook = planHook(dir, "lefthook", "", { scaffold: true });
+    expect(lefthook.commands).toEqual(["npx lefthook install"]);
+    expect(yaml.load(lefthook.writes[0].after)).toMatchObject({
+      "prepare-commit-msg": { commands: { "muselet-scaffold": { run: "npx --no -- muselet scaffold {1} {2}" } } },
+    });
+
+    writeJson(".simple-git-hooks.json", {});
+    const simple = planHook(dir, "simple-git-hooks", "", { scaffold: true });
+    expect(simple.writes).toHaveLength(1);
+    expect(JSON.parse(simple.writes[0].after)).toEqual({
+      "commit-msg": "npx --no -- commitlint --edit $1",
+      "prepare-commit-msg": "npx --no -- muselet scaffold $1 $2",
+    });
+    write(".simple-git-hooks.json", simple.writes[0].after);
+    expect(planHook(dir, "simple-git-hooks", "", { scaffold: true }).scaffold).toMatch(/already runs muselet scaffold/);
+  });
+
+  it("adds a prepare-commit-msg stage hook to the pre-commit config", () => {
+    const plan = planHook(dir, "pre-commit", "", { scaffold: true });
+    const hooks = (yaml.load(plan.writes[0].after) as { repos: { hooks: { id: string; stages: string[] }[] }[] }).repos[0].hooks;
+    expect(hooks.map((h) => [h.id, h.stages])).toEqual([
+      ["commitlint", ["commit-msg"]],
+      ["muselet-scaffold", ["prepare-commit-msg"]],
+    ]);
+    expect(plan.commands).toEqual(["pre-commit install --hook-type commit-msg --hook-type prepare-commit-msg"]);
+  });
+
+  it("explains what to do outside a git repository", () => {
+    const plan = planHook(dir, "git");
+    expect(plan.writes).toEqual([]);
+    expect(plan.manual).toMatch(/^Not a git repository/);
+  });
+});
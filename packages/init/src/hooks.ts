@@ -0,0 +1,638 @@
+import path from "node:path";
+import { existsSync, readFileSync } from "node:fs";
+import type { ConfigEdit } from "./config-file.js";
+import { gitPath } from "./git.js";
+
+export type HookManager = "husky" | "lefthook" | "simple-git-hooks" | "pre-commit" | "git";
+
+export const HOOK_MANAGERS: readonly HookManager[] = [
+  "husky",
+  "lefthook",
+  "simple-git-hooks",
+  "pre-commit",
+  "git",
+];
+
+export interface HookOptions {
+  /** Run `muselet fix` on the message before commitlint. */
+  autofix?: boolean;
+  /** Also add a prepare-commit-msg hook running `muselet scaffold`. */
+  scaffold?: boolean;
+}
+
+/** The `muselet fix` command, run from the git root like commitlint. */
+export function fixCommand(packageDir = "", file = '"$1"'): string {
+  if (!packageDir) return `npx --no -- muselet fix ${file}`;
+  return `${packageDir}/node_modules/.bin/muselet fix --cwd ${packageDir} ${file}`;
+}
+
+/**
+ * The prepare-commit-msg command, run from the git root with the message
+ * file and its source as `args`.
+ */
+export function scaffoldCommand(packageDir = "", args = '"$1" "$2"'): string {
+  if (!packageDir) return `npx --no -- muselet scaffold ${args}`;
+  return `${packageDir}/node_modules/.bin/muselet scaffold --cwd ${packageDir} ${args}`;
+}
+
+/**
+ * The commit-msg command, run from the git root with the message file as
+ * `file`. A project below the git root has its own commitlint install and
+ * config, so the command points at both. With `autofix`, `muselet fix`
+ * rewrites the message first.
+ */
+export function commitlintCommand(packageDir = "", file = '"$1"', { autofix = false }: HookOptions = {}): string {
+  const lint = packageDir
+    ? `${packageDir}/node_modules/.bin/commitlint --cwd ${packageDir} --edit ${file}`
+    : `npx --no -- commitlint --edit ${file}`;
+  return autofix ? `${fixCommand(packageDir, file)} && ${lint}` : lint;
+}
+
+/** The commit-msg command, as a shell line receiving the message file as `$1`. */
+export const COMMITLINT_HOOK = commitlintCommand();
+
+/** The package with the `muselet` CLI, for `muselet fix` and `muselet scaffold`. */
+const FIX_DEP = "@muselet/init";
+
+const COMMITLINT_DEPS = [
+  "@commitlint/cli",
+  "@commitlint/config-conventional",
+  "@muselet/commitlint-plugin",
+];
+
+export interface FileWrite extends ConfigEdit {
+  /** File mode for new files, e.g. 0o755 for hook scripts. */
+  mode?: number;
+}
+
+export interface HookPlan {
+  manager: HookManager;
+  /** The manager's config file, relative to the git root. */
+  file?: string;
+  /** Dev dependencies the manager needs installed. */
+  deps: string[];
+  /** Files to write, relative to the git root. */
+  writes: FileWrite[];
+  /** Commands that activate the hook once the files are written, run from the project root. */
+  commands: string[];
+  /** One line for the setup recap. */
+  summary: string;
+  /** The recap line for the prepare-commit-msg hook, when one is planned. */
+  scaffold?: string;
+  /** Set when the hook has to be added by hand; explains how. */
+  manual?: string;
+}
+
+const LEFTHOOK_FILES = [
+  "lefthook.yml",
+  "lefthook.yaml",
+  ".lefthook.yml",
+  ".lefthook.yaml",
+  "lefthook.json",
+  ".lefthook.json",
+  "lefthook.toml",
+  ".lefthook.toml",
+];
+
+const SIMPLE_GIT_HOOKS_FILES = [
+  ".simple-git-hooks.json",
+  "simple-git-hooks.json",
+  ".simple-git-hooks.js",
+  ".simple-git-hooks.cjs",
+  ".simple-git-hooks.mjs",
+  "simple-git-hooks.js",
+  "simple-git-hooks.cjs",
+  "simple-git-hooks.mjs",
+];
+
+const PRE_COMMIT_FILE = ".pre-commit-config.yaml";
+
+type PackageJson = Record<string, unknown> & {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+};
+
+function readPackageJson(cwd: string): PackageJson | null {
+  try {
+    return JSON.parse(readFileSync(path.join(cwd, "package.json"), "utf-8")) as PackageJson;
+  } catch {
+    return null;
+  }
+}
+
+function hasDependency(pkg: PackageJson | null, name: string): boolean {
+  return Boolean(pkg?.dependencies?.[name] ?? pkg?.devDependencies?.[name]);
+}
+
+function readOr(cwd: string, file: string): string {
+  const abs = path.join(cwd, file);
+  return existsSync(abs) ? readFileSync(abs, "utf-8") : "";
+}
+
+function firstExisting(cwd: string, files: readonly string[]): string | undefined {
+  return files.find((file) => existsSync(path.join(cwd, file)));
+}
+
+function detectIndent(source: string): string {
+  return /^([ \t]+)\S/m.exec(source)?.[1] ?? "  ";
+}
+
+/**
+ * Find the hook manager a repo already uses, by its config files first
+ * and its dependencies second. Returns `null` when there is none.
+ */
+export function detectHookManager(cwd: string): HookManager | null {
+  const pkg = readPackageJson(cwd);
+  if (existsSync(path.join(cwd, ".husky"))) return "husky";
+  if (firstExisting(cwd, LEFTHOOK_FILES)) return "lefthook";
+  if (pkg?.["simple-git-hooks"] || firstExisting(cwd, SIMPLE_GIT_HOOKS_FILES)) {
+    return "simple-git-hooks";
+  }
+  if (existsSync(path.join(cwd, PRE_COMMIT_FILE))) return "pre-commit";
+  if (hasDependency(pkg, "husky")) return "husky";
+  if (hasDependency(pkg, "lefthook")) return "lefthook";
+  if (hasDependency(pkg, "simple-git-hooks")) return "simple-git-hooks";
+  return null;
+}
+
+/** Append a command to a hook script, creating it with a shebang if needed. */
+function hookScript(before: string, shebang: boolean, command: string): string {
+  if (!before) return `${shebang ? "#!/bin/sh\n" : ""}${command}\n`;
+  return `${before.replace(/\n*$/, "\n")}${command}\n`;
+}
+
+/** The way back up from `packageDir` to the git root, e.g. "../..". */
+function upFrom(packageDir: string): string {
+  return packageDir.split("/").map(() => "..").join("/");
+}
+
+/**
+ * The command that makes git run the manager's hooks, run from the project
+ * root. Plain git hooks need none.
+ */
+export function activationCommand(manager: HookManager, packageDir = ""): string | null {
+  switch (manager) {
+    case "husky":
+      // husky has to run from the git root, which a nested project cds up to.
+      return packageDir ? `cd ${upFrom(packageDir)} && ${packageDir}/node_modules/.bin/husky` : "npx husky";
+    case "lefthook":
+      return "npx lefthook install";
+    case "simple-git-hooks":
+      return "npx simple-git-hooks";
+    case "pre-commit":
+      return "pre-commit install --hook-type commit-msg";
+    case "git":
+      return null;
+  }
+}
+
+function simpleGitHooksFile(cwd: string, packageDir: string): string {
+  // simple-git-hooks reads its config from the project that installs it.
+  const projectDir = path.join(cwd, packageDir);
+  const local = readPackageJson(projectDir)?.["simple-git-hooks"]
+    ? "package.json"
+    : firstExisting(projectDir, SIMPLE_GIT_HOOKS_FILES) ?? "package.json";
+  return path.posix.join(packageDir, local);
+}
+
+/**
+ * The file that runs (or should run) commitlint for the manager, relative
+ * to the git root. `null` for plain git hooks outside a repository.
+ */
+export function hookSourceFile(cwd: string, manager: HookManager, packageDir = ""): string | null {
+  switch (manager) {
+    case "husky":
+      return ".husky/commit-msg";
+    case "lefthook":
+      return firstExisting(cwd, LEFTHOOK_FILES) ?? "lefthook.yml";
+    case "simple-git-hooks":
+      return simpleGitHooksFile(cwd, packageDir);
+    case "pre-commit":
+      return PRE_COMMIT_FILE;
+    case "git":
+      return gitHookFile(cwd, "commit-msg");
+  }
+}
+
+/** A hook script in the hooks directory git uses, relative to `cwd`. */
+export function gitHookFile(cwd: string, hook: string): string | null {
+  const dir = gitHooksDir(cwd);
+  return dir && path.join(dir, hook);
+}
+
+function planHusky(cwd: string, packageDir: string, options: HookOptions): HookPlan {
+  const pkg = readPackageJson(path.join(cwd, packageDir));
+  const hookFile = hookSourceFile(cwd, "husky")!;
+  const before = readOr(cwd, hookFile);
+  const writes: FileWrite[] = [];
+
+  if (!before.includes("commitlint")) {
+    // husky v9 scripts need no shebang.
+    writes.push({ file: hookFile, before, after: hookScript(before, false, commitlintCommand(packageDir, '"$1"', options)), mode: 0o755 });
+  }
+
+  // `husky init` would also write a pre-commit hook running `npm test`;
+  // wire up the prepare script by hand instead so no other hook changes.
+  const husky = packageDir ? `cd ${upFrom(packageDir)} && husky` : "husky";
+  const prepare = pkg?.scripts?.prepare;
+  if (pkg && !prepare?.includes("husky")) {
+    const file = path.posix.join(packageDir, "package.json");
+    const source = readFileSync(path.join(cwd, file), "utf-8");
+    const scripts = { ...pkg.scripts, prepare: prepare ? `${prepare} && ${husky}` : husky };
+    writes.push({
+      file,
+      before: source,
+      after: `${JSON.stringify({ ...pkg, scripts }, null, detectIndent(source))}\n`,
+    });
+  }
+
+  const active = existsSync(path.join(cwd, ".husky", "_"));
+  return {
+    manager: "husky",
+    deps: hasDependency(pkg, "husky") ? [] : ["husky"],
+    writes,
+    commands: active ? [] : [activationCommand("husky", packageDir)!],
+    summary: writes.some((w) => w.file === hookFile)
+      ? `Add commit-msg hook to ${hookFile}`
+      : `✓ ${hookFile} already runs commitlint`,
+  };
+}
+
+function planLefthook(cwd: string, packageDir: string, options: HookOptions): HookPlan {
+  const file = hookSourceFile(cwd, "lefthook")!;
+  const before = readOr(cwd, file);
+  const plan: HookPlan = {
+    manager: "lefthook",
+    file,
+    deps: hasDependency(readPackageJson(path.join(cwd, packageDir)), "lefthook") ? [] : ["lefthook"],
+    writes: [],
+    commands: [activationCommand("lefthook")!],
+    summary: `Add commit-msg command to ${file}`,
+  };
+  const run = commitlintCommand(packageDir, "{1}", options);
+
+  if (before.includes("commitlint")) {
+    return { ...plan, commands: [], summary: `✓ ${file} already runs commitlint` };
+  }
+  const after = file.endsWith(".toml") ? null : addLefthookCommand(before, file, "commit-msg", "commitlint", run);
+  if (after === null) {
+    return {
+      ...plan,
+      commands: [],
+      summary: `Add commit-msg command to ${file} by hand`,
+      manual: lefthookManual(file, "commit-msg", "commitlint", run),
+    };
+  }
+  return { ...plan, writes: [{ file, before, after }] };
+}
+
+function lefthookManual(file: string, hook: string, name: string, run: string): string {
+  if (file.endsWith(".toml")) return `Add to ${file}:\n\n[${hook}.commands.${name}]\nrun = "${run}"`;
+  return `Add to ${file}, under ${hook}:\n\n${hook}:\n  commands:\n    ${name}:\n      run: ${run}`;
+}
+
+const indentOf = (line: string) => /^\s*/.exec(line)![0];
+
+/** Lines after `start` indented deeper than `indent`, up to the last such non-blank line. */
+function blockEnd(lines: string[], start: number, indent: number): number {
+  let end = start + 1;
+  for (let i = start + 1; i < lines.length; i++) {
+    if (lines[i].trim() === "") continue;
+    if (indentOf(lines[i]).length <= indent) break;
+    end = i + 1;
+  }
+  return end;
+}
+
+/**
+ * Add a command under a hook that a lefthook YAML config already has, as
+ * text, so the file's comments and layout are kept. Returns null when the
+ * hook isn't written as a plain block (e.g. `commit-msg: {}`).
+ */
+function insertLefthookCommand(before: string, hook: string, name: string, run: string): string | null {
+  const lines = before.split("\n");
+  const hookLine = lines.findIndex((line) => new RegExp(`^${hook}:\\s*(#.*)?$`).test(line));
+  if (hookLine === -1) return null;
+  const hookEnd = blockEnd(lines, hookLine, 0);
+  const child = lines.slice(hookLine + 1, hookEnd).find((line) => /^\s+[^\s#]/.test(line));
+  const step = child ? indentOf(child) : "  ";
+
+  const commandsLine = lines.findIndex((line, i) => i > hookLine && i < hookEnd && line.startsWith(`${step}commands:`));
+  let at: number;
+  let insert: string[];
+  if (commandsLine === -1) {
+    at = hookEnd;
+    insert = [`${step}commands:`, `${step}${step}${name}:`, `${step.repeat(3)}run: ${run}`];
+  } else {
+    if (!/^\s*commands:\s*(#.*)?$/.test(lines[commandsLine])) return null;
+    at = blockEnd(lines, commandsLine, step.length);
+    const command = lines.slice(commandsLine + 1, at).find((line) => /^\s+[^\s#]/.test(line));
+    const indent = command ? indentOf(command) : step.repeat(2);
+    insert = [`${indent}${name}:`, `${indent}${step}run: ${run}`];
+  }
+  return [...lines.slice(0, at), ...insert, ...lines.slice(at)].join("\n");
+}
+
+/**
+ * Add a command to a hook in a YAML or JSON lefthook config. YAML is edited
+ * as text, keeping comments and layout; null when that isn't possible.
+ */
+function addLefthookCommand(before: string, file: string, hook: string, name: string, run: string): string | null {
+  if (file.endsWith(".json")) {
+    const data = JSON.parse(before || "{}") as Record<string, { commands?: Record<string, unknown> }>;
+    const existing = data[hook] ?? {};
+    data[hook] = { ...existing, commands: { ...existing.commands, [name]: { run } } };
+    return `${JSON.stringify(data, null, detectIndent(before))}\n`;
+  }
+  if (!new RegExp(`^${hook}:`, "m").test(before)) {
+    const block = `${hook}:\n  commands:\n    ${name}:\n      run: ${run}\n`;
+    return before ? `${before.replace(/\n*$/, "\n")}\n${block}` : block;
+  }
+  return insertLefthookCommand(before, hook, name, run);
+}
+
+function planSimpleGitHooks(cwd: string, packageDir: string, options: HookOptions): HookPlan {
+  const pkg = readPackageJson(path.join(cwd, packageDir));
+  const file = simpleGitHooksFile(cwd, packageDir);
+  const isPackageJson = path.posix.basename(file) === "package.json";
+  const command = commitlintCommand(packageDir, "$1", options);
+  const plan: HookPlan = {
+    manager: "simple-git-hooks",
+    file,
+    deps: hasDependency(pkg, "simple-git-hooks") ? [] : ["simple-git-hooks"],
+    writes: [],
+    // simple-git-hooks only reads its config when asked to.
+    commands: [activationCommand("simple-git-hooks")!],
+    summary: `Add commit-msg hook to ${file}`,
+  };
+
+  if (!file.endsWith(".json")) {
+    return {
+      ...plan,
+      commands: [],
+      summary: `Add commit-msg hook to ${file} by hand`,
+      manual: `Add to ${file}:\n\n"commit-msg": "${command}"`,
+    };
+  }
+
+  const before = readOr(cwd, file);
+  if (simpleGitHooks(before, isPackageJson)["commit-msg"]?.includes("commitlint")) {
+    return { ...plan, commands: [], summary: `✓ ${file} already runs commitlint` };
+  }
+  return { ...plan, writes: [{ file, before, after: addSimpleGitHook(before, isPackageJson, "commit-msg", command) }] };
+}
+
+function simpleGitHooks(source: string, isPackageJson: boolean): Record<string, string> {
+  const data = JSON.parse(source || "{}") as Record<string, unknown>;
+  return (isPackageJson ? data["simple-git-hooks"] ?? {} : data) as Record<string, string>;
+}
+
+/** Add a command to a hook in a simple-git-hooks JSON config, after any it already runs. */
+function addSimpleGitHook(before: string, isPackageJson: boolean, hook: string, command: string): string {
+  const data = JSON.parse(before || "{}") as Record<string, unknown>;
+  const hooks = simpleGitHooks(before, isPackageJson);
+  const existing = hooks[hook];
+  const updated = { ...hooks, [hook]: existing ? `${existing} && ${command}` : command };
+  const after = isPackageJson ? { ...data, "simple-git-hooks": updated } : updated;
+  return `${JSON.stringify(after, null, detectIndent(before))}\n`;
+}
+
+function preCommitEntry(indent: string, packageDir: string, { autofix = false, scaffold = false }: HookOptions, lint = true): string {
+  const cwd = packageDir ? ` --cwd ${packageDir}` : "";
+  const lines = [
+    "- repo: local",
+    "  hooks:",
+    // pre-commit runs a repo's hooks in order, so the fix comes first.
+    ...(lint && autofix
+      ? [
+        "    - id: muselet-fix",
+        "      name: muselet fix",
+        `      entry: muselet fix${cwd}`,
+        "      language: node",
+        "      stages: [commit-msg]",
+        "      additional_dependencies:",
+        `        - "${FIX_DEP}"`,
+      ]
+      : []),
+    ...(lint
+      ? [
+        "    - id: commitlint",
+        "      name: commitlint (muselet)",
+        `      entry: commitlint${cwd} --edit`,
+        "      language: node",
+        "      stages: [commit-msg]",
+        "      additional_dependencies:",
+        ...COMMITLINT_DEPS.map((dep) => `        - "${dep}"`),
+      ]
+      : []),
+    // pre-commit passes the message source in PRE_COMMIT_COMMIT_MSG_SOURCE.
+    ...(scaffold
+      ? [
+        "    - id: muselet-scaffold",
+        "      name: muselet scaffold",
+        `      entry: muselet scaffold${cwd}`,
+        "      language: node",
+        "      stages: [prepare-commit-msg]",
+        "      additional_dependencies:",
+        `        - "${FIX_DEP}"`,
+      ]
+      : []),
+  ];
+  return lines.map((line) => `${indent}${line}\n`).join("");
+}
+
+/**
+ * Insert a local commitlint hook at the end of the `repos:` list, editing
+ * the text so the rest of the file (comments included) is untouched.
+ */
+function addPreCommitRepo(before: string, packageDir: string, options: HookOptions, lint = true): string {
+  const lines = before.split("\n");
+  const start = lines.findIndex((line) => /^repos:\s*(#.*)?$/.test(line));
+  if (start === -1) {
+    const prefix = before ? `${before.replace(/\n*$/, "\n")}\n` : "";
+    return `${prefix}repos:\n${preCommitEntry("  ", packageDir, options, lint)}`;
+  }
+
+  // The list ends at the next top-level key.
+  let end = start + 1;
+  while (end < lines.length && !/^[^\s#-]/.test(lines[end])) end++;
+  while (end > start + 1 && lines[end - 1].trim() === "") end--;
+
+  const item = lines.slice(start + 1, end).find((line) => /^\s*- /.test(line));
+  const indent = item ? /^(\s*)/.exec(item)![1] : "  ";
+  const entry = preCommitEntry(indent, packageDir, options, lint).replace(/\n$/, "");
+  return [...lines.slice(0, end), entry, ...lines.slice(end)].join("\n");
+}
+
+function planPreCommit(cwd: string, packageDir: string, options: HookOptions): HookPlan {
+  const file = PRE_COMMIT_FILE;
+  const before = readOr(cwd, file);
+  const lint = !before.includes("commitlint");
+  const scaffold = Boolean(options.scaffold) && !before.includes("muselet-scaffold");
+  const commands = [
+    `${activationCommand("pre-commit")!}${options.scaffold ? " --hook-type prepare-commit-msg" : ""}`,
+  ];
+  const plan: HookPlan = {
+    manager: "pre-commit",
+    file,
+    // The hooks install commitlint and muselet in pre-commit's own environment.
+    deps: [],
+    writes: [],
+    commands,
+    summary: lint ? `Add a commitlint hook to ${file}` : `✓ ${file} already runs commitlint`,
+    ...(options.scaffold
+      ? { scaffold: scaffold ? `Add a muselet-scaffold hook to ${file}` : `✓ ${file} already runs muselet scaffold` }
+      : {}),
+  };
+  if (!lint && !scaffold) return plan;
+  return { ...plan, writes: [{ file, before, after: addPreCommitRepo(before, packageDir, { ...options, scaffold }, lint) }] };
+}
+
+/** The hooks directory git uses, relative to `cwd`. */
+function gitHooksDir(cwd: string): string | null {
+  const dir = gitPath(cwd, "hooks");
+  return dir === null ? null : path.relative(cwd, path.resolve(cwd, dir)) || ".";
+}
+
+function planGitHook(cwd: string, packageDir: string, options: HookOptions): HookPlan {
+  const file = hookSourceFile(cwd, "git");
+  if (!file) {
+    return {
+      manager: "git",
+      deps: [],
+      writes: [],
+      commands: [],
+      summary: "Add a commit-msg hook by hand (not a git repository)",
+      manual: `Not a git repository. Once it is, add a commit-msg hook running:\n\n${commitlintCommand(packageDir, '"$1"', options)}`,
+    };
+  }
+  const before = readOr(cwd, file);
+  if (before.includes("commitlint")) {
+    return { manager: "git", file, deps: [], writes: [], commands: [], summary: `✓ ${file} already runs commitlint` };
+  }
+  return {
+    manager: "git",
+    file,
+    deps: [],
+    writes: [{ file, before, after: hookScript(before, true, commitlintCommand(packageDir, '"$1"', options)), mode: 0o755 }],
+    commands: [],
+    summary: `${before ? "Add commitlint to" : "Create"} ${file}`,
+  };
+}
+
+function planFor(cwd: string, manager: HookManager, packageDir: string, options: HookOptions): HookPlan {
+  switch (manager) {
+    case "husky":
+      return planHusky(cwd, packageDir, options);
+    case "lefthook":
+      return planLefthook(cwd, packageDir, options);
+    case "simple-git-hooks":
+      return planSimpleGitHooks(cwd, packageDir, options);
+    case "pre-commit":
+      return planPreCommit(cwd, packageDir, options);
+    case "git":
+      return planGitHook(cwd, packageDir, options);
+  }
+}
+
+/** The write `plan` makes to `file`, added from the file on disk if there's none yet. */
+function writeTo(plan: HookPlan, cwd: string, file: string, mode?: number): FileWrite {
+  let write = plan.writes.find((w) => w.file === file);
+  if (!write) {
+    const before = readOr(cwd, file);
+    write = { file, before, after: before, ...(mode ? { mode } : {}) };
+    plan.writes.push(write);
+  }
+  return write;
+}
+
+/**
+ * Add the prepare-commit-msg hook to a commit-msg plan, on top of any
+ * edit the plan already makes to the same file. pre-commit plans add it
+ * themselves.
+ */
+function addScaffold(cwd: string, plan: HookPlan, packageDir: string): void {
+  const manual = (text: string, summary: string) => {
+    plan.manual = plan.manual ? `${plan.manual}\n\n${text}` : text;
+    plan.scaffold = summary;
+  };
+  const add = (file: string, already: (source: string) => boolean, change: (source: string) => string, mode?: number) => {
+    const current = plan.writes.find((w) => w.file === file)?.after ?? readOr(cwd, file);
+    if (already(current)) {
+      plan.scaffold = `✓ ${file} already runs muselet scaffold`;
+      return;
+    }
+    const write = writeTo(plan, cwd, file, mode);
+    write.after = change(write.after);
+    plan.scaffold = `Add prepare-commit-msg hook to ${file}`;
+    // lefthook and simple-git-hooks only pick up config changes when asked.
+    const activate = activationCommand(plan.manager, packageDir);
+    if (activate && plan.manager !== "husky" && !plan.commands.includes(activate)) plan.commands.push(activate);
+  };
+  const runsScaffold = (source: string) => source.includes("muselet scaffold");
+
+  switch (plan.manager) {
+    case "husky":
+      add(".husky/prepare-commit-msg", runsScaffold, (source) => hookScript(source, false, scaffoldCommand(packageDir)), 0o755);
+      return;
+    case "git": {
+      const file = gitHookFile(cwd, "prepare-commit-msg");
+      if (!file) {
+        manual(`Add a prepare-commit-msg hook running:\n\n${scaffoldCommand(packageDir)}`, "Add a prepare-commit-msg hook by hand");
+        return;
+      }
+      add(file, runsScaffold, (source) => hookScript(source, true, scaffoldCommand(packageDir)), 0o755);
+      return;
+    }
+    case "lefthook": {
+      const file = plan.file!;
+      const run = scaffoldCommand(packageDir, "{1} {2}");
+      const change = (source: string) => addLefthookCommand(source, file, "prepare-commit-msg", "muselet-scaffold", run);
+      const current = plan.writes.find((w) => w.file === file)?.after ?? readOr(cwd, file);
+      if (file.endsWith(".toml") || (!runsScaffold(current) && change(current) === null)) {
+        manual(lefthookManual(file, "prepare-commit-msg", "muselet-scaffold", run), `Add prepare-commit-msg command to ${file} by hand`);
+        return;
+      }
+      add(file, runsScaffold, (source) => change(source)!);
+      return;
+    }
+    case "simple-git-hooks": {
+      const file = plan.file!;
+      const command = scaffoldCommand(packageDir, "$1 $2");
+      if (!file.endsWith(".json")) {
+        manual(`Add to ${file}:\n\n"prepare-commit-msg": "${command}"`, `Add prepare-commit-msg hook to ${file} by hand`);
+        return;
+      }
+      const isPackageJson = path.posix.basename(file) === "package.json";
+      add(
+        file,
+        (source) => runsScaffold(simpleGitHooks(source, isPackageJson)["prepare-commit-msg"] ?? ""),
+        (source) => addSimpleGitHook(source, isPackageJson, "prepare-commit-msg", command),
+      );
+      return;
+    }
+    case "pre-commit":
+      return;
+  }
+}
+
+/**
+ * Work out how to add the commit-msg hook with the given manager, and with
+ * `scaffold` the prepare-commit-msg hook too. `cwd` is the git root, where
+ * hooks live; `packageDir` is the project with the commitlint install,
+ * relative to it ("" when they're the same).
+ */
+export function planHook(cwd: string, manager: HookManager, packageDir = "", options: HookOptions = {}): HookPlan {
+  const plan = planFor(cwd, manager, packageDir, options);
+  if (options.scaffold) addScaffold(cwd, plan, packageDir);
+  // `muselet fix` and `muselet scaffold` come with muselet's CLI;
+  // pre-commit installs it itself.
+  const pkg = readPackageJson(path.join(cwd, packageDir));
+  const runsCli = (text = "") => /muselet (fix|scaffold)/.test(text);
+  const addsCli = plan.writes.some((w) => runsCli(w.after)) || runsCli(plan.manual);
+  if (addsCli && manager !== "pre-commit" && !hasDependency(pkg, FIX_DEP)) {
+    plan.deps.push(FIX_DEP);
+  }
+  return plan;
+}
@@ -1,4 +1,3 @@
-import fs from "node:fs/promises";
 import path from "node:path";
 import { execSync, spawnSync } from "node:child_process";
 import { existsSync, writeFileSync, readFileSync, unlinkSync } from "node:fs";
@@ -14,10 +13,78 @@ import {
   cancel,
   isCancel
 } from "@clack/prompts";
-import { commitlintConfig } from "./templates/commitlint-config.js";
+import {
+  commitlintConfig,
+  DEFAULT_RULE_SETTINGS,
+  LEVEL_NAMES,
+  museletConfigModule,
+  PLUGIN_NAME,
+  type MuseletRule,
+  type RuleLevel,
+  type RuleSetting,
+  type RuleSettings,
+  ruleSettingsFrom,
+} from "./templates/commitlint-config.js";
 import { agentInstructions } from "./templates/agent-instructions.js";
 import {
+  AUDIT_USAGE,
+  DOCTOR_USAGE,
+  FIX_USAGE,
+  parseCommand,
+  SCAFFOLD_USAGE,
+  UNINSTALL_USAGE,
+  USAGE,
+  type InitOptions,
+  type Invocation,
+  type PackageManager,
+} from "./options.js";
+import { doctor } from "./doctor.js";
+import { uninstall } from "./uninstall.js";
+import { fix } from "./fix.js";
+import { scaffold } from "./scaffold.js";
+import { audit } from "./audit.js";
+import {
+  contextRuleValue,
+  findCommitlintConfig,
+  loadCommitlintConfig,
+  mergeCommitlintConfig,
+  replaceCommitlintConfig,
+  type ConfigEdit,
+} from "./config-file.js";
+import { renderDiff } from "./diff.js";
+import { detectCiProvider, hasCiCheck, planCi, type CiPlan } from "./ci.js";
+import { defaultBranch, gitRoot } from "./git.js";
+import { CI_LABELS, CI_PROVIDERS } from "./templates/ci.js";
+import {
+  detectHookManager,
+  HOOK_MANAGERS,
+  gitHookFile,
+  hookSourceFile,
+  planHook,
+  type HookManager,
+  type HookPlan,
+} from "./hooks.js";
+import {
+  detectPackageManager,
+  findProjectRoots,
+  installCmd,
+  installedDependencies,
+  listWorkspacePackages,
+  scopeName,
+  uninstallCmd,
+  withPackageScopes,
+} from "./workspace.js";
+import { createRecorder, type SetupRecorder } from "./manifest.js";
+import { AGENT_BLOCK, agentFileContent, detectAgentFiles } from "./agents.js";
+import { hasManagedBlock } from "./managed-block.js";
+import {
+  commitlintRules,
   DEFAULT_VALUE,
+  findMuseletConfig,
+  loadMuseletConfig,
+  MuseletConfigError,
+  validateRuleValue,
+  type MuseletConfig,
   type RuleValue,
   type SectionConfig,
 } from "@muselet/commitlint-plugin";
@@ -55,31 +122,65 @@ function normalizeSection(value: SectionConfig | string[]): SectionConfig {
   return Array.isArray(value) ? { required: value } : value;
 }
 
-function renderConfigTable(config: RuleValue): string {
-  const header = "Type".padEnd(10) + "Required".padEnd(22) + "Recommended";
-  const sep = "─".repeat(55);
+function describeSetting({ level, when }: RuleSetting): string {
+  if (level === 0) return "off";
+  return when === "never" ? `${LEVEL_NAMES[level]}, never` : LEVEL_NAMES[level];
+}
+
+function renderConfigTable(config: RuleValue, settings: RuleSettings = DEFAULT_RULE_SETTINGS): string {
+  const columns = [
+    "Type",
+    `Required (${describeSetting(settings["context-by-type"])})`,
+    `Recommended (${describeSetting(settings["context-recommended"])})`,
+  ];
   const rows = Object.entries(config).map(([type, raw]) => {
     const section = normalizeSection(raw);
-    const req = (section.required ?? []).join(", ");
-    const rec = (section.recommended ?? []).join(", ");
-    return type.padEnd(10) + req.padEnd(22) + rec;
+    return [type, (section.required ?? []).join(", "), (section.recommended ?? []).join(", ")];
   });
-  return [header, sep, ...rows].join("\n");
+  const widths = columns.map((col, i) =>
+    Math.max(col.length, ...rows.map((row) => row[i].length)) + 2,
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => (i < cells.length - 1 ? cell.padEnd(widths[i]) : cell)).join("").trimEnd();
+  const sep = "─".repeat(widths.reduce((a, b) => a + b, 0));
+  return [line(columns), sep, ...rows.map(line)].join("\n");
 }
 
-function validateConfig(data: unknown): data is RuleValue {
-  if (typeof data !== "object" || data === null || Array.isArray(data)) return false;
-  for (const [, v] of Object.entries(data as Record<string, unknown>)) {
-    if (typeof v !== "object" || v === null || Array.isArray(v)) return false;
-    const section = v as Record<string, unknown>;
-    if (!Array.isArray(section.required) || section.required.length === 0) return false;
-    if (!section.required.every((s: unknown) => typeof s === "string")) return false;
-    if (section.recommended !== undefined) {
-      if (!Array.isArray(section.recommended)) return false;
-      if (!section.recommended.every((s: unknown) => typeof s === "string")) return false;
+const RULE_LABELS: Record<MuseletRule, string> = {
+  "context-by-type": "required sections (context-by-type)",
+  "context-recommended": "recommended sections (context-recommended)",
+};
+
+/**
+ * Ask for each rule's severity and, unless it's off, its `always`/`never`
+ * mode. Returns `null` if the user cancels.
+ */
+async function promptRuleSettings(settings: RuleSettings): Promise<RuleSettings | null> {
+  const result = { ...settings };
+  for (const name of Object.keys(settings) as MuseletRule[]) {
+    const level = await select({
+      message: `Severity for ${RULE_LABELS[name]}?`,
+      options: ([2, 1, 0] as RuleLevel[]).map((value) => ({ value, label: LEVEL_NAMES[value] })),
+      initialValue: settings[name].level,
+    });
+    if (isCancel(level)) return null;
+
+    let when = settings[name].when;
+    if (level !== 0) {
+      const choice = await select({
+        message: `Apply ${RULE_LABELS[name]} as…`,
+        options: [
+          { value: "always" as const, label: "always", hint: "sections must be present" },
+          { value: "never" as const, label: "never", hint: "sections must be absent" },
+        ],
+        initialValue: when,
+      });
+      if (isCancel(choice)) return null;
+      when = choice;
     }
+    result[name] = { level, when };
   }
-  return true;
+  return result;
 }
 
 function openEditorForConfig(config: RuleValue): RuleValue {
@@ -95,11 +196,12 @@ function openEditorForConfig(config: RuleValue): RuleValue {
     }
     const raw = readFileSync(tmpFile, "utf-8");
     const parsed: unknown = JSON.parse(raw);
-    if (!validateConfig(parsed)) {
-      log.warn("Invalid config format. Each type must have a non-empty 'required' string array. Using defaults.");
+    const issues = validateRuleValue(parsed);
+    if (issues.length > 0) {
+      log.warn(`Invalid config. Using defaults.\n${issues.map((i) => `${i.path}: ${i.message}`).join("\n")}`);
       return config;
     }
-    return parsed;
+    return parsed as RuleValue;
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     log.warn(`Failed to read edited config: ${msg}. Using defaults.`);
@@ -110,13 +212,33 @@ function openEditorForConfig(config: RuleValue): RuleValue {
 }
 
 const cwd = process.cwd();
+const roots = findProjectRoots(cwd, gitRoot(cwd));
+/** Where dependencies and the commitlint config go: the workspace root, if any. */
+const root = roots.packageRoot;
+/** Where hooks, CI and agent files go. */
+const repoRoot = roots.gitRoot;
+/** `root` relative to `repoRoot`, "" when they're the same. */
+const packageDir = path.relative(repoRoot, root).split(path.sep).join("/");
+
+/**
+ * Read a muselet config file; a JSON file may also hold just the types, as
+ * it used to. `file` is its absolute path when `loadMuseletConfig` can
+ * load it, and null for such a types-only file.
+ */
+async function readConfigFile(file: string): Promise<{ config: MuseletConfig; file: string | null }> {
+  if (file.endsWith(".json")) {
+    const data: unknown = JSON.parse(readFileSync(path.resolve(cwd, file), "utf-8"));
+    if (typeof data === "object" && data !== null && !Array.isArray(data) && !("types" in data)) {
+      const issues = validateRuleValue(data);
+      if (issues.length > 0) throw new MuseletConfigError(file, issues);
+      return { config: { types: data as RuleValue }, file: null };
+    }
+  }
+  return (await loadMuseletConfig(cwd, file))!;
+}
 
-type PackageManager = "pnpm" | "yarn" | "npm";
-
-function detectPackageManager(): PackageManager {
-  if (existsSync(path.join(cwd, "pnpm-lock.yaml"))) return "pnpm";
-  if (existsSync(path.join(cwd, "yarn.lock"))) return "yarn";
-  return "npm";
+function readOrNull(file: string): string | null {
+  return existsSync(file) ? readFileSync(file, "utf-8") : null;
 }
 
 const lockFileNames: Record<PackageManager, string> = {
@@ -125,98 +247,55 @@ const lockFileNames: Record<PackageManager, string> = {
   npm: "package-lock.json",
 };
 
-function installCmd(pm: PackageManager): string {
-  switch (pm) {
-    case "pnpm": return "pnpm add -D";
-    case "yarn": return "yarn add -D";
-    case "npm": return "npm install -D";
-  }
-}
-
-function ciInstallCmd(pm: PackageManager): string {
-  switch (pm) {
-    case "pnpm": return "npm i -g pnpm && pnpm install --frozen-lockfile";
-    case "yarn": return "yarn install --frozen-lockfile";
-    case "npm": return "npm ci";
-  }
-}
-
-function generateWorkflow(pm: PackageManager): string {
-  return `name: Lint Commits (muselet)
-
-on:
-  pull_request:
-    branches: [main]
-
-jobs:
-  commitlint:
-    runs-on: ubuntu-latest
-    steps:
-      - uses: actions/checkout@v4
-        with:
-          fetch-depth: 0
-
-      - uses: actions/setup-node@v4
-        with:
-          node-version: 20
-
-      - name: Install dependencies
-        run: ${ciInstallCmd(pm)}
-
-      - name: Lint commits
-        run: npx commitlint --from \${{ github.event.pull_request.base.sha }} --to \${{ github.event.pull_request.head.sha }} --verbose
-`;
-}
-
 function run(cmd: string): void {
   log.step(`$ ${cmd}`);
-  execSync(cmd, { cwd, stdio: "inherit" });
-}
-
-const AGENT_INSTRUCTION_CANDIDATES: readonly string[] = [
-  "CLAUDE.md",
-  "AGENTS.md",
-  "copilot-instructions.md",
-  ".github/copilot-instructions.md",
-  "cursor-instructions.md",
-  ".cursorrules",
-];
-
-function detectAgentFiles(): string[] {
-  const found: string[] = [];
-  for (const file of AGENT_INSTRUCTION_CANDIDATES) {
-    if (existsSync(path.join(cwd, file))) {
-      found.push(file);
-    }
-  }
-  return found;
+  execSync(cmd, { cwd: root, stdio: "inherit" });
 }
 
-const AGENT_PATCH_BLOCK = `
-## Commit context (muselet)
+const HOOK_HINTS: Record<HookManager, string> = {
+  husky: "install husky, hooks live in .husky/",
+  lefthook: "lefthook.yml",
+  "simple-git-hooks": "simple-git-hooks key in package.json",
+  "pre-commit": "pre-commit framework, no package.json needed",
+  git: "plain script in the git hooks directory (not shared)",
+};
 
-This project uses [muselet](https://github.com/muselet-ai/muselet) to enforce structured commit messages.
-Read \`muselet.md\` for the full convention and required context sections.
-`;
+async function main(options: InitOptions) {
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
 
-async function main() {
   console.log(renderBanner());
-  intro("muselet init");
+  intro(options.dryRun ? "muselet init (dry run)" : "muselet init");
+
+  if (options.yes && !process.stdin.isTTY) {
+    log.info("No TTY detected — using defaults and flags without prompting.");
+  }
 
   // ── 1. Detect everything ──────────────────────────────────────────
 
-  const detectedPm = detectPackageManager();
-  const hasCommitlintConfig =
-    existsSync(path.join(cwd, "commitlint.config.js")) ||
-    existsSync(path.join(cwd, "commitlint.config.mjs")) ||
-    existsSync(path.join(cwd, ".commitlintrc.json"));
-  const hasHusky = existsSync(path.join(cwd, ".husky"));
-  const hasWorkflow = existsSync(path.join(cwd, ".github", "workflows", "muselet.yml"));
-  const agentFiles = detectAgentFiles();
+  if (root !== cwd) {
+    const kind = roots.workspace ? "workspace root" : "project root";
+    log.info(`Setting up the ${kind}: ${path.relative(cwd, root)}`);
+  }
+  if (packageDir) {
+    log.info(`Hooks and CI go in the git root: ${path.relative(cwd, repoRoot) || "."}`);
+  }
+
+  const detectedPm = detectPackageManager(root);
+  const existingConfig = findCommitlintConfig(root);
+  const hasPackageJson = existsSync(path.join(root, "package.json"));
+  const detectedHooks = detectHookManager(repoRoot) ?? (packageDir ? detectHookManager(root) : null);
+  const detectedCi = detectCiProvider(repoRoot);
+  const agentFiles = detectAgentFiles(repoRoot);
+  const workspacePackages = roots.workspace ? listWorkspacePackages(roots.workspace) : [];
 
   // ── 2. Package manager confirmation ───────────────────────────────
 
-  const pmConfirm = await select({
+  let pm: PackageManager = options.pm ?? detectedPm;
+
+  const pmConfirm = options.pm || options.yes ? "yes" : await select({
     message: `Package manager detected: ${detectedPm} (${lockFileNames[detectedPm]})\nUse this?`,
     options: [
       { value: "yes" as const, label: `Yes, use ${detectedPm}` },
@@ -230,8 +309,6 @@ async function main() {
     return;
   }
 
-  let pm: PackageManager = detectedPm;
-
   if (pmConfirm === "no") {
     const pmChoice = await select({
       message: "Which package manager?",
@@ -252,11 +329,52 @@ async function main() {
 
   // ── 3. Config table + customise ───────────────────────────────────
 
-  let config: RuleValue = { ...DEFAULT_VALUE };
-  note(renderConfigTable(config), "Context rules");
+  // Start from --config, or the project's own muselet config file.
+  const configFile = options.config ?? findMuseletConfig(root);
+  let museletConfig: MuseletConfig | null = null;
+  // When commitlint can load the file itself, its config loads it rather than copying the rules.
+  let museletFile: string | null = null;
+  try {
+    const read = configFile ? await readConfigFile(configFile) : null;
+    museletConfig = read?.config ?? null;
+    museletFile = read?.file ? path.relative(root, read.file).split(path.sep).join("/") : null;
+  } catch (err) {
+    if (!(err instanceof MuseletConfigError)) throw err;
+    cancel(err.message);
+    process.exitCode = 1;
+    return;
+  }
+  let config: RuleValue = museletConfig?.types ?? { ...DEFAULT_VALUE };
+  let settings: RuleSettings = museletConfig ? ruleSettingsFrom(museletConfig.rules) : { ...DEFAULT_RULE_SETTINGS };
+  const configLabel = configFile && path.relative(cwd, path.resolve(cwd, configFile));
+
+  // Workspace packages as scopes
+  let packageScopes: string[] = [];
+  if (workspacePackages.length > 0 && museletFile) {
+    if (options.packageScopes) log.warn(`Add the workspace packages as scopes in ${museletFile}: the rules are read from it.`);
+  } else if (workspacePackages.length > 0) {
+    const scopes = [...new Set(workspacePackages.map((pkg) => scopeName(pkg.name)))];
+    const addScopes = options.packageScopes ?? (options.yes ? false : await confirm({
+      message: `Add the ${scopes.length} workspace packages as scopes?\n  ${scopes.join(", ")}\n  Each gets an empty override you can fill with package-specific sections.`,
+      initialValue: false,
+    }));
+
+    if (isCancel(addScopes)) {
+      cancel("Setup cancelled.");
+      return;
+    }
+
+    if (addScopes) {
+      packageScopes = scopes;
+      config = withPackageScopes(config, scopes);
+    }
+  }
+
+  note(renderConfigTable(config, settings), configLabel ? `Context rules (${configLabel})` : "Context rules");
 
-  const customise = await confirm({
-    message: "Customise context rules before continuing?",
+  if (museletFile && !options.config) log.info(`The rules are read from ${museletFile}; edit it to change them.`);
+  const customise = options.config || options.yes || museletFile ? false : await confirm({
+    message: "Customise context rules (sections and severities) before continuing?",
     initialValue: false,
   });
 
@@ -267,32 +385,57 @@ async function main() {
 
   if (customise) {
     config = openEditorForConfig(config);
-    note(renderConfigTable(config), "Context rules (updated)");
+
+    const picked = await promptRuleSettings(settings);
+    if (!picked) {
+      cancel("Setup cancelled.");
+      return;
+    }
+    settings = picked;
+
+    note(renderConfigTable(config, settings), "Context rules (updated)");
   }
 
   // ── 4. Per-item confirmations for optional steps ──────────────────
 
-  // GitHub Action
-  const installWorkflowChoice = await select({
-    message: "Install the Muselet GitHub Action?\n  Lints commit messages on every PR — useful if your team uses GitHub.",
+  // CI check
+  const ciDefault = hasCiCheck(repoRoot, detectedCi) ? "none" : detectedCi;
+  const ciChoice = options.ci ?? (options.workflow ? detectedCi : options.yes ? ciDefault : await select({
+    message: "Add a CI check?\n  Lints the commit messages of every pull/merge request.",
     options: [
-      { value: true, label: "Yes" },
-      { value: false, label: "No" },
+      ...CI_PROVIDERS.map((value) => ({
+        value,
+        label: CI_LABELS[value],
+        hint: value === detectedCi ? "detected" : undefined,
+      })),
+      { value: "none" as const, label: "No" },
     ],
-    initialValue: !hasWorkflow,
-  });
+    initialValue: ciDefault,
+  }));
 
-  if (isCancel(installWorkflowChoice)) {
+  if (isCancel(ciChoice)) {
     cancel("Setup cancelled.");
     return;
   }
 
-  const installWorkflow: boolean = installWorkflowChoice;
+  const ciPlan: CiPlan | null =
+    ciChoice === "none"
+      ? null
+      : planCi(repoRoot, ciChoice, { pm, branch: defaultBranch(repoRoot), dir: packageDir || undefined });
+  for (const write of ciPlan?.writes ?? []) {
+    if (write.before) log.message(renderDiff(write.file, write.before, write.after));
+  }
 
   // Agent instruction files
-  const agentFilesToPatch: string[] = [];
+  const agentFilesToPatch: string[] = options.patchAgents ?? (options.yes ? agentFiles : []);
+
+  for (const file of options.patchAgents || options.yes ? [] : agentFiles) {
+    // A block from an earlier run is kept up to date without asking again.
+    if (hasManagedBlock(readOrNull(path.join(repoRoot, file)) ?? "")) {
+      agentFilesToPatch.push(file);
+      continue;
+    }
 
-  for (const file of agentFiles) {
     const patch = await select({
       message: `Add a muselet.md reference to ${file}?`,
       options: [
@@ -312,44 +455,187 @@ async function main() {
     }
   }
 
+  // Commit-msg hook: use the repo's hook manager, else a plain git hook
+  let hookManager: HookManager | "none";
+  if (options.hooks) {
+    hookManager = options.hooks;
+  } else if (detectedHooks) {
+    hookManager = detectedHooks;
+    log.info(`Hook manager detected: ${detectedHooks}`);
+  } else if (options.yes) {
+    hookManager = "git";
+  } else {
+    const hookChoice = await select({
+      message: "No hook manager found. Where should the commit-msg hook go?",
+      options: HOOK_MANAGERS.map((value) => ({ value, label: value, hint: HOOK_HINTS[value] })),
+      initialValue: hasPackageJson ? "git" as const : "pre-commit" as const,
+    });
+
+    if (isCancel(hookChoice)) {
+      cancel("Setup cancelled.");
+      return;
+    }
+
+    hookManager = hookChoice;
+  }
+
+  // Prepare-commit-msg hook: headings for the sections a commit needs
+  let scaffoldHook = false;
+  if (hookManager !== "none") {
+    const choice = options.scaffold ?? (options.yes ? true : await confirm({
+      message: "Pre-fill commit messages with the sections their type needs (prepare-commit-msg hook)?",
+      initialValue: true,
+    }));
+    if (isCancel(choice)) {
+      cancel("Setup cancelled.");
+      return;
+    }
+    scaffoldHook = choice;
+  }
+
+  const hookOptions = { autofix: options.autofix, scaffold: scaffoldHook };
+  const hookPlan: HookPlan | null = hookManager === "none" ? null : planHook(repoRoot, hookManager, packageDir, hookOptions);
+  for (const write of hookPlan?.writes ?? []) {
+    if (write.before) log.message(renderDiff(write.file, write.before, write.after));
+  }
+
+  // Commitlint config: merge into an existing one unless told otherwise
+  let configAction: "create" | "merge" | "overwrite" | "keep" = "create";
+  let configEdit: ConfigEdit | null = {
+    file: "commitlint.config.mjs",
+    before: "",
+    after: museletFile ? museletConfigModule(museletFile) : commitlintConfig(config, { settings }),
+  };
+
+  if (existingConfig) {
+    const muselet = museletFile ? { file: museletFile, rules: commitlintRules(museletConfig!) } : undefined;
+    const merged = mergeCommitlintConfig(existingConfig, config, settings, muselet);
+    const choice = options.overwriteConfig
+      ? "overwrite"
+      : options.yes
+        ? (merged ? "merge" : "keep")
+        : await select({
+          message: `Found ${existingConfig.file}. How should muselet be added?`,
+          options: [
+            ...(merged
+              ? [{ value: "merge" as const, label: "Merge", hint: "keep your extends, plugins and rules" }]
+              : []),
+            { value: "overwrite" as const, label: "Overwrite", hint: "replace it with muselet's config" },
+            { value: "keep" as const, label: "Skip", hint: "leave it unchanged" },
+          ],
+          initialValue: merged ? "merge" as const : "keep" as const,
+        });
+
+    if (isCancel(choice)) {
+      cancel("Setup cancelled.");
+      return;
+    }
+
+    if (!merged && choice === "keep") {
+      log.warn(`Couldn't find a config object to edit in ${existingConfig.file}. Add the "${PLUGIN_NAME}" plugin and its rules by hand.`);
+    }
+
+    configAction = choice;
+    configEdit =
+      choice === "merge" ? merged :
+      choice === "overwrite" ? replaceCommitlintConfig(existingConfig, config, settings, muselet) :
+      null;
+    if (configEdit && configEdit.before === configEdit.after) {
+      configAction = "keep";
+      configEdit = null;
+    }
+    if (configEdit) {
+      log.message(renderDiff(path.posix.join(packageDir, configEdit.file), configEdit.before, configEdit.after));
+    }
+  }
+
+  // muselet.md describes the rules as configured: the existing config's,
+  // when it's kept and commitlint can load it.
+  const instructions = agentInstructions(
+    (configAction === "keep" ? contextRuleValue(loadCommitlintConfig(root)) : null) ?? config,
+  );
+  const instructionsBefore = readOrNull(path.join(repoRoot, "muselet.md"));
+  if (instructionsBefore !== null && instructionsBefore !== instructions) {
+    log.message(renderDiff("muselet.md", instructionsBefore, instructions));
+  }
+
+  const agentPatches = agentFilesToPatch.map((file) => {
+    const before = readOrNull(path.join(repoRoot, file));
+    return { file, before, after: agentFileContent(file, before) };
+  });
+
   // ── 5. Show the plan ──────────────────────────────────────────────
 
-  const deps = ["@commitlint/cli", "@commitlint/config-conventional", "@muselet/commitlint-plugin"];
+  const deps = hasPackageJson
+    ? ["@commitlint/cli", "@commitlint/config-conventional", "@muselet/commitlint-plugin", ...(hookPlan?.deps ?? [])]
+    : [];
   const plan: string[] = [];
 
-  plan.push(`Install ${deps.join(", ")}`);
+  if (deps.length > 0) {
+    plan.push(`Install ${deps.join(", ")}`);
+  } else if (hookManager !== "pre-commit") {
+    plan.push("No package.json — install @commitlint/cli and @muselet/commitlint-plugin yourself");
+  }
 
-  if (hasHusky) {
-    plan.push("✓ Husky installed — add commit-msg hook");
+  if (hookPlan) {
+    plan.push(hookPlan.summary);
+    if (hookPlan.scaffold) plan.push(hookPlan.scaffold);
+    for (const cmd of hookPlan.commands) plan.push(`Run ${cmd}`);
   } else {
-    plan.push("Install husky + commit-msg hook");
+    plan.push("⊘ Skip commit-msg hook");
+  }
+
+  switch (configAction) {
+    case "create":
+      plan.push(`Create ${path.posix.join(packageDir, "commitlint.config.mjs")}`);
+      break;
+    case "merge":
+      plan.push(`Merge muselet into ${path.posix.join(packageDir, configEdit!.file)} (diff above)`);
+      break;
+    case "overwrite":
+      plan.push(`Overwrite ${path.posix.join(packageDir, configEdit!.file)} (diff above)`);
+      break;
+    case "keep":
+      plan.push(`✓ ${path.posix.join(packageDir, existingConfig!.file)} unchanged`);
+      break;
   }
 
-  if (hasCommitlintConfig) {
-    plan.push("✓ Commitlint config exists (will ask to overwrite)");
+  if (packageScopes.length > 0 && configAction !== "keep") {
+    plan.push(`Add scopes for workspace packages: ${packageScopes.join(", ")}`);
+  }
+
+  if (ciPlan) {
+    plan.push(ciPlan.summary);
+  }
+
+  if (instructionsBefore === null) {
+    plan.push("Create muselet.md");
+  } else if (instructionsBefore !== instructions) {
+    plan.push("Update muselet.md (diff above)");
   } else {
-    plan.push("Create commitlint.config.mjs");
+    plan.push("✓ muselet.md unchanged");
   }
 
-  if (installWorkflow) {
-    if (hasWorkflow) {
-      plan.push("✓ .github/workflows/muselet.yml exists (will overwrite)");
+  for (const { file, before, after } of agentPatches) {
+    if (before === null) {
+      plan.push(`Create ${file} with muselet.md reference`);
+    } else if (before !== after) {
+      plan.push(`Patch ${file} with muselet.md reference`);
     } else {
-      plan.push("Create .github/workflows/muselet.yml");
+      plan.push(`✓ ${file} already references muselet.md`);
     }
   }
 
-  plan.push("Create muselet.md");
+  note(plan.map(s => `• ${s}`).join("\n"), "Setup recap");
 
-  for (const file of agentFilesToPatch) {
-    plan.push(`Patch ${file} with muselet.md reference`);
+  if (options.dryRun) {
+    outro("Dry run — nothing was changed.");
+    return;
   }
 
-  note(plan.map(s => `• ${s}`).join("\n"), "Setup recap");
-
   // ── 6. Final confirmation ─────────────────────────────────────────
 
-  const proceed = await confirm({
+  const proceed = options.yes || await confirm({
     message: "Proceed with setup?",
     initialValue: true,
   });
@@ -362,80 +648,80 @@ async function main() {
   // ── 7. Execute ────────────────────────────────────────────────────
 
   const s = spinner();
+  const workspace = Boolean(roots.workspace);
+  // Every change is recorded so `muselet uninstall` can undo it, and so a
+  // failed step doesn't leave a half-finished setup behind.
+  const recorder = createRecorder(repoRoot, { packageDir, pm, workspace });
 
   try {
     // 1. Install deps
-    s.start("Installing dependencies...");
-    run(`${installCmd(pm)} ${deps.join(" ")}`);
-    s.stop("✅ Dependencies installed");
-
-    // 2. Husky
-    if (!hasHusky) {
-      s.start("Setting up husky...");
-      run(`${installCmd(pm)} husky`);
-      run("npx husky init");
-      // Clear the default pre-commit hook (runs `npm test` which fails on fresh projects)
-      const defaultPreCommit = path.join(cwd, ".husky", "pre-commit");
-      if (existsSync(defaultPreCommit)) {
-        await fs.writeFile(defaultPreCommit, "", { mode: 0o755 });
-      }
-      s.stop("✅ Husky configured");
+    if (deps.length > 0) {
+      const existing = installedDependencies(root);
+      s.start("Installing dependencies...");
+      run(`${installCmd(pm, { root, workspace })} ${deps.join(" ")}`);
+      recorder.installed(deps.filter((dep) => !existing.has(dep)));
+      s.stop("✅ Dependencies installed");
     }
 
-    // 3. Commit-msg hook
-    s.start("Creating commit-msg hook...");
-    const hookDir = path.join(cwd, ".husky");
-    const hookPath = path.join(hookDir, "commit-msg");
-    await fs.mkdir(hookDir, { recursive: true });
-    await fs.writeFile(hookPath, 'npx --no -- commitlint --edit "$1"\n', { mode: 0o755 });
-    s.stop("✅ Commit hook created");
-
-    // 4. Commitlint config
-    if (!hasCommitlintConfig) {
-      s.start("Creating commitlint config...");
-      await fs.writeFile(path.join(cwd, "commitlint.config.mjs"), commitlintConfig(config));
-      s.stop("✅ Commitlint config created");
+    // 2. Commitlint config
+    if (configEdit) {
+      s.start(`Writing ${configEdit.file}...`);
+      await recorder.write(path.posix.join(packageDir, configEdit.file), configEdit.after);
+      s.stop(`✅ ${configEdit.file} ${existingConfig ? "updated" : "created"}`);
     } else {
-      const overwrite = await confirm({
-        message: "Overwrite existing commitlint config?",
-        initialValue: false,
-      });
-
-      if (isCancel(overwrite)) {
-        cancel("Setup cancelled.");
-        return;
-      }
+      log.info("⊘ Skipped commitlint config");
+    }
 
-      if (overwrite) {
-        await fs.writeFile(path.join(cwd, "commitlint.config.mjs"), commitlintConfig(config));
-        log.success("✅ Commitlint config overwritten");
-      } else {
-        log.info("⊘ Skipped commitlint config");
+    // 3. Commit-msg hook — re-planned now that installs and the config
+    // may have changed package.json underneath the first plan.
+    if (hookPlan) {
+      s.start("Adding commit-msg hook...");
+      const hook = planHook(repoRoot, hookPlan.manager, packageDir, hookOptions);
+      for (const write of hook.writes) await recorder.write(write.file, write.after, write.mode);
+      s.stop(`✅ Commit hook added (${hook.manager})`);
+
+      // Activating writes the git hook (or, for husky, sets core.hooksPath).
+      const gitHook = hookSourceFile(repoRoot, "git");
+      if (hook.commands.length > 0 && gitHook) recorder.track(gitHook);
+      const prepareHook = gitHookFile(repoRoot, "prepare-commit-msg");
+      if (hook.commands.length > 0 && scaffoldHook && prepareHook) recorder.track(prepareHook);
+      if (hook.commands.length > 0 && hook.manager === "husky") recorder.trackHooksPath();
+      for (const cmd of hook.commands) {
+        try {
+          run(cmd);
+        } catch {
+          log.warn(`\`${cmd}\` failed. Run it yourself to activate the hook.`);
+        }
       }
+      if (hook.manual) note(hook.manual, "Add the hook by hand");
     }
 
-    // 5. GitHub Action workflow
-    if (installWorkflow) {
-      s.start("Creating GitHub workflow...");
-      const workflowDir = path.join(cwd, ".github", "workflows");
-      await fs.mkdir(workflowDir, { recursive: true });
-      await fs.writeFile(path.join(workflowDir, "muselet.yml"), generateWorkflow(pm));
-      s.stop("✅ GitHub workflow created");
+    // 4. CI check
+    if (ciPlan) {
+      s.start(`Creating ${CI_LABELS[ciPlan.provider]} check...`);
+      for (const write of ciPlan.writes) await recorder.write(write.file, write.after, write.mode);
+      s.stop(`✅ ${CI_LABELS[ciPlan.provider]} check created (${ciPlan.file})`);
+      if (ciPlan.manual) note(ciPlan.manual, "Finish the CI setup");
     }
 
-    // 6. Agent instructions (muselet.md)
-    s.start("Creating agent instructions...");
-    await fs.writeFile(path.join(cwd, "muselet.md"), agentInstructions);
-    s.stop("✅ Agent instructions created");
+    // 5. Agent instructions (muselet.md)
+    if (instructionsBefore !== instructions) {
+      s.start("Writing agent instructions...");
+      await recorder.write("muselet.md", instructions);
+      s.stop(`✅ Agent instructions ${instructionsBefore === null ? "created" : "updated"}`);
+    }
 
-    // 7. Patch agent instruction files
-    for (const file of agentFilesToPatch) {
-      const filePath = path.join(cwd, file);
+    // 6. Point agent instruction files at muselet.md, inside a managed block
+    for (const { file, before, after } of agentPatches) {
+      if (before === after) continue;
       s.start(`Patching ${file}...`);
-      await fs.appendFile(filePath, AGENT_PATCH_BLOCK);
+      if (before === null) await recorder.write(file, after);
+      else await recorder.patch(file, AGENT_BLOCK);
       s.stop(`✅ Patched ${file}`);
     }
 
+    await recorder.save();
+
     // Success!
     log.success("🎉 Setup complete!");
 
@@ -445,23 +731,75 @@ async function main() {
       '  → ✖ missing Why\n' +
       '\n' +
       '• git commit (with editor) and write:\n' +
-      '  fix: something\n' +
+      '  fix: clear stale sessions on logout\n' +
       '\n' +
-      '  ### Why\n' +
-      '  <your reason here>\n' +
+      '  Why:\n' +
+      '  users stayed signed in on shared machines after logging out\n' +
       '  → ✔ passes',
       "Next steps"
     );
 
   } catch (error) {
-    s.stop("❌ Setup failed", 1);
+    s.error("❌ Setup failed");
+    await rollBack(recorder);
     throw error;
   }
 
   outro("Happy committing! 🚀");
 }
 
-main().catch((err) => {
+/** Undo a failed run's changes, reporting rather than throwing over the original error. */
+async function rollBack(recorder: SetupRecorder): Promise<void> {
+  const { dependencies, pm, workspace } = recorder.changes();
+  try {
+    const { restored } = await recorder.rollback();
+    if (restored.length > 0) log.info(`Rolled back: ${restored.join(", ")}`);
+    if (dependencies.length > 0) {
+      run(`${uninstallCmd(pm, { root, workspace })} ${dependencies.join(" ")}`);
+    }
+  } catch (err) {
+    log.warn(`Rollback incomplete: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+const COMMAND_USAGE: Record<Invocation["command"], string> = {
+  init: USAGE,
+  doctor: DOCTOR_USAGE,
+  uninstall: UNINSTALL_USAGE,
+  fix: FIX_USAGE,
+  scaffold: SCAFFOLD_USAGE,
+  audit: AUDIT_USAGE,
+};
+
+async function cli(invocation: Invocation): Promise<void> {
+  if (invocation.command === "init") {
+    await main(invocation.options);
+    return;
+  }
+  if (invocation.options.help) {
+    console.log(COMMAND_USAGE[invocation.command]);
+    return;
+  }
+  const ok =
+    invocation.command === "doctor" ? await doctor(invocation.options, roots) :
+    invocation.command === "fix" ? await fix(invocation.options, roots) :
+    invocation.command === "scaffold" ? await scaffold(invocation.options, roots) :
+    invocation.command === "audit" ? await audit(invocation.options, roots) :
+    await uninstall(invocation.options, roots);
+  if (!ok) process.exitCode = 1;
+}
+
+let invocation: Invocation;
+try {
+  invocation = parseCommand(process.argv.slice(2), { isTTY: Boolean(process.stdin.isTTY) });
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  const command = process.argv[2] as Invocation["command"];
+  console.error(`\n${COMMAND_USAGE[command] ?? USAGE}`);
+  process.exit(1);
+}
+
+cli(invocation).catch((err) => {
   console.error(err);
   process.exit(1);
 });
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { LEGACY_BLOCK, managedBlock, removeManagedBlock, upsertManagedBlock } from "./managed-block.js";
+
+const block = (body: string) => managedBlock(body);
+
+describe("upsertManagedBlock", () => {
+  it("appends after a blank line, then replaces in place", () => {
+    const once = upsertManagedBlock("# Project\n", "v1");
+    expect(once).toBe(`# Project\n\n${block("v1")}`);
+    expect(upsertManagedBlock(once, "v1")).toBe(once);
+
+    const edited = `${once}\n## Later\n`;
+    expect(upsertManagedBlock(edited, "v2")).toBe(`# Project\n\n${block("v2")}\n## Later\n`);
+  });
+
+  it("fills an empty file with just the block", () => {
+    expect(upsertManagedBlock("", "v1")).toBe(block("v1"));
+  });
+
+  it("replaces the unmarked block earlier versions appended", () => {
+    expect(upsertManagedBlock(`# Project\n${LEGACY_BLOCK}`, "v1")).toBe(`# Project\n\n${block("v1")}`);
+  });
+});
+
+describe("removeManagedBlock", () => {
+  it("undoes an upsert", () => {
+    expect(removeManagedBlock(upsertManagedBlock("# Project\n", "v1"))).toBe("# Project\n");
+    expect(removeManagedBlock(`# Project\n${LEGACY_BLOCK}`)).toBe("# Project\n");
+  });
+
+  it("returns null without a block", () => {
+    expect(removeManagedBlock("# Project\n")).toBeNull();
+    expect(removeManagedBlock("<!-- muselet:start -->\nunterminated\n")).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+export const BLOCK_START = "<!-- muselet:start -->";
+export const BLOCK_END = "<!-- muselet:end -->";
+
+/**
+ * The unmarked block earlier versions of init appended to agent files.
+ * Upgrading replaces it with a marked one instead of adding a second.
+ */
+export const LEGACY_BLOCK = `
+## Commit context (muselet)
+
+This project uses [muselet](https://github.com/muselet-ai/muselet) to enforce structured commit messages.
+Read \`muselet.md\` for the full convention and required context sections.
+`;
+
+/** `body` between the markers, as it appears in the file. */
+export function managedBlock(body: string): string {
+  return `${BLOCK_START}\n${body.trim()}\n${BLOCK_END}\n`;
+}
+
+/** Where the managed block sits in `source`, including its trailing newline. */
+function findBlock(source: string): { start: number; end: number } | null {
+  const start = source.indexOf(BLOCK_START);
+  if (start === -1) return null;
+  const close = source.indexOf(BLOCK_END, start);
+  if (close === -1) return null;
+  let end = close + BLOCK_END.length;
+  if (source[end] === "\n") end++;
+  return { start, end };
+}
+
+/** Whether `source` holds a managed block (or the legacy unmarked one). */
+export function hasManagedBlock(source: string): boolean {
+  return findBlock(source) !== null || source.includes(LEGACY_BLOCK);
+}
+
+/**
+ * Put `body` in `source`'s managed block: replaced in place when there is
+ * one, otherwise appended after a blank line. Running it twice changes
+ * nothing.
+ */
+export function upsertManagedBlock(source: string, body: string): string {
+  const block = managedBlock(body);
+  const found = findBlock(source);
+  if (found) return source.slice(0, found.start) + block + source.slice(found.end);
+
+  const legacy = source.lastIndexOf(LEGACY_BLOCK);
+  if (legacy !== -1) {
+    const before = source.slice(0, legacy);
+    return `${before}${before.endsWith("\n") ? "\n" : ""}${block}${source.slice(legacy + LEGACY_BLOCK.length)}`;
+  }
+
+  if (source.trim() === "") return block;
+  return `${source.replace(/\n*$/, "\n")}\n${block}`;
+}
+
+/**
+ * `source` without its managed block and the blank line init put before
+ * it, or `null` if there's no block to remove.
+ */
+export function removeManagedBlock(source: string): string | null {
+  const found = findBlock(source);
+  if (found) {
+    return source.slice(0, found.start).replace(/\n\n$/, "\n") + source.slice(found.end);
+  }
+  const legacy = source.lastIndexOf(LEGACY_BLOCK);
+  if (legacy === -1) return null;
+  return source.slice(0, legacy) + source.slice(legacy + LEGACY_BLOCK.length);
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createRecorder, loadManifest, manifestPath, undoChanges } from "./manifest.js";
+import { localHooksPath } from "./git.js";
+
+// Config passed through the environment (e.g. a CI-wide core.hooksPath)
+// would override the repositories these tests create.
+for (const key of Object.keys(process.env)) {
+  if (/^GIT_CONFIG_(COUNT|KEY_\d+|VALUE_\d+)$/.test(key)) delete process.env[key];
+}
+
+let dir: string;
+
+const setup = { packageDir: "", pm: "pnpm" as const, workspace: false };
+const read = (file: string) => readFileSync(path.join(dir, file), "utf-8");
+const exists = (file: string) => existsSync(path.join(dir, file));
+
+function write(file: string, content: string): void {
+  writeFileSync(path.join(dir, file), content);
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "muselet-manifest-"));
+  execFileSync("git", ["init", "-q"], { cwd: dir });
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("createRecorder", () => {
+  it("saves a manifest in the git directory that undoes the setup", async () => {
+    write("package.json", '{ "name": "app" }\n');
+    write("CLAUDE.md", "# Project\n");
+    const recorder = createRecorder(dir, setup);
+    await recorder.write("commitlint.config.mjs", "export default {};\n");
+    await recorder.write("package.json", '{ "name": "app", "scripts": { "prepare": "husky" } }\n');
+    await recorder.write(".husky/commit-msg", "npx commitlint --edit $1\n", 0o755);
+    await recorder.patch("CLAUDE.md", "## muselet");
+    await recorder.patch("AGENTS.md", "## muselet");
+    recorder.installed(["@commitlint/cli"]);
+    await recorder.save();
+
+    expect(manifestPath(dir)).toBe(path.join(dir, ".git", "muselet", "manifest.json"));
+    const manifest = loadManifest(dir)!;
+    expect(manifest).toMatchObject({ dependencies: ["@commitlint/cli"], pm: "pnpm" });
+    expect(statSync(path.join(dir, ".husky/commit-msg")).mode & 0o111).not.toBe(0);
+
+    const result = await undoChanges(dir, manifest);
+    expect(result.skipped).toEqual([]);
+    expect(read("package.json")).toBe('{ "name": "app" }\n');
+    expect(read("CLAUDE.md")).toBe("# Project\n");
+    expect(exists("AGENTS.md")).toBe(false);
+    expect(exists("commitlint.config.mjs")).toBe(false);
+    expect(exists(".husky")).toBe(false);
+  });
+
+  it("leaves files edited since init unless forced", async () => {
+    const recorder = createRecorder(dir, setup);
+    await recorder.write("muselet.md", "generated\n");
+    await recorder.save();
+    write("muselet.md", "generated\nwith local notes\n");
+
+    const manifest = loadManifest(dir)!;
+    expect(await undoChanges(dir, manifest)).toEqual({ restored: [], skipped: ["muselet.md"] });
+    expect(exists("muselet.md")).toBe(true);
+    await undoChanges(dir, manifest, { force: true });
+    expect(exists("muselet.md")).toBe(false);
+  });
+
+  it("keeps the first run's originals across runs, but rolls back only its own run", async () => {
+    write("commitlint.config.mjs", "original\n");
+    const first = createRecorder(dir, setup);
+    await first.write("commitlint.config.mjs", "first\n");
+    await first.save();
+
+    const second = createRecorder(dir, setup);
+    await second.write("commitlint.config.mjs", "second\n");
+    await second.write("muselet.md", "instructions\n");
+    await second.rollback();
+    expect(read("commitlint.config.mjs")).toBe("first\n");
+    expect(exists("muselet.md")).toBe(false);
+
+    await second.write("commitlint.config.mjs", "second\n");
+    await second.save();
+    const manifest = loadManifest(dir)!;
+    expect(manifest.files).toEqual([
+      expect.objectContaining({ file: "commitlint.config.mjs", before: "original\n" }),
+    ]);
+    await undoChanges(dir, manifest);
+    expect(read("commitlint.config.mjs")).toBe("original\n");
+  });
+
+  it("patches a block once across runs and removes it around later edits", async () => {
+    write("CLAUDE.md", "# Project\n");
+    for (const body of ["## muselet", "## muselet v2"]) {
+      const recorder = createRecorder(dir, setup);
+      await recorder.patch("CLAUDE.md", body);
+      await recorder.save();
+    }
+    expect(read("CLAUDE.md").match(/muselet:start/g)).toHaveLength(1);
+    expect(loadManifest(dir)!.blocks).toEqual([{ file: "CLAUDE.md", created: false }]);
+
+    write("CLAUDE.md", `${read("CLAUDE.md")}\n## Notes added later\n`);
+    expect(await undoChanges(dir, loadManifest(dir)!)).toEqual({ restored: ["CLAUDE.md"], skipped: [] });
+    expect(read("CLAUDE.md")).toBe("# Project\n\n## Notes added later\n");
+  });
+
+  it("counts a block removed by hand, or with its file, as undone", async () => {
+    write("CLAUDE.md", "# Project\n");
+    write("AGENTS.md", "# Agents\n");
+    const recorder = createRecorder(dir, setup);
+    await recorder.patch("CLAUDE.md", "## muselet");
+    await recorder.patch("AGENTS.md", "## muselet");
+    await recorder.save();
+
+    write("CLAUDE.md", "# Project\n");
+    rmSync(path.join(dir, "AGENTS.md"));
+    expect(await undoChanges(dir, loadManifest(dir)!)).toEqual({ restored: [], skipped: [] });
+    expect(read("CLAUDE.md")).toBe("# Project\n");
+  });
+
+  it("resets core.hooksPath", async () => {
+    const recorder = createRecorder(dir, setup);
+    recorder.trackHooksPath();
+    execFileSync("git", ["config", "core.hooksPath", ".husky/_"], { cwd: dir });
+    await recorder.save();
+
+    const result = await undoChanges(dir, loadManifest(dir)!);
+    expect(result.restored).toEqual(["core.hooksPath"]);
+    expect(localHooksPath(dir)).toBeNull();
+  });
+});
@@ -0,0 +1,260 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { gitPath, localHooksPath, setLocalHooksPath } from "./git.js";
+import { removeManagedBlock, upsertManagedBlock } from "./managed-block.js";
+import type { PackageManager } from "./options.js";
+
+/** A file init created or changed, with what was there before. */
+export interface FileChange {
+  /** Relative to the git root. */
+  file: string;
+  /** The original contents; `null` if init created the file. */
+  before: string | null;
+  /** The original mode, for files init made executable. */
+  mode?: number;
+  /** SHA-256 of the contents init left, to spot later edits. `null` if init deleted it. */
+  sha: string | null;
+}
+
+/** A marker-delimited block init manages in a file it otherwise leaves alone. */
+export interface ManagedBlock {
+  file: string;
+  /** Whether init created the file to hold the block. */
+  created: boolean;
+}
+
+export interface Manifest {
+  version: 1;
+  createdAt: string;
+  /** The project with the dependencies, relative to the git root. */
+  packageDir: string;
+  pm: PackageManager;
+  workspace: boolean;
+  /** Packages init installed. */
+  dependencies: string[];
+  files: FileChange[];
+  blocks: ManagedBlock[];
+  /** The repository's `core.hooksPath` before init, when init changed it. */
+  hooksPath?: { before: string | null };
+}
+
+export type ManifestSetup = Pick<Manifest, "packageDir" | "pm" | "workspace">;
+
+/**
+ * Where the manifest lives: inside the git directory, so it isn't committed
+ * along with the setup, or at the project root outside a repository.
+ */
+export function manifestPath(root: string): string {
+  const dir = gitPath(root, "muselet");
+  return dir ? path.resolve(root, dir, "manifest.json") : path.join(root, ".muselet-manifest.json");
+}
+
+export async function saveManifest(root: string, manifest: Manifest): Promise<void> {
+  const file = manifestPath(root);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+export function loadManifest(root: string): Manifest | null {
+  try {
+    return JSON.parse(readFileSync(manifestPath(root), "utf-8")) as Manifest;
+  } catch {
+    return null;
+  }
+}
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function readOrNull(file: string): string | null {
+  return existsSync(file) ? readFileSync(file, "utf-8") : null;
+}
+
+/** Records every change init makes so it can be undone. */
+export interface SetupRecorder {
+  /** Write a file, remembering what it replaced. */
+  write(file: string, content: string, mode?: number): Promise<void>;
+  /** Put `body` in a file's managed block, remembering the file has one. */
+  patch(file: string, body: string): Promise<void>;
+  /** Remember a file's current state before something else (a command) changes it. */
+  track(file: string): void;
+  /** Remember `core.hooksPath` before a command changes it. */
+  trackHooksPath(): void;
+  installed(dependencies: readonly string[]): void;
+  /** This run's changes only. */
+  changes(): Manifest;
+  /**
+   * Undo this run's file changes, e.g. after a failed step, and start over.
+   * Dependencies are left to the caller; read them from `changes()` first.
+   */
+  rollback(): Promise<UndoResult>;
+  /**
+   * Write the manifest, folding this run into an earlier one so files keep
+   * the contents from before the first run.
+   */
+  save(): Promise<void>;
+}
+
+/** Start recording the changes init makes under `root`, the git root. */
+export function createRecorder(root: string, setup: ManifestSetup): SetupRecorder {
+  const session: Manifest = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    ...setup,
+    dependencies: [],
+    files: [],
+    blocks: [],
+  };
+
+  function track(file: string): void {
+    if (session.files.some((change) => change.file === file)) return;
+    const abs = path.join(root, file);
+    const before = readOrNull(abs);
+    session.files.push({
+      file,
+      before,
+      ...(before !== null ? { mode: statSync(abs).mode & 0o777 } : {}),
+      sha: null,
+    });
+  }
+
+  return {
+    async write(file, content, mode) {
+      track(file);
+      const abs = path.join(root, file);
+      await fs.mkdir(path.dirname(abs), { recursive: true });
+      await fs.writeFile(abs, content);
+      if (mode) await fs.chmod(abs, mode);
+    },
+
+    async patch(file, body) {
+      const abs = path.join(root, file);
+      const before = readOrNull(abs);
+      const after = upsertManagedBlock(before ?? "", body);
+      if (after === before) return;
+      if (!session.blocks.some((block) => block.file === file)) {
+        session.blocks.push({ file, created: before === null });
+      }
+      await fs.mkdir(path.dirname(abs), { recursive: true });
+      await fs.writeFile(abs, after);
+    },
+
+    track,
+
+    trackHooksPath() {
+      session.hooksPath ??= { before: localHooksPath(root) };
+    },
+
+    installed(dependencies) {
+      session.dependencies = [...new Set([...session.dependencies, ...dependencies])];
+    },
+
+    changes: () => session,
+
+    async rollback() {
+      const result = await undoChanges(root, session, { force: true });
+      session.files = [];
+      session.blocks = [];
+      delete session.hooksPath;
+      return result;
+    },
+
+    async save() {
+      const previous = loadManifest(root);
+      const files = [
+        ...(previous?.files ?? []),
+        ...session.files.filter((change) => !previous?.files.some((p) => p.file === change.file)),
+      ];
+      const manifest: Manifest = {
+        ...session,
+        createdAt: previous?.createdAt ?? session.createdAt,
+        dependencies: [...new Set([...(previous?.dependencies ?? []), ...session.dependencies])],
+        files,
+        // Restoring a whole file takes its block with it.
+        blocks: [
+          ...(previous?.blocks ?? []),
+          ...session.blocks.filter((block) => !previous?.blocks.some((p) => p.file === block.file)),
+        ].filter((block) => !files.some((change) => change.file === block.file)),
+        hooksPath: previous?.hooksPath ?? session.hooksPath,
+      };
+      for (const change of manifest.files) {
+        const content = readOrNull(path.join(root, change.file));
+        change.sha = content === null ? null : sha256(content);
+      }
+      await saveManifest(root, manifest);
+    },
+  };
+}
+
+/** Delete a file, then any directories below `root` it leaves empty (git's own excepted). */
+async function removeFile(root: string, file: string): Promise<void> {
+  await fs.rm(path.join(root, file), { force: true });
+  if (file.split(/[\\/]/)[0] === ".git") return;
+  for (let dir = path.dirname(file); dir !== "." && !dir.startsWith(".."); dir = path.dirname(dir)) {
+    try {
+      await fs.rmdir(path.join(root, dir));
+    } catch {
+      return;
+    }
+  }
+}
+
+export interface UndoResult {
+  /** Files and blocks put back the way they were. */
+  restored: string[];
+  /** Files changed since init, left alone; restore them by hand or force. */
+  skipped: string[];
+}
+
+/**
+ * Put back every recorded file and remove the managed blocks, newest
+ * change first. Files edited since init are skipped unless `force` is set;
+ * blocks that are already gone count as done.
+ * Dependencies are left to the caller, which knows how to run commands.
+ */
+export async function undoChanges(root: string, manifest: Manifest, { force = false } = {}): Promise<UndoResult> {
+  const result: UndoResult = { restored: [], skipped: [] };
+
+  for (const { file, created } of [...manifest.blocks].reverse()) {
+    const abs = path.join(root, file);
+    const content = readOrNull(abs);
+    const rest = content === null ? null : removeManagedBlock(content);
+    // Removed by hand already: nothing left to undo.
+    if (rest === null) continue;
+    if (created && rest.trim() === "") await removeFile(root, file);
+    else await fs.writeFile(abs, rest);
+    result.restored.push(file);
+  }
+
+  for (const change of [...manifest.files].reverse()) {
+    const abs = path.join(root, change.file);
+    const content = readOrNull(abs);
+    const current = content === null ? null : sha256(content);
+    if (current !== change.sha && !force) {
+      result.skipped.push(change.file);
+      continue;
+    }
+    if (change.before === null) {
+      await removeFile(root, change.file);
+    } else {
+      await fs.mkdir(path.dirname(abs), { recursive: true });
+      await fs.writeFile(abs, change.before);
+      if (change.mode !== undefined) await fs.chmod(abs, change.mode);
+    }
+    result.restored.push(change.file);
+  }
+
+  if (manifest.hooksPath) {
+    setLocalHooksPath(root, manifest.hooksPath.before);
+    result.restored.push("core.hooksPath");
+  }
+
+  return result;
+}
+
+export async function removeManifest(root: string): Promise<void> {
+  await fs.rm(manifestPath(root), { force: true });
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { parseCommand, parseOptions } from "./options.js";
+
+describe("parseOptions", () => {
+  it("leaves every choice to the prompts by default", () => {
+    expect(parseOptions([])).toEqual({
+      yes: false,
+      pm: undefined,
+      hooks: undefined,
+      autofix: false,
+      scaffold: undefined,
+      ci: undefined,
+      workflow: false,
+      patchAgents: undefined,
+      config: undefined,
+      overwriteConfig: false,
+      packageScopes: undefined,
+      dryRun: false,
+      help: false,
+    });
+  });
+
+  it("reads the provisioning flags", () => {
+    expect(
+      parseOptions([
+        "--yes",
+        "--pm",
+        "pnpm",
+        "--hooks",
+        "lefthook",
+        "--autofix",
+        "--no-scaffold",
+        "--no-workflow",
+        "--patch-agents",
+        "CLAUDE.md, AGENTS.md",
+        "--config",
+        "./muselet.json",
+        "--overwrite-config",
+        "--no-package-scopes",
+        "--dry-run",
+      ]),
+    ).toEqual({
+      yes: true,
+      pm: "pnpm",
+      hooks: "lefthook",
+      autofix: true,
+      scaffold: false,
+      ci: "none",
+      workflow: false,
+      patchAgents: ["CLAUDE.md", "AGENTS.md"],
+      config: "./muselet.json",
+      overwriteConfig: true,
+      packageScopes: false,
+      dryRun: true,
+      help: false,
+    });
+  });
+
+  it("accepts short flags and --workflow", () => {
+    expect(parseOptions(["-y", "--workflow"])).toMatchObject({ yes: true, ci: undefined, workflow: true });
+    expect(parseOptions(["-h"]).help).toBe(true);
+  });
+
+  it("patches nothing with --no-patch-agents", () => {
+    expect(parseOptions(["--no-patch-agents"]).patchAgents).toEqual([]);
+  });
+
+  it("skips prompts without a TTY", () => {
+    expect(parseOptions([], { isTTY: false }).yes).toBe(true);
+  });
+
+  it("rejects unknown package managers", () => {
+    expect(() => parseOptions(["--pm", "bun"])).toThrow(
+      '--pm must be one of pnpm, yarn, npm (got "bun")',
+    );
+  });
+
+  it("rejects unknown hook managers", () => {
+    expect(() => parseOptions(["--hooks", "overcommit"])).toThrow(
+      '--hooks must be one of husky, lefthook, simple-git-hooks, pre-commit, git, none (got "overcommit")',
+    );
+  });
+
+  it("picks a CI provider", () => {
+    expect(parseOptions(["--ci", "gitlab"]).ci).toBe("gitlab");
+    expect(() => parseOptions(["--ci", "jenkins"])).toThrow(
+      '--ci must be one of github, gitlab, bitbucket, azure, shell, none (got "jenkins")',
+    );
+  });
+
+  it("rejects contradictory flags", () => {
+    expect(() => parseOptions(["--ci", "gitlab", "--no-workflow"])).toThrow(/can't be used together/);
+    expect(() => parseOptions(["--workflow", "--no-workflow"])).toThrow(/can't be used together/);
+    expect(() => parseOptions(["--patch-agents", "CLAUDE.md", "--no-patch-agents"])).toThrow(
+      /can't be used together/,
+    );
+    expect(() => parseOptions(["--package-scopes", "--no-package-scopes"])).toThrow(/can't be used together/);
+  });
+
+  it("rejects unknown flags", () => {
+    expect(() => parseOptions(["--force"])).toThrow(/--force/);
+  });
+});
+
+describe("parseCommand", () => {
+  it("runs init without a subcommand", () => {
+    expect(parseCommand(["--yes"])).toMatchObject({ command: "init", options: { yes: true } });
+    expect(parseCommand(["init", "--dry-run"])).toMatchObject({ command: "init", options: { dryRun: true } });
+  });
+
+  it("reads doctor's flags", () => {
+    expect(parseCommand(["doctor", "--fix"], { isTTY: false })).toEqual({
+      command: "doctor",
+      options: { fix: true, interactive: false, help: false },
+    });
+    expect(() => parseCommand(["doctor", "--yes"])).toThrow(/--yes/);
+  });
+
+  it("reads uninstall's flags", () => {
+    expect(parseCommand(["uninstall", "--force"])).toEqual({
+      command: "uninstall",
+      options: { yes: false, force: true, help: false },
+    });
+    expect(parseCommand(["uninstall"], { isTTY: false }).options).toMatchObject({ yes: true });
+  });
+
+  it("reads fix's file and flags", () => {
+    expect(parseCommand(["fix", ".git/COMMIT_EDITMSG", "--check", "--cwd", "web"])).toEqual({
+      command: "fix",
+      options: { file: ".git/COMMIT_EDITMSG", check: true, config: undefined, cwd: "web", help: false },
+    });
+    expect(parseCommand(["fix"]).options).toMatchObject({ file: undefined });
+    expect(() => parseCommand(["fix", "a", "b"])).toThrow(/one message file/);
+  });
+
+  it("reads audit's range and format", () => {
+    expect(parseCommand(["audit", "main..HEAD", "--format", "html", "-o", "audit.html"])).toEqual({
+      command: "audit",
+      options: { range: "main..HEAD", format: "html", output: "audit.html", config: undefined, cwd: undefined, help: false },
+    });
+    expect(parseCommand(["audit"]).options).toMatchObject({ range: undefined, format: "table" });
+    expect(() => parseCommand(["audit", "--format", "csv"])).toThrow(/Unknown format "csv"/);
+  });
+
+  it("reads the hook arguments for scaffold", () => {
+    expect(parseCommand(["scaffold", ".git/COMMIT_EDITMSG", "commit", "HEAD"])).toEqual({
+      command: "scaffold",
+      options: { file: ".git/COMMIT_EDITMSG", source: "commit", config: undefined, cwd: undefined, help: false },
+    });
+    // An empty second argument is what git passes for a plain `git commit`.
+    expect(parseCommand(["scaffold", "MSG", ""]).options).toMatchObject({ source: undefined });
+  });
+});
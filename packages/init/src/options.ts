@@ -0,0 +1,426 @@
+import { parseArgs } from "node:util";
+import { HOOK_MANAGERS, type HookManager } from "./hooks.js";
+import { CI_PROVIDERS, type CiProvider } from "./templates/ci.js";
+
+export type PackageManager = "pnpm" | "yarn" | "npm";
+
+const PACKAGE_MANAGERS: readonly PackageManager[] = ["pnpm", "yarn", "npm"];
+
+export interface InitOptions {
+  /** Skip every prompt and take the default (or flag) answer. */
+  yes: boolean;
+  pm?: PackageManager;
+  /** Hook manager to use; `"none"` skips the commit-msg hook. */
+  hooks?: HookManager | "none";
+  /** Run `muselet fix` on the message before commitlint in the hook. */
+  autofix: boolean;
+  /** Add the prepare-commit-msg hook; `undefined` leaves it to the prompt. */
+  scaffold?: boolean;
+  /** CI check to add; `"none"` skips it, `undefined` leaves it to the prompt. */
+  ci?: CiProvider | "none";
+  /** Add the CI check without asking, for the detected provider. */
+  workflow: boolean;
+  /** Agent instruction files to patch; `undefined` means "the detected ones". */
+  patchAgents?: string[];
+  /** muselet config file with the rules, used instead of the defaults. */
+  config?: string;
+  overwriteConfig: boolean;
+  /** Add a scope override per workspace package; `undefined` leaves it to the prompt. */
+  packageScopes?: boolean;
+  /** Print the setup recap and exit without touching anything. */
+  dryRun: boolean;
+  help: boolean;
+}
+
+export interface DoctorOptions {
+  /** Apply every available fix without asking. */
+  fix: boolean;
+  /** Whether fixes can be offered one by one at a prompt. */
+  interactive: boolean;
+  help: boolean;
+}
+
+export interface UninstallOptions {
+  /** Skip the confirmation prompt. */
+  yes: boolean;
+  /** Restore files even if they changed since init. */
+  force: boolean;
+  help: boolean;
+}
+
+export interface FixCommandOptions {
+  /** The message file; `undefined` means the repository's COMMIT_EDITMSG. */
+  file?: string;
+  /** Report whether the file would change instead of writing it. */
+  check: boolean;
+  /** muselet config file to read aliases, order and style from. */
+  config?: string;
+  /** Directory to look for the config in, instead of the current one. */
+  cwd?: string;
+  help: boolean;
+}
+
+export interface ScaffoldCommandOptions {
+  /** The message file; `undefined` means the repository's COMMIT_EDITMSG. */
+  file?: string;
+  /** Where the message came from: git's second prepare-commit-msg argument. */
+  source?: string;
+  /** muselet config file to read the sections from. */
+  config?: string;
+  /** Directory to look for the config in, instead of the project root. */
+  cwd?: string;
+  help: boolean;
+}
+
+export type AuditFormat = "table" | "json" | "html";
+
+export const AUDIT_FORMATS: readonly AuditFormat[] = ["table", "json", "html"];
+
+export interface AuditOptions {
+  /** Commits to audit, as `git log` takes them; `undefined` means HEAD. */
+  range?: string;
+  format: AuditFormat;
+  /** File to write the report to instead of stdout. */
+  output?: string;
+  /** muselet config file to read the sections from. */
+  config?: string;
+  /** Directory to look for the config in, instead of the project root. */
+  cwd?: string;
+  help: boolean;
+}
+
+export type Invocation =
+  | { command: "init"; options: InitOptions }
+  | { command: "doctor"; options: DoctorOptions }
+  | { command: "uninstall"; options: UninstallOptions }
+  | { command: "fix"; options: FixCommandOptions }
+  | { command: "scaffold"; options: ScaffoldCommandOptions }
+  | { command: "audit"; options: AuditOptions };
+
+export const USAGE = `Usage: muselet [init] [options]
+       muselet doctor [--fix]
+       muselet uninstall [--force]
+       muselet fix [<file>] [--check]
+       muselet scaffold [<file> [<source>]]
+       muselet audit [<range>] [--format table|json|html]
+
+Also installed as muselet-init.
+
+Options:
+  -y, --yes                  Accept defaults without prompting
+      --pm <pnpm|yarn|npm>   Package manager (default: from packageManager or
+                             the lockfile in the project root)
+      --hooks <manager>      Where to add the commit-msg hook: husky, lefthook,
+                             simple-git-hooks, pre-commit, git or none
+                             (default: the detected manager, else git)
+      --autofix              Run \`muselet fix\` on the message before
+                             commitlint in the hook init adds
+      --scaffold             Add a prepare-commit-msg hook that lists the
+                             sections the commit's type needs (default: ask,
+                             yes with --yes)
+      --no-scaffold          Don't add the prepare-commit-msg hook
+      --ci <provider>        CI check to add: github, gitlab, bitbucket, azure,
+                             shell or none (default: detected from the repo)
+      --workflow             Add the CI check for the detected provider
+      --no-workflow          Skip the CI check (same as --ci none)
+      --patch-agents <files> Comma-separated agent instruction files to patch
+                             (default: every detected file)
+      --no-patch-agents      Don't patch agent instruction files
+      --config <file>        muselet config file (JSON, YAML or .mjs) with the rules to use
+      --overwrite-config     Replace an existing commitlint config instead of
+                             merging muselet into it
+      --package-scopes       In a workspace, add each package as a scope in the
+                             context rules
+      --no-package-scopes    Don't add workspace packages as scopes
+      --dry-run              Print the setup recap without changing anything
+  -h, --help                 Show this help
+
+Prompts are skipped when stdin is not a TTY, as with --yes.
+
+Run from anywhere in a repo: dependencies and the commitlint config go in
+the workspace root (or the nearest package.json), hooks and CI in the git root.
+
+Run \`doctor\` to check an existing setup. Init records what it changes so
+\`uninstall\` can undo it; a failed setup is rolled back automatically.`;
+
+export const DOCTOR_USAGE = `Usage: muselet doctor [options]
+
+Checks that the plugin is installed, the commitlint config loads and uses
+it, the commit-msg hook runs commitlint, a CI check exists and muselet.md
+is current.
+
+Options:
+      --fix     Apply every suggested fix without asking
+  -h, --help    Show this help
+
+Fixes are offered one by one when stdin is a TTY. Exits with 1 if a check
+still fails.`;
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse the init command line. Throws on unknown flags or bad values so
+ * provisioning scripts fail loudly instead of running with defaults.
+ */
+export function parseOptions(argv: string[], { isTTY = true } = {}): InitOptions {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    options: {
+      yes: { type: "boolean", short: "y" },
+      pm: { type: "string" },
+      hooks: { type: "string" },
+      ci: { type: "string" },
+      workflow: { type: "boolean" },
+      autofix: { type: "boolean" },
+      scaffold: { type: "boolean" },
+      "no-scaffold": { type: "boolean" },
+      "no-workflow": { type: "boolean" },
+      "patch-agents": { type: "string" },
+      "no-patch-agents": { type: "boolean" },
+      config: { type: "string" },
+      "overwrite-config": { type: "boolean" },
+      "package-scopes": { type: "boolean" },
+      "no-package-scopes": { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.pm !== undefined && !PACKAGE_MANAGERS.includes(values.pm as PackageManager)) {
+    throw new Error(`--pm must be one of ${PACKAGE_MANAGERS.join(", ")} (got "${values.pm}")`);
+  }
+  const hookChoices = [...HOOK_MANAGERS, "none"];
+  if (values.hooks !== undefined && !hookChoices.includes(values.hooks)) {
+    throw new Error(`--hooks must be one of ${hookChoices.join(", ")} (got "${values.hooks}")`);
+  }
+  const ciChoices = [...CI_PROVIDERS, "none"];
+  if (values.ci !== undefined && !ciChoices.includes(values.ci)) {
+    throw new Error(`--ci must be one of ${ciChoices.join(", ")} (got "${values.ci}")`);
+  }
+  if (values.workflow && values["no-workflow"]) {
+    throw new Error("--workflow and --no-workflow can't be used together");
+  }
+  if (values.ci !== undefined && values["no-workflow"] && values.ci !== "none") {
+    throw new Error("--ci and --no-workflow can't be used together");
+  }
+  if (values["patch-agents"] !== undefined && values["no-patch-agents"]) {
+    throw new Error("--patch-agents and --no-patch-agents can't be used together");
+  }
+
+  if (values.scaffold && values["no-scaffold"]) {
+    throw new Error("--scaffold and --no-scaffold can't be used together");
+  }
+  if (values["package-scopes"] && values["no-package-scopes"]) {
+    throw new Error("--package-scopes and --no-package-scopes can't be used together");
+  }
+
+  let ci = values.ci as CiProvider | "none" | undefined;
+  if (values["no-workflow"]) ci = "none";
+
+  let patchAgents: string[] | undefined;
+  if (values["patch-agents"] !== undefined) patchAgents = splitList(values["patch-agents"]);
+  if (values["no-patch-agents"]) patchAgents = [];
+
+  return {
+    yes: Boolean(values.yes) || !isTTY,
+    pm: values.pm as PackageManager | undefined,
+    hooks: values.hooks as HookManager | "none" | undefined,
+    autofix: Boolean(values.autofix),
+    scaffold: values.scaffold ? true : values["no-scaffold"] ? false : undefined,
+    ci,
+    workflow: Boolean(values.workflow),
+    patchAgents,
+    config: values.config,
+    overwriteConfig: Boolean(values["overwrite-config"]),
+    packageScopes: values["package-scopes"] ? true : values["no-package-scopes"] ? false : undefined,
+    dryRun: Boolean(values["dry-run"]),
+    help: Boolean(values.help),
+  };
+}
+
+export function parseDoctorOptions(argv: string[], { isTTY = true } = {}): DoctorOptions {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    options: {
+      fix: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  return { fix: Boolean(values.fix), interactive: isTTY, help: Boolean(values.help) };
+}
+
+export const UNINSTALL_USAGE = `Usage: muselet uninstall [options]
+
+Undoes what init did, from the manifest it saved: restores the files it
+changed, deletes the ones it created, removes the blocks it appended to
+agent instruction files, and uninstalls the packages it added.
+
+Options:
+  -y, --yes     Don't ask for confirmation
+      --force   Restore files even if they changed since init
+  -h, --help    Show this help
+
+Files changed since init are left alone unless --force is given.`;
+
+export function parseUninstallOptions(argv: string[], { isTTY = true } = {}): UninstallOptions {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    options: {
+      yes: { type: "boolean", short: "y" },
+      force: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  return { yes: Boolean(values.yes) || !isTTY, force: Boolean(values.force), help: Boolean(values.help) };
+}
+
+export const FIX_USAGE = `Usage: muselet fix [<file>] [options]
+
+Rewrites a commit message file into the canonical section format: labels,
+bold labels and alias headings become \`### Section\` headings (or the
+style context-section-style asks for), sections go in order, empty ones
+are dropped, and Refs and Breaking move into the trailer block. git's
+comments below the message are left alone.
+
+<file> defaults to .git/COMMIT_EDITMSG, so it works as a hook command:
+muselet fix "$1".
+
+Options:
+      --check          Don't write the file; exit with 1 if it would change
+      --config <file>  muselet config file (JSON, YAML or .mjs) to read
+                       aliases, order and style from
+      --cwd <dir>      Look for the config in <dir> (default: the project
+                       root, found as for init)
+  -h, --help           Show this help
+
+Without a muselet config, the rules come from the commitlint config.`;
+
+export function parseFixOptions(argv: string[]): FixCommandOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    strict: true,
+    allowPositionals: true,
+    options: {
+      check: { type: "boolean" },
+      config: { type: "string" },
+      cwd: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (positionals.length > 1) throw new Error(`Expected one message file (got ${positionals.join(", ")})`);
+  return {
+    file: positionals[0],
+    check: Boolean(values.check),
+    config: values.config,
+    cwd: values.cwd,
+    help: Boolean(values.help),
+  };
+}
+
+export const SCAFFOLD_USAGE = `Usage: muselet scaffold [<file> [<source>]] [options]
+
+The prepare-commit-msg hook: adds commented headings for the sections the
+message's type and scope still need, or a menu of types and their sections
+when the subject has no type yet. git drops the comment lines when the
+editor closes, so hints left alone never reach the commit.
+
+<file> and <source> are the hook's arguments; <file> defaults to
+.git/COMMIT_EDITMSG. Merges and squashes are left alone, and so are
+commits that don't open an editor (git commit -m without -e).
+
+Options:
+      --config <file>  muselet config file (JSON, YAML or .mjs) to read the
+                       sections from
+      --cwd <dir>      Look for the config in <dir> (default: the project
+                       root, found as for init)
+  -h, --help           Show this help`;
+
+export function parseScaffoldOptions(argv: string[]): ScaffoldCommandOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    strict: true,
+    allowPositionals: true,
+    options: {
+      config: { type: "string" },
+      cwd: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  // git also passes the commit's SHA for -c, -C and --amend; it isn't needed.
+  if (positionals.length > 3) throw new Error(`Expected a message file and its source (got ${positionals.join(", ")})`);
+  return {
+    file: positionals[0],
+    source: positionals[1] || undefined,
+    config: values.config,
+    cwd: values.cwd,
+    help: Boolean(values.help),
+  };
+}
+
+export const AUDIT_USAGE = `Usage: muselet audit [<range>] [options]
+
+Scores existing history against the sections each commit type needs, as
+the context-by-type and context-recommended rules would have: compliance
+by type, scope, author and month, and the sections most often missing.
+Reads the local repository only.
+
+<range> is anything git log takes, e.g. main..HEAD or v1.0.0.. (default:
+HEAD, the whole history). Merges, reverts, commits without a conventional
+type and types with no sections configured are skipped.
+
+Options:
+      --format <format>  table, json or html (default: table)
+  -o, --output <file>    Write the report to <file> instead of stdout
+      --config <file>    muselet config file (JSON, YAML or .mjs) to read
+                         the sections from
+      --cwd <dir>        Look for the config in <dir> (default: the project
+                         root, found as for init)
+  -h, --help             Show this help`;
+
+export function parseAuditOptions(argv: string[]): AuditOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    strict: true,
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      output: { type: "string", short: "o" },
+      config: { type: "string" },
+      cwd: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (positionals.length > 1) throw new Error(`Expected one revision range (got ${positionals.join(", ")})`);
+  const format = values.format ?? "table";
+  if (!AUDIT_FORMATS.includes(format as AuditFormat)) {
+    throw new Error(`Unknown format "${format}" (expected ${AUDIT_FORMATS.join(", ")})`);
+  }
+  return {
+    range: positionals[0],
+    format: format as AuditFormat,
+    output: values.output,
+    config: values.config,
+    cwd: values.cwd,
+    help: Boolean(values.help),
+  };
+}
+
+/** Split off the subcommand; without one, the arguments are init's. */
+export function parseCommand(argv: string[], { isTTY = true } = {}): Invocation {
+  const [first, ...rest] = argv;
+  if (first === "doctor") return { command: "doctor", options: parseDoctorOptions(rest, { isTTY }) };
+  if (first === "uninstall") return { command: "uninstall", options: parseUninstallOptions(rest, { isTTY }) };
+  if (first === "fix") return { command: "fix", options: parseFixOptions(rest) };
+  if (first === "scaffold") return { command: "scaffold", options: parseScaffoldOptions(rest) };
+  if (first === "audit") return { command: "audit", options: parseAuditOptions(rest) };
+  if (first === "init") return { command: "init", options: parseOptions(rest, { isTTY }) };
+  return { command: "init", options: parseOptions(argv, { isTTY }) };
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import { chmodSync, mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { scaffold } from "./scaffold.js";
+import type { ProjectRoots } from "./workspace.js";
+
+// Config passed through the environment would override the repositories
+// these tests create.
+for (const key of Object.keys(process.env)) {
+  if (/^GIT_CONFIG_(COUNT|KEY_\d+|VALUE_\d+)$/.test(key)) delete process.env[key];
+}
+
+let dir: string;
+let roots: ProjectRoots;
+
+const write = (file: string, content: string) => writeFileSync(path.join(dir, file), content);
+const read = (file: string) => readFileSync(path.join(dir, file), "utf-8");
+const options = { help: false };
+const bin = path.resolve(import.meta.dirname, "../dist/index.js");
+
+beforeEach(() => {
+  dir = realpathSync(mkdtempSync(path.join(tmpdir(), "muselet-scaffold-")));
+  execFileSync("git", ["init", "-q"], { cwd: dir });
+  roots = { cwd: dir, gitRoot: dir, packageRoot: dir, workspace: null };
+  vi.stubEnv("GIT_EDITOR", "vi");
+  vi.stubEnv("PRE_COMMIT_COMMIT_MSG_SOURCE", undefined);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("scaffold", () => {
+  it("adds the headings the project's config asks for", async () => {
+    write("muselet.config.yaml", "types:\n  fix: { required: [Why, Cause] }\n");
+    write(".git/COMMIT_EDITMSG", "fix: x\n");
+    expect(await scaffold({ ...options, source: "message" }, roots)).toBe(true);
+    expect(read(".git/COMMIT_EDITMSG")).toBe(
+      "fix: x\n\n# muselet: fix commits need Why, Cause.\n# Uncomment a heading and write below it.\n#\n# Why:\n#\n# Cause:\n",
+    );
+  });
+
+  it("offers headings that survive git's cleanup once uncommented", () => {
+    write("muselet.config.yaml", "types:\n  fix: { required: [Why] }\n");
+    write(".git/hooks/prepare-commit-msg", `#!/bin/sh\nexec "${process.execPath}" "${bin}" scaffold "$1" "$2"\n`);
+    write("editor.sh", `#!/bin/sh\nsed -i 's/^# Why:$/Why:\\nstale cache/' "$1"\n`);
+    chmodSync(path.join(dir, ".git/hooks/prepare-commit-msg"), 0o755);
+    chmodSync(path.join(dir, "editor.sh"), 0o755);
+    const env = { ...process.env, GIT_EDITOR: path.join(dir, "editor.sh") };
+    const git = (...args: string[]) => execFileSync("git", ["-c", "user.name=t", "-c", "user.email=t@t", ...args], { cwd: dir, env, encoding: "utf-8" });
+    git("commit", "-q", "--allow-empty", "-e", "-m", "fix: x");
+    expect(git("log", "-1", "--format=%B")).toBe("fix: x\n\nWhy:\nstale cache\n\n");
+  });
+
+  it("does nothing when no editor will open, or for a merge", async () => {
+    write("MSG", "fix: x\n");
+    vi.stubEnv("GIT_EDITOR", ":");
+    await scaffold({ ...options, file: "MSG", source: "message" }, roots);
+    expect(read("MSG")).toBe("fix: x\n");
+    vi.stubEnv("GIT_EDITOR", "vi");
+    vi.stubEnv("PRE_COMMIT_COMMIT_MSG_SOURCE", "merge");
+    await scaffold({ ...options, file: "MSG" }, roots);
+    expect(read("MSG")).toBe("fix: x\n");
+  });
+
+  it("warns but lets the commit go on with an invalid config", async () => {
+    write("MSG", "fix: x\n");
+    write("muselet.config.json", '{ "types": { "fix": "Why" } }');
+    expect(await scaffold({ ...options, file: "MSG" }, roots)).toBe(true);
+    expect(read("MSG")).toBe("fix: x\n");
+    expect(await scaffold({ ...options, file: "nope" }, roots)).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import path from "node:path";
+import { readFileSync, writeFileSync } from "node:fs";
+import { scaffoldMessage } from "@muselet/commitlint-plugin";
+import { resolveFixOptions } from "./fix.js";
+import { commentChar, gitPath } from "./git.js";
+import type { ScaffoldCommandOptions } from "./options.js";
+import type { ProjectRoots } from "./workspace.js";
+
+/**
+ * Add the section scaffolding to a commit message file, as the
+ * prepare-commit-msg hook. A failing hook aborts the commit, so a broken
+ * config only warns; `false` is for a message file that can't be read.
+ */
+export async function scaffold(options: ScaffoldCommandOptions, roots: ProjectRoots): Promise<boolean> {
+  // git sets GIT_EDITOR=: for the hook when no editor will open. Comment
+  // lines are only stripped after editing, so hints would end up committed.
+  if (process.env.GIT_EDITOR === ":") return true;
+
+  const file = options.file ?? gitPath(roots.cwd, "COMMIT_EDITMSG");
+  if (!file) {
+    console.error("Not a git repository: pass the message file to scaffold.");
+    return false;
+  }
+  const abs = path.resolve(roots.cwd, file);
+
+  let message: string;
+  try {
+    message = readFileSync(abs, "utf-8");
+  } catch {
+    console.error(`Can't read ${path.relative(roots.cwd, abs)}.`);
+    return false;
+  }
+
+  try {
+    const { types, aliases, style } = await resolveFixOptions(
+      options.cwd ? path.resolve(roots.cwd, options.cwd) : roots.packageRoot,
+      options.config,
+    );
+    // pre-commit passes the source through the environment instead.
+    const source = options.source ?? process.env.PRE_COMMIT_COMMIT_MSG_SOURCE;
+    const scaffolded = scaffoldMessage(message, source, { types, aliases, style, commentChar: commentChar(roots.cwd) });
+    if (scaffolded !== message) writeFileSync(abs, scaffolded);
+  } catch (err) {
+    console.error(`muselet: no scaffolding (${err instanceof Error ? err.message : String(err)})`);
+  }
+  return true;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_VALUE, inferTier } from "@muselet/commitlint-plugin";
+import { agentInstructions } from "./agent-instructions.js";
+
+describe("agentInstructions", () => {
+  it("lists the configured sections per type", () => {
+    const text = agentInstructions(DEFAULT_VALUE);
+    expect(text).toContain("### perf\n- **Required:** Why, Metrics\n- **Recommended:** Approach, Tradeoffs\n");
+    expect(text).toContain("### Other types\n");
+  });
+
+  it("follows customised rules, scopes and aliases", () => {
+    const text = agentInstructions({
+      fix: ["Why", "Refs"],
+      feat: {
+        required: ["Why"],
+        aliases: { Refs: ["Tickets"] },
+        scopes: { api: { required: ["Invariants"] }, deps: { required: [], inherit: false }, web: [] },
+      },
+      "feat(db)": { recommended: ["Migration"] },
+      "chore(release)": ["Refs"],
+    });
+    expect(text).toContain("### fix\n- **Required:** Why, Refs\n\n");
+    expect(text).toContain(
+      [
+        "### feat",
+        "- **Required:** Why",
+        "- **Refs** can also be headed `### Tickets`",
+        "- **Scope `api`:** also requires Invariants",
+        "- **Scope `deps`:** no sections needed",
+        "- **Scope `db`:** also recommends Migration",
+      ].join("\n"),
+    );
+    expect(text).toContain("### chore\n- No sections needed outside the scopes below\n- **Scope `release`:** also requires Refs");
+    expect(text).not.toContain("### refactor");
+  });
+
+  it("labels each example with the tier it reaches", () => {
+    const examples = [...agentInstructions(DEFAULT_VALUE).matchAll(/^## Example \(Tier (\d)\)\n\n```\n(\w+).*\n([^]*?)```$/gm)];
+    expect(examples).toHaveLength(2);
+    for (const [, tier, type, body] of examples) {
+      expect(inferTier({ type, body })).toBe(Number(tier));
+    }
+  });
+});
@@ -1,4 +1,69 @@
-export const agentInstructions = `# Commit Message Convention (muselet)
+import type { RuleValue, SectionConfig } from "@muselet/commitlint-plugin";
+
+function normalize(value: SectionConfig | string[]): SectionConfig {
+  return Array.isArray(value) ? { required: value } : value;
+}
+
+function list(names: string[] | undefined): string {
+  return (names ?? []).join(", ");
+}
+
+/** One line per scope override: what it adds to, or puts in place of, the type's sections. */
+function describeOverride(scope: string, config: SectionConfig): string | null {
+  const parts = [
+    config.required?.length ? `requires ${list(config.required)}` : "",
+    config.recommended?.length ? `recommends ${list(config.recommended)}` : "",
+  ].filter(Boolean);
+  if (config.inherit === false) {
+    return `- **Scope \`${scope}\`:** ${parts.length > 0 ? `only ${parts.join("; ")}` : "no sections needed"}`;
+  }
+  return parts.length > 0 ? `- **Scope \`${scope}\`:** also ${parts.join("; ")}` : null;
+}
+
+/** `config` is null for a type only configured for some scopes. */
+function describeType(type: string, config: SectionConfig | null, overrides: [string, SectionConfig][]): string {
+  const lines = [`### ${type}`];
+  if (config?.required?.length) lines.push(`- **Required:** ${list(config.required)}`);
+  if (config?.recommended?.length) lines.push(`- **Recommended:** ${list(config.recommended)}`);
+  if (!config?.required?.length && !config?.recommended?.length) {
+    lines.push(config ? "- No sections needed" : "- No sections needed outside the scopes below");
+  }
+  for (const [name, spellings] of Object.entries(config?.aliases ?? {})) {
+    lines.push(`- **${name}** can also be headed ${spellings.map((s) => `\`### ${s}\``).join(" or ")}`);
+  }
+  for (const [scope, override] of overrides) {
+    const line = describeOverride(scope, override);
+    if (line) lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+/** The "Sections by Type" list for `value`, scope overrides under their type. */
+function sectionsByType(value: RuleValue): string {
+  const types = new Map<string, { config: SectionConfig | null; overrides: [string, SectionConfig][] }>();
+  for (const [key, raw] of Object.entries(value)) {
+    const scoped = /^([^()]+)\((.+)\)$/.exec(key);
+    const type = scoped ? scoped[1] : key;
+    const entry = types.get(type) ?? { config: null, overrides: [] };
+    const config = normalize(raw);
+    if (scoped) {
+      entry.overrides.push([scoped[2], config]);
+    } else {
+      entry.config = config;
+      const scopes = Object.entries(config.scopes ?? {}).map(([scope, v]): [string, SectionConfig] => [scope, normalize(v)]);
+      entry.overrides.unshift(...scopes);
+    }
+    types.set(type, entry);
+  }
+  return [...types].map(([type, { config, overrides }]) => describeType(type, config, overrides)).join("\n\n");
+}
+
+/**
+ * muselet.md: the commit convention for agents, with the sections this
+ * project's \`context-by-type\` config actually asks for.
+ */
+export function agentInstructions(value: RuleValue): string {
+  return `# Commit Message Convention (muselet)
 
 Think of each commit as a **replayable migration** — not just of code, but of decisions.
 A future agent should be able to read your commit messages (without diffs) and reproduce
@@ -16,38 +81,17 @@ tier that applies and only scale down when there's genuinely nothing more to say
 
 ## Sections by Type
 
-Use markdown headers (\\\`### Section\\\`) in the commit body. See examples below.
-
-### fix
-- **Required:** Why (what was broken and why)
-- **Recommended:** Cause (root cause), Approach (how you fixed it)
-- **Optional:** Alternatives, Refs
-
-### feat
-- **Required:** Why (user need or problem)
-- **Recommended:** Approach (design/strategy), Alternatives (what you considered)
-- **Optional:** Tradeoffs, Migration, Breaking, Refs
+Use markdown headers (\`### Section\`) in the commit body. See examples below.
 
-### refactor
-- **Required:** Why (structural problem), Approach (new design)
-- **Recommended:** Alternatives (other designs considered), Invariants (what must stay true)
-- **Optional:** Tradeoffs, Migration
+${sectionsByType(value)}
 
-### perf
-- **Required:** Why (performance issue), Metrics (before/after numbers)
-- **Recommended:** Approach, Tradeoffs
-- **Optional:** Alternatives, Refs
-
-### docs, test, chore, ci, build
-- **Recommended:** Why (if a decision was made)
-- Body can be skipped for truly mechanical changes
-
-### style
-- No body needed. The diff is the message.
+### Other types
+- No sections are enforced. Add a Why if a decision was made; skip the body for
+  mechanical changes (formatting, version bumps)
 
 ## Example (Tier 3)
 
-\\\`\\\`\\\`
+\`\`\`
 fix: resolve race condition in WebSocket reconnect
 
 ### Why
@@ -62,17 +106,21 @@ the 3s reconnect window.
 ### Approach
 Added a connection-id check — message handlers ignore events from
 connections that aren't the current active one.
-\\\`\\\`\\\`
+
+### Alternatives
+Closing the old connection before opening the new one would also stop
+the duplicates, but drops messages that are in flight during the switch.
+\`\`\`
 
 ## Example (Tier 1)
 
-\\\`\\\`\\\`
+\`\`\`
 feat(cli): add --json flag for machine-readable output
 
 ### Why
 CI pipelines need to parse muselet output programmatically.
 Shell-parsing human-readable tables is fragile.
-\\\`\\\`\\\`
+\`\`\`
 
 ## The Replay Test
 
@@ -81,13 +129,14 @@ reproduce the decision in a different codebase?* If not, add more context.
 
 ## Config
 
-This project's \\\`commitlint.config.mjs\\\` extends \\\`@commitlint/config-conventional\\\`,
-which enforces standard rules like \\\`body-max-line-length\\\` (100 chars). If your context
+This project's \`commitlint.config.mjs\` extends \`@commitlint/config-conventional\`,
+which enforces standard rules like \`body-max-line-length\` (100 chars). If your context
 sections need longer lines, you can override it:
 
-\\\`\\\`\\\`js
+\`\`\`js
 rules: {
   "body-max-line-length": [0], // disable
 }
-\\\`\\\`\\\`
+\`\`\`
 `;
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { auditHistory } from "../audit.js";
+import { auditReportHtml } from "./audit-report.js";
+
+const report = auditHistory([
+  {
+    hash: "0123456789abcdef0123456789abcdef01234567",
+    merge: false,
+    author: "<script>alert(1)</script>",
+    date: "2026-03-01T00:00:00Z",
+    message: "fix: handle <b> & \"quotes\"",
+  },
+]);
+
+describe("auditReportHtml", () => {
+  it("is a standalone page without scripts or external resources", () => {
+    const html = auditReportHtml(report);
+    expect(html.startsWith("<!doctype html>")).toBe(true);
+    expect(html).not.toMatch(/<script|<link|src=/);
+  });
+
+  it("escapes commit text and lists commits missing required sections", () => {
+    const html = auditReportHtml(report);
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).toContain("<td>fix: handle &lt;b&gt; &amp; &quot;quotes&quot;</td>");
+    expect(html).toContain('<code>0123456</code>');
+    expect(html).toContain('<td class="missing">Why</td>');
+    expect(html).toContain('<th class="num">Tier 0</th>');
+  });
+});
@@ -0,0 +1,111 @@
+import type { AuditCommit, AuditGroup, AuditReport } from "../audit.js";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function ratio(n: number, of: number): number {
+  return of === 0 ? 0 : Math.round((n / of) * 100);
+}
+
+/** A share as a number and a bar. */
+function share(n: number, of: number): string {
+  const value = ratio(n, of);
+  return `<td class="num">${n}</td><td class="share"><span class="bar" style="width: ${value}%"></span><span>${value}%</span></td>`;
+}
+
+function groupTable(title: string, column: string, groups: AuditGroup[], minTiers: boolean): string {
+  if (groups.length === 0) return "";
+  const rows = groups
+    .map((g) => {
+      const tiers = g.tiers.map((n) => `<td class="num">${n}</td>`).join("");
+      const below = minTiers ? `<td class="num">${g.belowTier}</td>` : "";
+      return `<tr><td>${escapeHtml(g.name)}</td><td class="num">${g.commits}</td>${share(g.compliant, g.commits)}${share(g.complete, g.commits)}${tiers}${below}</tr>`;
+    })
+    .join("\n");
+  return `<section>
+<h2>${title}</h2>
+<table>
+<thead><tr><th>${column}</th><th class="num">Commits</th><th colspan="2">Compliant</th><th colspan="2">Complete</th>${[0, 1, 2, 3].map((tier) => `<th class="num">Tier ${tier}</th>`).join("")}${minTiers ? '<th class="num">Below tier</th>' : ""}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</section>`;
+}
+
+const STYLE = `body { font: 14px/1.5 system-ui, sans-serif; color: #1f2328; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.5rem; }
+h2 { font-size: 1.1rem; margin-top: 2rem; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #d1d9e0; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.share { width: 20%; position: relative; }
+.share span:last-child { position: relative; }
+.bar { position: absolute; inset: 0.35rem auto 0.35rem 0; background: #b4e2c2; }
+.summary { font-size: 1.1rem; }
+code { font-size: 0.9em; }
+.missing { color: #b3261e; }`;
+
+/**
+ * The audit as a standalone HTML page: no scripts and nothing loaded from
+ * elsewhere, so it can be opened straight from disk or attached to an issue.
+ */
+export function auditReportHtml(report: AuditReport): string {
+  const { overall, skipped } = report;
+  const missing = report.missing
+    .map((m) => `<tr><td>${escapeHtml(m.section)}</td><td class="num">${m.required}</td><td class="num">${m.recommended}</td></tr>`)
+    .join("\n");
+  const below = (c: AuditCommit) => c.minTier !== null && c.tier < c.minTier;
+  const failing = report.commits
+    .filter((c) => c.missingRequired.length > 0 || below(c))
+    .map((c) => {
+      const tier = below(c) ? `<td class="missing">${c.tier} (needs ${c.minTier})</td>` : `<td>${c.tier}</td>`;
+      return `<tr><td><code>${c.hash.slice(0, 7)}</code></td><td>${escapeHtml(c.subject)}</td><td>${escapeHtml(c.author)}</td><td>${c.date.slice(0, 10)}</td>${tier}<td class="missing">${escapeHtml(c.missingRequired.join(", "))}</td></tr>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>muselet audit: ${escapeHtml(report.range)}</title>
+<style>
+${STYLE}
+</style>
+</head>
+<body>
+<h1>muselet audit of <code>${escapeHtml(report.range)}</code></h1>
+<p class="summary">${overall.compliant} of ${overall.commits} checked commits (${ratio(overall.compliant, overall.commits)}%) have every required section; ${overall.complete} (${ratio(overall.complete, overall.commits)}%) have the recommended ones too.</p>
+<p>Tiers: ${overall.tiers.map((n, tier) => `Tier ${tier}: ${n}`).join(", ")}.${report.minTiers ? ` ${overall.belowTier} below their minimum tier.` : ""}</p>
+<p>${report.total} commits in the range. Skipped: ${skipped.merges} merges or reverts, ${skipped.untyped} without a type, ${skipped.unconfigured} of types without sections.</p>
+${groupTable("By type", "Type", report.byType, report.minTiers)}
+${groupTable("By scope", "Scope", report.byScope, report.minTiers)}
+${groupTable("By author", "Author", report.byAuthor, report.minTiers)}
+${groupTable("By month", "Month", report.byMonth, report.minTiers)}
+${missing ? `<section>
+<h2>Most often missing</h2>
+<table>
+<thead><tr><th>Section</th><th class="num">Required</th><th class="num">Recommended</th></tr></thead>
+<tbody>
+${missing}
+</tbody>
+</table>
+</section>` : ""}
+${failing ? `<section>
+<h2>Commits missing required sections${report.minTiers ? " or below their tier" : ""}</h2>
+<table>
+<thead><tr><th>Commit</th><th>Subject</th><th>Author</th><th>Date</th><th>Tier</th><th>Missing</th></tr></thead>
+<tbody>
+${failing}
+</tbody>
+</table>
+</section>` : ""}
+</body>
+</html>
+`;
+}
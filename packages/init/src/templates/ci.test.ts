@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import yaml from "js-yaml";
+import {
+  generateAzurePipeline,
+  generateBitbucketPipeline,
+  generateGitLabJob,
+  generateShellScript,
+  generateWorkflow,
+} from "./ci.js";
+
+const options = { pm: "pnpm" as const, branch: "develop" };
+
+describe("CI templates", () => {
+  it("targets the default branch on GitHub", () => {
+    const workflow = yaml.load(generateWorkflow(options)) as {
+      on: { pull_request: { branches: string[] } };
+    };
+    expect(workflow.on.pull_request.branches).toEqual(["develop"]);
+  });
+
+  it("uses the merge request diff base on GitLab", () => {
+    const job = (yaml.load(generateGitLabJob(options)) as Record<string, Record<string, unknown>>).muselet;
+    expect(job.rules).toEqual([
+      {
+        if: '$CI_PIPELINE_SOURCE == "merge_request_event" && $CI_MERGE_REQUEST_TARGET_BRANCH_NAME == "develop"',
+      },
+    ]);
+    expect(job.script).toEqual([
+      "npm i -g pnpm && pnpm install --frozen-lockfile",
+      [
+        "status=0",
+        'for sha in $(git rev-list --reverse "$CI_MERGE_REQUEST_DIFF_BASE_SHA..$CI_COMMIT_SHA"); do',
+        '  git log -1 --format=%B "$sha" | MUSELET_COMMIT="$sha" npx commitlint --verbose || status=1',
+        "done",
+        'exit "$status"',
+        "",
+      ].join("\n"),
+    ]);
+  });
+
+  it("lints pull requests into the default branch on Bitbucket", () => {
+    const pipeline = yaml.load(generateBitbucketPipeline(options)) as {
+      clone: { depth: string };
+      pipelines: { "pull-requests": Record<string, { step: { script: string[] } }[]> };
+    };
+    expect(pipeline.clone.depth).toBe("full");
+    const [{ step }] = pipeline.pipelines["pull-requests"]["**"];
+    expect(step.script[0]).toBe('[ "$BITBUCKET_PR_DESTINATION_BRANCH" = "develop" ] || exit 0');
+    expect(step.script.at(-1)).toContain('"$BASE..$BITBUCKET_COMMIT"');
+  });
+
+  it("runs on pull requests into the default branch on Azure", () => {
+    const pipeline = yaml.load(generateAzurePipeline(options)) as {
+      trigger: string;
+      pr: { branches: { include: string[] } };
+      steps: { script?: string }[];
+    };
+    expect(pipeline.trigger).toBe("none");
+    expect(pipeline.pr.branches.include).toEqual(["develop"]);
+    expect(pipeline.steps.at(-1)?.script).toContain("$SYSTEM_PULLREQUEST_SOURCECOMMITID");
+  });
+
+  it("lints each commit of the pull request on its own", () => {
+    const workflow = yaml.load(generateWorkflow(options)) as {
+      jobs: { commitlint: { steps: { run?: string }[] } };
+    };
+    const run = workflow.jobs.commitlint.steps.at(-1)?.run;
+    expect(run).toContain(
+      'for sha in $(git rev-list --reverse "${{ github.event.pull_request.base.sha }}..${{ github.event.pull_request.head.sha }}"); do',
+    );
+    expect(run).toContain('MUSELET_COMMIT="$sha" npx commitlint --verbose || status=1');
+    expect(generateShellScript(options)).toContain('MUSELET_COMMIT="$sha" npx --no -- commitlint --verbose');
+  });
+
+  it("defaults the shell script's target branch", () => {
+    expect(generateShellScript(options)).toContain('TARGET_BRANCH="${MUSELET_TARGET_BRANCH:-develop}"');
+  });
+
+  it("runs from a project below the repo root", () => {
+    const nested = { ...options, dir: "web" };
+    const workflow = yaml.load(generateWorkflow(nested)) as {
+      jobs: { commitlint: { defaults: { run: { "working-directory": string } } } };
+    };
+    expect(workflow.jobs.commitlint.defaults.run["working-directory"]).toBe("web");
+
+    const job = (yaml.load(generateGitLabJob(nested)) as Record<string, { script: string[] }>).muselet;
+    expect(job.script[0]).toBe("cd web");
+
+    const pipeline = yaml.load(generateAzurePipeline(nested)) as { steps: { workingDirectory?: string }[] };
+    expect(pipeline.steps.slice(-2).map((step) => step.workingDirectory)).toEqual(["web", "web"]);
+
+    expect(generateShellScript(nested)).toContain('cd "$(git rev-parse --show-toplevel)/web"');
+  });
+});
@@ -0,0 +1,166 @@
+import type { PackageManager } from "../options.js";
+
+export type CiProvider = "github" | "gitlab" | "bitbucket" | "azure" | "shell";
+
+export const CI_PROVIDERS: readonly CiProvider[] = ["github", "gitlab", "bitbucket", "azure", "shell"];
+
+export const CI_LABELS: Record<CiProvider, string> = {
+  github: "GitHub Actions",
+  gitlab: "GitLab CI",
+  bitbucket: "Bitbucket Pipelines",
+  azure: "Azure Pipelines",
+  shell: "Portable shell script",
+};
+
+export interface CiTemplateOptions {
+  pm: PackageManager;
+  /** Branch pull/merge requests target, e.g. "main". */
+  branch: string;
+  /** The project directory relative to the repo root, when it isn't the root. */
+  dir?: string;
+}
+
+export function ciInstallCmd(pm: PackageManager): string {
+  switch (pm) {
+    case "pnpm": return "npm i -g pnpm && pnpm install --frozen-lockfile";
+    case "yarn": return "yarn install --frozen-lockfile";
+    case "npm": return "npm ci";
+  }
+}
+
+/**
+ * Lint each commit of a range on its own, piping its message to commitlint
+ * with `MUSELET_COMMIT` set, so `context-by-path` and `context-min-tier`
+ * read that commit's diff. Every commit is linted before the step fails.
+ */
+function lintCommitsScript(range: string, commitlint = "npx commitlint", indent = ""): string {
+  return [
+    "status=0",
+    `for sha in $(git rev-list --reverse ${range}); do`,
+    `  git log -1 --format=%B "$sha" | MUSELET_COMMIT="$sha" ${commitlint} --verbose || status=1`,
+    "done",
+    'exit "$status"',
+  ]
+    .map((line) => `${indent}${line}\n`)
+    .join("");
+}
+
+export function generateWorkflow({ pm, branch, dir }: CiTemplateOptions): string {
+  const defaults = dir ? `    defaults:\n      run:\n        working-directory: ${dir}\n` : "";
+  return `name: Lint Commits (muselet)
+
+on:
+  pull_request:
+    branches: [${branch}]
+
+jobs:
+  commitlint:
+    runs-on: ubuntu-latest
+${defaults}    steps:
+      - uses: actions/checkout@v4
+        with:
+          fetch-depth: 0
+
+      - uses: actions/setup-node@v4
+        with:
+          node-version: 20
+
+      - name: Install dependencies
+        run: ${ciInstallCmd(pm)}
+
+      - name: Lint commits
+        run: |
+${lintCommitsScript('"\${{ github.event.pull_request.base.sha }}..\${{ github.event.pull_request.head.sha }}"', undefined, "          ")}`;
+}
+
+export function generateGitLabJob({ pm, branch, dir }: CiTemplateOptions): string {
+  return `# Lint Commits (muselet)
+muselet:
+  image: node:20
+  variables:
+    GIT_DEPTH: "0"
+  rules:
+    - if: $CI_PIPELINE_SOURCE == "merge_request_event" && $CI_MERGE_REQUEST_TARGET_BRANCH_NAME == "${branch}"
+  script:
+${dir ? `    - cd ${dir}\n` : ""}    - ${ciInstallCmd(pm)}
+    - |
+${lintCommitsScript('"$CI_MERGE_REQUEST_DIFF_BASE_SHA..$CI_COMMIT_SHA"', undefined, "      ")}`;
+}
+
+export function generateBitbucketPipeline({ pm, branch, dir }: CiTemplateOptions): string {
+  return `# Lint Commits (muselet)
+image: node:20
+
+clone:
+  depth: full
+
+pipelines:
+  pull-requests:
+    "**":
+      - step:
+          name: Lint commits
+          script:
+            - '[ "$BITBUCKET_PR_DESTINATION_BRANCH" = "${branch}" ] || exit 0'
+${dir ? `            - cd ${dir}\n` : ""}            - ${ciInstallCmd(pm)}
+            - git fetch origin "$BITBUCKET_PR_DESTINATION_BRANCH"
+            - BASE="$(git merge-base "origin/$BITBUCKET_PR_DESTINATION_BRANCH" "$BITBUCKET_COMMIT")"
+            - |
+${lintCommitsScript('"$BASE..$BITBUCKET_COMMIT"', undefined, "              ")}`;
+}
+
+export function generateAzurePipeline({ pm, branch, dir }: CiTemplateOptions): string {
+  const workingDirectory = dir ? `    workingDirectory: ${dir}\n` : "";
+  return `# Lint Commits (muselet)
+trigger: none
+
+pr:
+  branches:
+    include: [${branch}]
+
+pool:
+  vmImage: ubuntu-latest
+
+steps:
+  - checkout: self
+    fetchDepth: 0
+
+  - task: NodeTool@0
+    inputs:
+      versionSpec: "20.x"
+
+  - script: ${ciInstallCmd(pm)}
+    displayName: Install dependencies
+${workingDirectory}
+  - script: |
+      TARGET="\${SYSTEM_PULLREQUEST_TARGETBRANCH#refs/heads/}"
+      BASE="$(git merge-base "origin/$TARGET" "$SYSTEM_PULLREQUEST_SOURCECOMMITID")"
+${lintCommitsScript('"$BASE..$SYSTEM_PULLREQUEST_SOURCECOMMITID"', undefined, "      ")}    displayName: Lint commits
+${workingDirectory}`;
+}
+
+export function generateShellScript({ branch, dir }: CiTemplateOptions): string {
+  return `#!/bin/sh
+# Lint Commits (muselet)
+#
+# Lints every commit between the target branch and HEAD with commitlint,
+# one at a time so path and diff-size rules see each commit's own changes.
+# Works in any CI that can run a shell; install dependencies first.
+#
+#   scripts/muselet-ci.sh [base] [head]
+#
+# base defaults to the merge base with origin/$MUSELET_TARGET_BRANCH
+# (default: ${branch}); head defaults to HEAD.
+set -eu
+
+TARGET_BRANCH="\${MUSELET_TARGET_BRANCH:-${branch}}"
+
+if [ $# -ge 1 ]; then
+  BASE="$1"
+else
+  git fetch --quiet origin "$TARGET_BRANCH" || true
+  BASE="$(git merge-base "origin/$TARGET_BRANCH" HEAD)"
+fi
+HEAD_REF="\${2:-HEAD}"
+${dir ? `\ncd "$(git rev-parse --show-toplevel)/${dir}"\n` : ""}
+${lintCommitsScript('"$BASE..$HEAD_REF"', "npx --no -- commitlint")}`;
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { commitlintRules, type MuseletConfig } from "@muselet/commitlint-plugin";
+import { commitlintConfig, museletConfigModule, PLUGIN_NAME, ruleSettingsFrom } from "./commitlint-config.js";
+
+const rules = {
+  fix: { required: ["Why"], recommended: ["Cause", "Approach"] },
+  "feat(api)": ["Why", "Invariants"],
+};
+
+function evaluate(source: string): { rules: Record<string, unknown> } {
+  return new Function(source.replace(/export default|module\.exports =/, "return"))();
+}
+
+describe("commitlintConfig", () => {
+  it("wires up required sections as errors and recommended ones as warnings", () => {
+    const sections = {
+      fix: { required: ["Why"], recommended: ["Cause", "Approach"] },
+      "feat(api)": { required: ["Why", "Invariants"] },
+    };
+    expect(evaluate(commitlintConfig(rules)).rules).toEqual({
+      "context-by-type": [2, "always", sections],
+      "context-recommended": [1, "always", sections],
+    });
+  });
+
+  it("writes the chosen severities and modes", () => {
+    const source = commitlintConfig(rules, {
+      settings: {
+        "context-by-type": { level: 1, when: "never" },
+        "context-recommended": { level: 0, when: "always" },
+      },
+    });
+    expect(source).toContain("// Required sections → warn");
+    expect(source).toContain("// Recommended sections (agents will self-correct on warnings) → off");
+    const config = evaluate(source);
+    expect(config.rules["context-by-type"]).toEqual([1, "never", expect.any(Object)]);
+    expect(config.rules["context-recommended"]).toEqual([0, "always", expect.any(Object)]);
+  });
+
+  it("keeps scope overrides", () => {
+    const source = commitlintConfig({
+      fix: { required: ["Why"], scopes: { db: ["Migration"], "@acme/ui": [] } },
+    });
+    expect(source).toContain('fix: { required: ["Why"], scopes: { db: { required: ["Migration"] }, "@acme/ui": [] } }');
+    expect(evaluate(source).rules["context-by-type"]).toEqual([
+      2,
+      "always",
+      { fix: { required: ["Why"], scopes: { db: { required: ["Migration"] }, "@acme/ui": [] } } },
+    ]);
+  });
+
+  it("keeps every setting of a type", () => {
+    const fix = {
+      required: ["Why"],
+      placeholders: ["^tbd$"],
+      minLength: { Why: { words: 5 } },
+      aliases: { Why: ["Reason"] },
+      styles: ["heading" as const],
+    };
+    expect(evaluate(commitlintConfig({ fix })).rules["context-by-type"]).toEqual([2, "always", { fix }]);
+  });
+
+  it("emits CommonJS on request", () => {
+    expect(commitlintConfig(rules, { file: "commitlint.config.cjs", cjs: true })).toMatch(
+      /^\/\/ commitlint\.config\.cjs\nmodule\.exports = \{/,
+    );
+  });
+});
+
+describe("museletConfigModule", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "muselet-init-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Write the module next to `files` and import it, with the plugin resolved from here. */
+  async function load(files: Record<string, string>): Promise<{ rules: Record<string, unknown> }> {
+    const plugin = createRequire(import.meta.url).resolve(PLUGIN_NAME).replace(/\.cjs$/, ".js");
+    const source = museletConfigModule("muselet.config.yaml").replace(
+      `from "${PLUGIN_NAME}"`,
+      `from ${JSON.stringify(pathToFileURL(plugin).href)}`,
+    );
+    for (const [file, content] of Object.entries({ ...files, "commitlint.config.mjs": source })) {
+      writeFileSync(path.join(dir, file), content);
+    }
+    return (await import(pathToFileURL(path.join(dir, "commitlint.config.mjs")).href)).default;
+  }
+
+  it("loads every rule from the muselet config", async () => {
+    const config: MuseletConfig = {
+      types: { fix: { required: ["Why"], placeholders: ["^tbd$"] } },
+      aliases: { Why: ["Reason"] },
+      rules: { "context-by-type": "error", "context-breaking": "warn" },
+    };
+    const { rules } = await load({ "muselet.config.yaml": JSON.stringify(config) });
+    expect(rules).toEqual(commitlintRules(config));
+    expect(Object.keys(rules)).toContain("context-breaking");
+  });
+
+  it("fails loudly without the muselet config", async () => {
+    await expect(load({})).rejects.toThrow(/ENOENT.*muselet\.config\.yaml/);
+  });
+});
+
+describe("ruleSettingsFrom", () => {
+  it("reads a muselet config's severities over the defaults", () => {
+    expect(ruleSettingsFrom({ "context-recommended": ["off", "never"] })).toEqual({
+      "context-by-type": { level: 2, when: "always" },
+      "context-recommended": { level: 0, when: "never" },
+    });
+    expect(ruleSettingsFrom({ "context-by-type": 1 })["context-by-type"]).toEqual({ level: 1, when: "always" });
+  });
+});
@@ -1,38 +1,179 @@
-import type { RuleValue, SectionConfig } from "@muselet/commitlint-plugin";
+import type { MuseletConfig, RuleValue, SectionConfig } from "@muselet/commitlint-plugin";
+
+export const PLUGIN_NAME = "@muselet/commitlint-plugin";
+
+/** commitlint severities: 0 off, 1 warning, 2 error. */
+export type RuleLevel = 0 | 1 | 2;
+
+export interface RuleSetting {
+  level: RuleLevel;
+  when: "always" | "never";
+}
+
+/** The rules init wires up, each fed the same per-type sections. */
+export type MuseletRule = "context-by-type" | "context-recommended";
+
+export type RuleSettings = Record<MuseletRule, RuleSetting>;
+
+export const DEFAULT_RULE_SETTINGS: RuleSettings = {
+  "context-by-type": { level: 2, when: "always" },
+  "context-recommended": { level: 1, when: "always" },
+};
+
+export const LEVEL_NAMES: Record<RuleLevel, string> = { 0: "off", 1: "warn", 2: "error" };
+
+const SEVERITY_LEVELS: Record<"off" | "warn" | "error", RuleLevel> = { off: 0, warn: 1, error: 2 };
+
+/** Init's settings from a muselet config's `rules`, defaults filling the gaps. */
+export function ruleSettingsFrom(rules: MuseletConfig["rules"] = {}): RuleSettings {
+  const settings = { ...DEFAULT_RULE_SETTINGS };
+  for (const name of Object.keys(settings) as MuseletRule[]) {
+    const setting = rules[name];
+    if (setting === undefined) continue;
+    const [severity, when = "always"] = Array.isArray(setting) ? setting : [setting];
+    settings[name] = { level: typeof severity === "number" ? severity : SEVERITY_LEVELS[severity], when };
+  }
+  return settings;
+}
+
+/** A type's or scope's sections without empty lists; scopes are handled by the caller. */
+function sectionLists(config: SectionConfig | string[]): SectionConfig {
+  const { required, recommended, scopes: _, ...rest } = Array.isArray(config) ? { required: config } : config;
+  const out: SectionConfig = {};
+  if (required?.length) out.required = required;
+  if (recommended?.length) out.recommended = recommended;
+  return { ...out, ...rest };
+}
+
+function ruleSections(rules: RuleValue): Record<string, SectionConfig> {
+  return Object.fromEntries(
+    Object.entries(rules).map(([type, config]) => {
+      const out = sectionLists(config);
+      if (!Array.isArray(config) && config.scopes && Object.keys(config.scopes).length) {
+        // Scopes with no sections of their own stay as `[]` placeholders.
+        out.scopes = Object.fromEntries(
+          Object.entries(config.scopes).map(([scope, value]) => {
+            const lists = sectionLists(value);
+            return [scope, Object.keys(lists).length ? lists : []];
+          }),
+        );
+      }
+      return [type, out];
+    }),
+  );
+}
+
+/** The muselet rule entries, as data for JSON/YAML configs and merges. */
+export function museletRules(
+  rules: RuleValue,
+  settings: RuleSettings = DEFAULT_RULE_SETTINGS,
+): Record<string, unknown> {
+  const sections = ruleSections(rules);
+  return Object.fromEntries(
+    Object.entries(settings).map(([name, { level, when }]) => [name, [level, when, sections]]),
+  );
+}
+
+/** A complete commitlint config object, for JSON/YAML configs. */
+export function commitlintConfigObject(
+  rules: RuleValue,
+  settings: RuleSettings = DEFAULT_RULE_SETTINGS,
+): Record<string, unknown> {
+  return {
+    extends: ["@commitlint/config-conventional"],
+    plugins: [PLUGIN_NAME],
+    rules: museletRules(rules, settings),
+  };
+}
+
+function serializeKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function serializeList(list: readonly string[]): string {
+  return `[${list.map(s => `"${s}"`).join(", ")}]`;
+}
+
+function serializeSection(section: SectionConfig | string[]): string {
+  if (Array.isArray(section)) return serializeList(section);
+  const parts: string[] = [];
+  const { required, recommended, scopes: _, ...rest } = section;
+  if (required?.length) parts.push(`required: ${serializeList(required)}`);
+  if (recommended?.length) parts.push(`recommended: ${serializeList(recommended)}`);
+  for (const [key, value] of Object.entries(rest)) parts.push(`${serializeKey(key)}: ${JSON.stringify(value)}`);
+  if (section.scopes) {
+    const scopes = Object.entries(section.scopes).map(([scope, value]) => `${serializeKey(scope)}: ${serializeSection(value)}`);
+    parts.push(`scopes: { ${scopes.join(", ")} }`);
+  }
+  return `{ ${parts.join(", ")} }`;
+}
 
 function serializeRuleValue(rules: RuleValue): string {
-  const entries = Object.entries(rules).map(([type, config]) => {
-    const section = Array.isArray(config)
-      ? { required: config } as SectionConfig
-      : config as SectionConfig;
-    const parts: string[] = [];
-    if (section.required?.length) {
-      parts.push(`required: [${section.required.map(s => `"${s}"`).join(", ")}]`);
-    }
-    if (section.recommended?.length) {
-      parts.push(`recommended: [${section.recommended.map(s => `"${s}"`).join(", ")}]`);
-    }
-    return `        ${type}: { ${parts.join(", ")} }`;
-  });
+  const entries = Object.entries(ruleSections(rules)).map(
+    ([type, section]) => `        ${serializeKey(type)}: ${serializeSection(section)}`,
+  );
   return entries.join(",\n");
 }
 
-export function commitlintConfig(rules: RuleValue): string {
-  return `// commitlint.config.mjs
-export default {
-  extends: ["@commitlint/config-conventional"],
-  plugins: ["@muselet/commitlint-plugin"],
-  rules: {
-    // Required sections → error if missing
-    // Recommended sections → warning if missing (non-blocking, but agents will self-correct)
-    "context-by-type": [
-      2,
-      "always",
+export interface ConfigModuleOptions {
+  /** File name for the header comment. */
+  file?: string;
+  /** Emit `module.exports` instead of `export default`. */
+  cjs?: boolean;
+  settings?: RuleSettings;
+}
+
+const RULE_COMMENTS: Record<MuseletRule, string> = {
+  "context-by-type": "Required sections",
+  "context-recommended": "Recommended sections (agents will self-correct on warnings)",
+};
+
+function serializeRule(name: MuseletRule, { level, when }: RuleSetting, sections: string): string {
+  return `    // ${RULE_COMMENTS[name]} → ${LEVEL_NAMES[level]}
+    "${name}": [
+      ${level},
+      "${when}",
       {
-${serializeRuleValue(rules)},
+${sections},
       },
-    ],
+    ],`;
+}
+
+export function commitlintConfig(
+  rules: RuleValue,
+  { file = "commitlint.config.mjs", cjs = false, settings = DEFAULT_RULE_SETTINGS }: ConfigModuleOptions = {},
+): string {
+  const sections = serializeRuleValue(rules);
+  const entries = (Object.entries(settings) as [MuseletRule, RuleSetting][])
+    .map(([name, setting]) => serializeRule(name, setting, sections));
+  return `// ${file}
+${cjs ? "module.exports =" : "export default"} {
+  extends: ["@commitlint/config-conventional"],
+  plugins: ["${PLUGIN_NAME}"],
+  rules: {
+${entries.join("\n")}
   },
 };
 `;
 }
+
+/**
+ * A commitlint config that loads the rules from a muselet config file,
+ * `museletFile` being its path relative to the commitlint config.
+ */
+export function museletConfigModule(museletFile: string, { file = "commitlint.config.mjs" }: Pick<ConfigModuleOptions, "file"> = {}): string {
+  const name = JSON.stringify(museletFile);
+  return `// ${file}
+import { fileURLToPath } from "node:url";
+import { commitlintRules, loadMuseletConfig } from "${PLUGIN_NAME}";
+
+// The rules live in ${museletFile}.
+const muselet = await loadMuseletConfig(fileURLToPath(new URL(".", import.meta.url)), ${name});
+
+export default {
+  extends: ["@commitlint/config-conventional"],
+  plugins: ["${PLUGIN_NAME}"],
+  rules: commitlintRules(muselet.config),
+};
+`;
+}
@@ -0,0 +1,90 @@
+import path from "node:path";
+import { execSync } from "node:child_process";
+import { cancel, confirm, intro, isCancel, log, note, outro } from "@clack/prompts";
+import {
+  loadManifest,
+  manifestPath,
+  removeManifest,
+  saveManifest,
+  undoChanges,
+  type Manifest,
+} from "./manifest.js";
+import type { UninstallOptions } from "./options.js";
+import { uninstallCmd, type ProjectRoots } from "./workspace.js";
+
+/** The recap lines for undoing `manifest`. */
+export function describeUndo(manifest: Manifest): string[] {
+  const lines = [
+    ...manifest.blocks.map(({ file, created }) =>
+      created ? `Delete ${file} (only holds the muselet block)` : `Remove the muselet block from ${file}`,
+    ),
+    ...manifest.files.map(({ file, before }) => (before === null ? `Delete ${file}` : `Restore ${file}`)),
+  ];
+  if (manifest.hooksPath) {
+    const { before } = manifest.hooksPath;
+    lines.push(before === null ? "Unset core.hooksPath" : `Reset core.hooksPath to ${before}`);
+  }
+  if (manifest.dependencies.length > 0) lines.push(`Uninstall ${manifest.dependencies.join(", ")}`);
+  return lines;
+}
+
+/**
+ * Undo what init recorded in its manifest. Files edited since are left
+ * alone (and kept in the manifest) unless `--force` is given. Resolves to
+ * `false` if anything was left behind.
+ */
+export async function uninstall(options: UninstallOptions, roots: ProjectRoots): Promise<boolean> {
+  intro("muselet uninstall");
+
+  const root = roots.gitRoot;
+  const manifest = loadManifest(root);
+  if (!manifest) {
+    outro(`Nothing to undo: no manifest at ${path.relative(roots.cwd, manifestPath(root))}.`);
+    return false;
+  }
+
+  note(describeUndo(manifest).map((line) => `• ${line}`).join("\n"), "Uninstall recap");
+
+  const proceed = options.yes || await confirm({ message: "Undo the muselet setup?", initialValue: true });
+  if (isCancel(proceed) || !proceed) {
+    cancel("Uninstall cancelled.");
+    return true;
+  }
+
+  const { restored, skipped } = await undoChanges(root, manifest, { force: options.force });
+  if (restored.length > 0) log.success(`Restored: ${restored.join(", ")}`);
+
+  let dependencies = manifest.dependencies;
+  if (dependencies.length > 0) {
+    // The package manager's config (e.g. .yarnrc.yml) sits with the package, not the git root.
+    const packageRoot = path.join(root, manifest.packageDir);
+    const cmd = `${uninstallCmd(manifest.pm, { root: packageRoot, workspace: manifest.workspace })} ${dependencies.join(" ")}`;
+    log.step(`$ ${cmd}`);
+    try {
+      execSync(cmd, { cwd: packageRoot, stdio: "inherit" });
+      dependencies = [];
+    } catch {
+      log.warn(`\`${cmd}\` failed. Remove the packages yourself.`);
+    }
+  }
+
+  if (skipped.length === 0 && dependencies.length === 0) {
+    await removeManifest(root);
+    outro("muselet is gone. 🍾");
+    return true;
+  }
+
+  // Keep what's left so a later `--force` run can finish the job.
+  await saveManifest(root, {
+    ...manifest,
+    dependencies,
+    files: manifest.files.filter((change) => skipped.includes(change.file)),
+    blocks: manifest.blocks.filter((block) => skipped.includes(block.file)),
+    hooksPath: undefined,
+  });
+  if (skipped.length > 0) {
+    log.warn(`Changed since init, left alone: ${skipped.join(", ")}`);
+  }
+  outro("Partly undone. Re-run with --force to restore the remaining files anyway.");
+  return false;
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  detectPackageManager,
+  findProjectRoots,
+  installCmd,
+  listWorkspacePackages,
+  scopeName,
+  uninstallCmd,
+  withPackageScopes,
+} from "./workspace.js";
+
+let dir: string;
+
+function write(file: string, content: string): void {
+  mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  writeFileSync(path.join(dir, file), content);
+}
+
+function writeJson(file: string, data: unknown): void {
+  write(file, JSON.stringify(data));
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "muselet-workspace-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("findProjectRoots", () => {
+  it("finds a pnpm workspace root from a package", () => {
+    write("pnpm-workspace.yaml", "packages:\n  - packages/*\n");
+    writeJson("packages/api/package.json", { name: "@acme/api" });
+    const cwd = path.join(dir, "packages", "api");
+    expect(findProjectRoots(cwd, dir)).toEqual({
+      cwd,
+      gitRoot: dir,
+      packageRoot: dir,
+      workspace: { root: dir, patterns: ["packages/*"] },
+    });
+  });
+
+  it("reads workspaces from package.json in both forms", () => {
+    writeJson("package.json", { workspaces: ["apps/*"] });
+    expect(findProjectRoots(path.join(dir, "apps"), dir).workspace).toEqual({ root: dir, patterns: ["apps/*"] });
+    writeJson("package.json", { workspaces: { packages: ["libs/*"], nohoist: [] } });
+    expect(findProjectRoots(dir, dir).workspace).toEqual({ root: dir, patterns: ["libs/*"] });
+  });
+
+  it("uses the nearest package.json below the git root outside a workspace", () => {
+    writeJson("web/package.json", { name: "web" });
+    const cwd = path.join(dir, "web", "src");
+    mkdirSync(cwd);
+    expect(findProjectRoots(cwd, dir)).toMatchObject({ gitRoot: dir, packageRoot: path.join(dir, "web"), workspace: null });
+  });
+
+  it("doesn't look past the git root", () => {
+    writeJson("package.json", { workspaces: ["*"] });
+    const repo = path.join(dir, "repo");
+    mkdirSync(repo);
+    expect(findProjectRoots(repo, repo)).toMatchObject({ packageRoot: repo, workspace: null });
+  });
+});
+
+describe("detectPackageManager", () => {
+  it("prefers the packageManager field over lockfiles", () => {
+    write("package-lock.json", "{}");
+    writeJson("package.json", { packageManager: "yarn@4.1.0" });
+    expect(detectPackageManager(dir)).toBe("yarn");
+  });
+
+  it("falls back to the lockfile", () => {
+    write("pnpm-lock.yaml", "");
+    expect(detectPackageManager(dir)).toBe("pnpm");
+  });
+});
+
+describe("installCmd", () => {
+  it("adds the workspace root flag", () => {
+    expect(installCmd("pnpm", { root: dir, workspace: true })).toBe("pnpm add -D -w");
+    expect(installCmd("yarn", { root: dir, workspace: true })).toBe("yarn add -D -W");
+    expect(installCmd("npm", { root: dir, workspace: true })).toBe("npm install -D");
+    expect(installCmd("pnpm", { root: dir, workspace: false })).toBe("pnpm add -D");
+  });
+
+  it("leaves -W off for Yarn 2+", () => {
+    write(".yarnrc.yml", "nodeLinker: node-modules\n");
+    expect(installCmd("yarn", { root: dir, workspace: true })).toBe("yarn add -D");
+  });
+
+  it("removes with the same flags", () => {
+    expect(uninstallCmd("pnpm", { root: dir, workspace: true })).toBe("pnpm remove -w");
+    expect(uninstallCmd("yarn", { root: dir, workspace: true })).toBe("yarn remove -W");
+    expect(uninstallCmd("npm", { root: dir, workspace: true })).toBe("npm uninstall");
+  });
+});
+
+describe("listWorkspacePackages", () => {
+  it("expands globs and skips exclusions and unnamed packages", () => {
+    writeJson("packages/api/package.json", { name: "@acme/api" });
+    writeJson("packages/ui/package.json", { name: "@acme/ui" });
+    writeJson("packages/fixtures/package.json", { name: "fixtures" });
+    writeJson("packages/scratch/package.json", {});
+    writeJson("apps/web/package.json", { name: "web" });
+    writeJson("tools/lint/config/package.json", { name: "lint-config" });
+    expect(
+      listWorkspacePackages({ root: dir, patterns: ["packages/*", "apps/web", "tools/**", "!packages/fixtures"] }),
+    ).toEqual([
+      { name: "web", dir: "apps/web" },
+      { name: "@acme/api", dir: "packages/api" },
+      { name: "@acme/ui", dir: "packages/ui" },
+      { name: "lint-config", dir: "tools/lint/config" },
+    ]);
+  });
+});
+
+describe("package scopes", () => {
+  it("strips the npm scope", () => {
+    expect(scopeName("@acme/api")).toBe("api");
+    expect(scopeName("web")).toBe("web");
+  });
+
+  it("adds an empty override per package, keeping existing ones", () => {
+    expect(
+      withPackageScopes(
+        {
+          fix: ["Why"],
+          feat: { required: ["Why"], scopes: { api: ["Invariants"] } },
+          "chore(deps)": { required: [], inherit: false },
+        },
+        ["api", "web"],
+      ),
+    ).toEqual({
+      fix: { required: ["Why"], scopes: { api: [], web: [] } },
+      feat: { required: ["Why"], scopes: { api: ["Invariants"], web: [] } },
+      "chore(deps)": { required: [], inherit: false },
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import path from "node:path";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import yaml from "js-yaml";
+import type { RuleValue, SectionConfig } from "@muselet/commitlint-plugin";
+import type { PackageManager } from "./options.js";
+
+export interface Workspace {
+  /** Absolute path of the workspace root. */
+  root: string;
+  /** Package globs from pnpm-workspace.yaml or the `workspaces` field. */
+  patterns: string[];
+}
+
+export interface ProjectRoots {
+  /** Where init was run. */
+  cwd: string;
+  /** The git work tree root; hooks and CI live here. */
+  gitRoot: string;
+  /** Where dependencies are installed and the commitlint config lives. */
+  packageRoot: string;
+  /** The enclosing workspace, if `packageRoot` is one. */
+  workspace: Workspace | null;
+}
+
+export interface WorkspacePackage {
+  name: string;
+  /** Directory relative to the workspace root. */
+  dir: string;
+}
+
+function readJson(file: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(readFileSync(file, "utf-8")) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/** The workspace rooted at `dir`, if `dir` declares one. */
+function workspaceAt(dir: string): Workspace | null {
+  const pnpmFile = path.join(dir, "pnpm-workspace.yaml");
+  if (existsSync(pnpmFile)) {
+    const data = yaml.load(readFileSync(pnpmFile, "utf-8")) as { packages?: string[] } | null;
+    return { root: dir, patterns: data?.packages ?? [] };
+  }
+  const workspaces = readJson(path.join(dir, "package.json"))?.workspaces;
+  if (Array.isArray(workspaces)) return { root: dir, patterns: workspaces as string[] };
+  if (workspaces && typeof workspaces === "object") {
+    const { packages } = workspaces as { packages?: string[] };
+    return { root: dir, patterns: packages ?? [] };
+  }
+  return null;
+}
+
+/**
+ * Work out where each part of the setup belongs. Walking up from `cwd`
+ * (but not past `gitRoot`), the first workspace root wins; otherwise the
+ * nearest directory with a package.json, otherwise the git root.
+ */
+export function findProjectRoots(cwd: string, gitRoot: string | null): ProjectRoots {
+  const top = gitRoot ?? path.parse(cwd).root;
+  let nearestPackage: string | null = null;
+
+  for (let dir = cwd; ; dir = path.dirname(dir)) {
+    const workspace = workspaceAt(dir);
+    if (workspace) return { cwd, gitRoot: gitRoot ?? dir, packageRoot: dir, workspace };
+    if (!nearestPackage && existsSync(path.join(dir, "package.json"))) nearestPackage = dir;
+    if (dir === top || dir === path.dirname(dir)) break;
+  }
+
+  const packageRoot = nearestPackage ?? gitRoot ?? cwd;
+  return { cwd, gitRoot: gitRoot ?? packageRoot, packageRoot, workspace: null };
+}
+
+/** Names of the dependencies `root`'s package.json already lists. */
+export function installedDependencies(root: string): Set<string> {
+  const pkg = readJson(path.join(root, "package.json"));
+  const names = ["dependencies", "devDependencies"].flatMap((key) => Object.keys((pkg?.[key] ?? {}) as object));
+  return new Set(names);
+}
+
+/** Package manager from `packageManager` in package.json, then the lockfile. */
+export function detectPackageManager(root: string): PackageManager {
+  const declared = readJson(path.join(root, "package.json"))?.packageManager;
+  if (typeof declared === "string") {
+    const name = declared.split("@")[0];
+    if (name === "pnpm" || name === "yarn" || name === "npm") return name;
+  }
+  if (existsSync(path.join(root, "pnpm-lock.yaml"))) return "pnpm";
+  if (existsSync(path.join(root, "yarn.lock"))) return "yarn";
+  return "npm";
+}
+
+/**
+ * The dev-dependency install command. Inside a workspace root, pnpm and
+ * Yarn classic refuse to add root dependencies without `-w` / `-W`.
+ */
+export function installCmd(pm: PackageManager, { root, workspace }: { root: string; workspace: boolean }): string {
+  switch (pm) {
+    case "pnpm":
+      return workspace ? "pnpm add -D -w" : "pnpm add -D";
+    case "yarn": {
+      // Yarn 2+ (configured through .yarnrc.yml) has no -W; the root is a workspace like any other.
+      const berry = existsSync(path.join(root, ".yarnrc.yml"));
+      return workspace && !berry ? "yarn add -D -W" : "yarn add -D";
+    }
+    case "npm":
+      return "npm install -D";
+  }
+}
+
+/** The command removing dependencies `installCmd` added, with the same workspace flags. */
+export function uninstallCmd(pm: PackageManager, { root, workspace }: { root: string; workspace: boolean }): string {
+  switch (pm) {
+    case "pnpm":
+      return workspace ? "pnpm remove -w" : "pnpm remove";
+    case "yarn": {
+      const berry = existsSync(path.join(root, ".yarnrc.yml"));
+      return workspace && !berry ? "yarn remove -W" : "yarn remove";
+    }
+    case "npm":
+      return "npm uninstall";
+  }
+}
+
+function expandPattern(root: string, pattern: string): string[] {
+  let dirs = [""];
+  for (const segment of pattern.replace(/\/+$/, "").split("/")) {
+    dirs = dirs.flatMap((dir) => {
+      if (segment === "**") return [dir, ...subdirs(root, dir, true)];
+      if (!segment.includes("*")) return [path.posix.join(dir, segment)];
+      const match = new RegExp(`^${segment.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*")}$`);
+      return subdirs(root, dir, false).filter((sub) => match.test(path.posix.basename(sub)));
+    });
+  }
+  return dirs;
+}
+
+function subdirs(root: string, dir: string, recursive: boolean): string[] {
+  let entries;
+  try {
+    entries = readdirSync(path.join(root, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((entry) => entry.isDirectory() && entry.name !== "node_modules" && !entry.name.startsWith("."))
+    .flatMap((entry) => {
+      const sub = path.posix.join(dir, entry.name);
+      return recursive ? [sub, ...subdirs(root, sub, true)] : [sub];
+    });
+}
+
+/** The named packages matched by the workspace globs (`!` globs exclude). */
+export function listWorkspacePackages(workspace: Workspace): WorkspacePackage[] {
+  const include = workspace.patterns.filter((p) => !p.startsWith("!"));
+  const exclude = new Set(
+    workspace.patterns.filter((p) => p.startsWith("!")).flatMap((p) => expandPattern(workspace.root, p.slice(1))),
+  );
+  const dirs = [...new Set(include.flatMap((p) => expandPattern(workspace.root, p)))]
+    .filter((dir) => !exclude.has(dir))
+    .sort();
+
+  return dirs.flatMap((dir) => {
+    const name = readJson(path.join(workspace.root, dir, "package.json"))?.name;
+    return typeof name === "string" ? [{ name, dir }] : [];
+  });
+}
+
+/** Commit scope for a package: its name without the npm scope, e.g. "@acme/api" → "api". */
+export function scopeName(packageName: string): string {
+  return packageName.replace(/^@[^/]+\//, "");
+}
+
+/**
+ * Add an empty override for each scope to every type, so the config lists
+ * the workspace's packages ready for package-specific sections. Existing
+ * overrides and `type(scope)` keys are kept.
+ */
+export function withPackageScopes(config: RuleValue, scopes: readonly string[]): RuleValue {
+  return Object.fromEntries(
+    Object.entries(config).map(([type, value]) => {
+      if (type.includes("(")) return [type, value];
+      const section: SectionConfig = Array.isArray(value) ? { required: value } : value;
+      const overrides = Object.fromEntries(scopes.map((scope) => [scope, [] as string[]]));
+      return [type, { ...section, scopes: { ...overrides, ...section.scopes } }];
+    }),
+  );
+}
@@ -0,0 +1,15 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { FileWrite } from "./hooks.js";
+
+/** Write planned files under `base`, creating directories as needed. */
+export async function writeFiles(base: string, writes: readonly FileWrite[]): Promise<void> {
+  for (const write of writes) {
+    const filePath = path.join(base, write.file);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, write.after);
+    // writeFile only applies a mode to new files; hook scripts that already
+    // exist need it too.
+    if (write.mode) await fs.chmod(filePath, write.mode);
+  }
+}